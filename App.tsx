@@ -1,22 +1,51 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo, useSyncExternalStore } from 'react';
 import { 
-  GamePhase, Player, GameState, CoachAdvice 
+  GamePhase, Player, GameState, CoachAdvice, CoachError, HandHistoryEntry, PlayerAction 
 } from './types';
 import { 
   evaluateHand, gradeStartingHand, getBotDecision 
 } from './utils/poker';
 import { GameEngine } from './utils/GameEngine';
+import { createSeed, getDailySeed, createRng, deriveSeed } from './utils/random';
+import { calculateEquity, requiredEquity, formatEquity } from './utils/equity';
 import { 
-  STARTING_CHIPS, BIG_BLIND, SMALL_BLIND, AI_PERSONALITIES, FRIEND_NAMES 
+  STARTING_CHIPS, CASH_BLINDS, AI_PERSONALITIES, FRIEND_NAMES, MTT_ENTRANTS, MTT_TABLE_SIZE
 } from './constants';
-import { getPokerAdvice, generateOpponentBanter } from './services/gemini';
+import { getPokerAdvice, generateOpponentBanter, isCoachError } from './services/coach';
+import { getProvider } from './services/llm';
+import { getLocalAdvice } from './services/localCoach';
+import { buildCoachRequest } from './services/coachContext';
+import { reviewHand, reviewHandLocally } from './services/handReview';
+import { canReplay } from './utils/replay';
+import { loadSettings, saveSettings, AppSettings } from './services/settings';
+import { createSlotId, saveRun, loadRun, deleteRun, listSaves, loadSavedHistories, loadSavedRunHistories } from './services/saves';
+import { loadPlayerNotes, savePlayerNote, PlayerNote } from './services/playerNotes';
+import { getEngineState, getEngineVersion, setEngineState, subscribeToEngine } from './services/engineStore';
+import { getDefaultServerUrl } from './services/lanClient';
+import { computeStats } from './utils/stats';
+import { createTournament, getFinish, formatPlace, formatBlinds, describeTimeToNextLevel, resumeTournamentClock } from './utils/tournament';
+import { createCashGame, addChips, cashOut } from './utils/cashGame';
+import { projectStateFor, projectHistoryFor } from './utils/projection';
+import { isActionError } from './utils/betting';
+import { createMultiTableTournament, createFieldBots, setupNextMultiTableHand, playOutMultiTable } from './utils/multiTable';
 import Shop from './components/Shop';
 import PokerTable from './components/PokerTable';
 import GameControls from './components/GameControls';
 import HandHistory from './components/HandHistory';
+import HandReplayer from './components/HandReplayer';
+import HandReviewPanel from './components/HandReviewPanel';
+import StatsDashboard from './components/StatsDashboard';
+import BankrollChart from './components/BankrollChart';
+import SaveSlots from './components/SaveSlots';
+import CoachSettings from './components/CoachSettings';
+import TournamentSettings from './components/TournamentSettings';
+import CashGameSettings from './components/CashGameSettings';
+import TableLedger from './components/TableLedger';
+import TableOverview from './components/TableOverview';
+import LanTable from './components/LanTable';
 
 import { 
-  Coins, Activity, Scale, Percent, Zap, BookOpen, MessageSquare, ListOrdered, Minus, History, Brain
+  Coins, Activity, Scale, Percent, Zap, BookOpen, MessageSquare, ListOrdered, Minus, History, Brain, AlertTriangle, GraduationCap, BarChart3, LineChart, Banknote, LayoutGrid
 } from 'lucide-react';
 
 // --- Poker Glossary Data ---
@@ -31,6 +60,7 @@ const POKER_GLOSSARY: Record<string, string> = {
   "LP": "Late Position (Cutoff, Button). Ideal for stealing blinds and playing wide ranges.",
   "SPR": "Stack-to-Pot Ratio. Low SPR (<3) means you're committed; High SPR (>10) allows for maneuvering.",
   "POT ODDS": "The ratio of pot size to the bet. If your chance to win is higher than the odds, you call.",
+  "EQUITY": "Your share of the pot if the hand were run out many times. Calling is +EV when equity beats the share of the final pot you're paying.",
   "3-BET": "A re-raise pre-flop (The 3rd bet). Signals immense strength (or a brave bluff).",
   "CONNECTORS": "Cards of consecutive rank (e.g., 8-9). Great for making straights.",
   "SUITED": "Cards of the same suit. They increase your equity by ~2.5% vs offsuit.",
@@ -176,8 +206,10 @@ const StatsHUD: React.FC<{
   handDesc: string;
   potOdds: string | null;
   spr: string;
+  equity: string | null;
+  callEv?: '+EV' | '-EV';
   handGrade?: { grade: string; tip: string };
-}> = ({ handDesc, potOdds, spr, handGrade }) => (
+}> = ({ handDesc, potOdds, spr, equity, callEv, handGrade }) => (
   <div className="flex flex-col gap-2 pointer-events-auto select-none">
     {handGrade && (
       <div className="self-start animate-deal mb-2 group cursor-help">
@@ -216,6 +248,24 @@ const StatsHUD: React.FC<{
         </Tooltip>
       </div>
 
+      <div className="flex flex-col items-center px-3 border-r border-slate-700 group cursor-help relative">
+        <Tooltip term="Equity" definition={POKER_GLOSSARY["EQUITY"]}>
+            <div className="flex flex-col items-center">
+                <div className="text-[10px] text-slate-400 uppercase font-bold flex items-center gap-1 border-b border-dotted border-slate-600">
+                <Zap size={12} /> Equity
+                </div>
+                <div className="text-sm font-bold text-sky-300 whitespace-nowrap">
+                  {equity || "-"}
+                  {callEv && (
+                    <span className={`ml-1 text-[10px] px-1 rounded ${callEv === '+EV' ? 'bg-emerald-700 text-emerald-100' : 'bg-red-800 text-red-100'}`}>
+                      {callEv}
+                    </span>
+                  )}
+                </div>
+            </div>
+        </Tooltip>
+      </div>
+
       <div className="flex flex-col items-center px-3 group cursor-help">
         <Tooltip term="SPR" definition={POKER_GLOSSARY["SPR"]}>
             <div className="flex flex-col items-center">
@@ -273,28 +323,61 @@ const ChipLeaderboard: React.FC<{ players: Player[] }> = ({ players }) => {
 
 // --- Main App Component ---
 
+type GameMode = 'run' | 'tournament' | 'league-final' | 'cash';
+
+const getGameMode = (state: GameState): GameMode =>
+  state.multiTable ? 'league-final' : state.tournament ? 'tournament' : state.cashGame ? 'cash' : 'run';
+
 const App: React.FC = () => {
   // --- State ---
-  const [gameState, setGameState] = useState<GameState | null>(null);
+  // The engine state stays in its store outside the component tree; React only tracks its version
+  // and hands the components the projected view and history built below
+  useSyncExternalStore(subscribeToEngine, getEngineVersion);
+  const gameState = getEngineState();
+  const setGameState = setEngineState;
   const [humanPerks, setHumanPerks] = useState<string[]>([]);
   const [gameStarted, setGameStarted] = useState(false);
   
   // AI & Advice
-  const [coachAdvice, setCoachAdvice] = useState<CoachAdvice | null>(null);
+  const [coachAdvice, setCoachAdvice] = useState<CoachAdvice | CoachError | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
   const [isLoadingAdvice, setIsLoadingAdvice] = useState(false);
   const [banter, setBanter] = useState<string>("");
+  const [replayEntry, setReplayEntry] = useState<HandHistoryEntry | null>(null);
+  const [reviewEntryId, setReviewEntryId] = useState<string | null>(null);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [showStats, setShowStats] = useState(false);
+  const [showBankroll, setShowBankroll] = useState(false);
+  const [showTables, setShowTables] = useState(false);
+
+  // Persistence
+  const [saveSlot, setSaveSlot] = useState<{ slotId: string; name: string } | null>(null);
+  const [saves, setSaves] = useState(listSaves);
+  const [newRunName, setNewRunName] = useState("");
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [playerNotes, setPlayerNotes] = useState<Record<string, PlayerNote>>(loadPlayerNotes);
+
+  // LAN table (played against the server, not the local engine)
+  const [lanUrl, setLanUrl] = useState(getDefaultServerUrl);
+  const [lanName, setLanName] = useState("");
+  const [lanSession, setLanSession] = useState<{ url: string; name: string | null } | null>(null);
+
+  const initGame = (runSeed: number = createSeed(), runName: string = `Run ${new Date().toLocaleString()}`, mode: GameMode = 'run') => {
+    // Cash games seat everyone at the league stack, nudged into the table's buy-in range
+    const buyIn = mode === 'cash'
+      ? Math.min(settings.cashGame.maxBuyIn, Math.max(settings.cashGame.minBuyIn, STARTING_CHIPS))
+      : STARTING_CHIPS;
 
-  const initGame = () => {
     // 1. Create Players
     const human: Player = {
-      id: 'p1', name: 'You', chips: STARTING_CHIPS, hand: [], isHuman: true,
+      id: 'p1', name: 'You', chips: buyIn, hand: [], isHuman: true,
       isActive: true, isAllIn: false, currentBet: 0, position: 'BTN'
     };
     
     const bots: Player[] = FRIEND_NAMES.map((name, i) => ({
       id: `bot_${i}`,
       name: name,
-      chips: STARTING_CHIPS,
+      chips: buyIn,
       hand: [],
       isHuman: false,
       isActive: true,
@@ -308,28 +391,95 @@ const App: React.FC = () => {
     const allPlayers = [human, ...bots];
 
     // 2. Start first hand using Engine
-    const initialState = GameEngine.setupNewHand(allPlayers, -1, 0, []);
+    const tournament = mode === 'tournament' ? createTournament(settings.tournament, allPlayers.length) : undefined;
+    const cashGame = mode === 'cash' ? createCashGame(settings.cashGame, allPlayers) : undefined;
+    // The league final seats a full field of bots across several tables
+    const initialState = mode === 'league-final'
+      ? createMultiTableTournament([human, ...createFieldBots(MTT_ENTRANTS - 1, STARTING_CHIPS)], settings.tournament, MTT_TABLE_SIZE, runSeed)
+      : GameEngine.setupFirstHand(allPlayers, runSeed, { tournament, cashGame });
     
     setGameState(initialState);
+    setHumanPerks([]);
+    setSaveSlot({ slotId: createSlotId(), name: runName });
+    setGameStarted(true);
+    setCoachAdvice(null);
+    setReviewEntryId(null);
+  };
+
+  const resumeGame = (slotId: string) => {
+    const run = loadRun(slotId);
+    if (!run) {
+      setSaves(listSaves());
+      return;
+    }
+    // A minutes-based blind clock stays paused while the run is saved
+    const { tournament } = run.gameState;
+    setGameState(tournament ? { ...run.gameState, tournament: resumeTournamentClock(tournament, run.savedAt) } : run.gameState);
+    setHumanPerks(run.humanPerks);
+    setSaveSlot({ slotId: run.slotId, name: run.name });
     setGameStarted(true);
     setCoachAdvice(null);
+    setReviewEntryId(null);
   };
 
+  const removeSave = (slotId: string) => {
+    deleteRun(slotId);
+    setSaves(listSaves());
+  };
+
+  // Autosave after every completed hand (and after shop purchases or cash-game buy-ins between hands)
+  useEffect(() => {
+    if (!gameState || !saveSlot) return;
+    if (gameState.phase === GamePhase.SHOWDOWN || gameState.phase === GamePhase.SHOP) {
+      saveRun(saveSlot.slotId, saveSlot.name, gameState, humanPerks);
+    } else if (gameState.phase === GamePhase.GAME_OVER) {
+      deleteRun(saveSlot.slotId);
+    }
+  }, [gameState?.phase, gameState?.handCount, gameState?.cashGame, humanPerks, saveSlot]);
+
   const startNewHand = useCallback(() => {
     if (!gameState) return;
     
     const human = gameState.players.find(p => p.isHuman);
-    if (human && human.chips <= 0) {
-      setGameState(prev => prev ? ({...prev, phase: GamePhase.GAME_OVER}) : null);
+    // A busted cash-game player stays seated until they rebuy or leave
+    if (gameState.cashGame && human && human.chips <= 0) return;
+    if ((human && human.chips <= 0) || gameState.tournament?.isComplete) {
+      // Multi-table events play out without the human so the standings are final
+      setGameState(prev => prev ? ({...(prev.multiTable ? playOutMultiTable(prev) : prev), phase: GamePhase.GAME_OVER}) : null);
       return;
     }
 
-    const newState = GameEngine.setupNewHand(gameState.players, gameState.dealerIndex, gameState.handCount, gameState.handHistory);
+    const newState = gameState.multiTable ? setupNextMultiTableHand(gameState) : GameEngine.setupNextHand(gameState);
     setGameState(newState);
     setCoachAdvice(null);
     setBanter("");
+    setActionError(null);
   }, [gameState]);
 
+  // --- Cash Game Table ---
+
+  const handleAddChips = (amount: number) => {
+    setGameState(prev => {
+      const you = prev?.players.find(p => p.isHuman);
+      return prev && you ? addChips(prev, you.id, amount) : prev;
+    });
+  };
+
+  // Leaving cashes the stack out and ends the session
+  const handleLeaveTable = () => {
+    setGameState(prev => {
+      const you = prev?.players.find(p => p.isHuman);
+      return prev && you ? { ...cashOut(prev, you.id), phase: GamePhase.GAME_OVER } : prev;
+    });
+  };
+
+  const handleShowCards = (cardIds: string[]) => {
+    setGameState(prev => {
+      const you = prev?.players.find(p => p.isHuman);
+      return prev && you ? GameEngine.showCards(prev, you.id, cardIds) : prev;
+    });
+  };
+
   // --- AI Logic Turn ---
   useEffect(() => {
     if (!gameState || !gameStarted) return;
@@ -356,46 +506,15 @@ const App: React.FC = () => {
     }
 
     const decision = getBotDecision(player, gameState);
+    const newState = GameEngine.applyDecision(gameState, player, decision);
+    setGameState(newState);
+    setTimeout(() => clearActionBubble(player.id), 3000);
 
+    // Proceed
     if (decision.action === 'FOLD') {
-      const newPlayers = [...gameState.players];
-      newPlayers[gameState.currentPlayerIndex].isActive = false;
-      newPlayers[gameState.currentPlayerIndex].actionMessage = "Fold";
-      
-      const logMsg = `${player.name} folds`;
-      
-      const updatedState = {
-        ...gameState, 
-        players: newPlayers,
-        roundLog: [...gameState.roundLog, logMsg]
-      };
-      
-      setGameState(updatedState);
-      setTimeout(() => clearActionBubble(player.id), 3000);
-      
-      // Proceed
       setGameState(prev => prev ? GameEngine.nextTurn(prev) : null);
-
-    } else if (decision.action === 'CHECK') {
-       const newState = GameEngine.processPlayerAction(gameState, player, 0, "Checks");
-       setGameState(newState);
-       setTimeout(() => clearActionBubble(player.id), 3000);
-       setTimeout(() => setGameState(prev => prev ? GameEngine.nextTurn(prev) : null), 50);
-
-    } else if (decision.action === 'CALL') {
-       const toCall = gameState.currentBet - player.currentBet;
-       const newState = GameEngine.processPlayerAction(gameState, player, toCall, "Calls");
-       setGameState(newState);
-       setTimeout(() => clearActionBubble(player.id), 3000);
-       setTimeout(() => setGameState(prev => prev ? GameEngine.nextTurn(prev) : null), 50);
-
-    } else if (decision.action === 'RAISE') {
-       const toCall = gameState.currentBet - player.currentBet;
-       const raiseAmt = decision.amount || gameState.minBet;
-       const newState = GameEngine.processPlayerAction(gameState, player, toCall + raiseAmt, "Raises to", player.currentBet + toCall + raiseAmt);
-       setGameState(newState);
-       setTimeout(() => clearActionBubble(player.id), 3000);
-       setTimeout(() => setGameState(prev => prev ? GameEngine.nextTurn(prev) : null), 50);
+    } else {
+      setTimeout(() => setGameState(prev => prev ? GameEngine.nextTurn(prev) : null), 50);
     }
   };
 
@@ -407,42 +526,21 @@ const App: React.FC = () => {
     });
   };
 
-  const handleHumanAction = (action: 'FOLD' | 'CHECK' | 'CALL' | 'RAISE', raiseAmt?: number) => {
-    if (!gameState) return;
-    const player = gameState.players[gameState.currentPlayerIndex];
-    const toCall = gameState.currentBet - player.currentBet;
+  const handleHumanAction = (action: PlayerAction) => {
+    const you = gameState?.players.find(p => p.isHuman);
+    if (!gameState || !you) return;
+    const newState = GameEngine.applyAction(gameState, you.id, action);
+    if (isActionError(newState)) {
+      setActionError(newState.message);
+      return;
+    }
 
-    if (action === 'FOLD') {
-      const newPlayers = [...gameState.players];
-      newPlayers[gameState.currentPlayerIndex].isActive = false;
-      newPlayers[gameState.currentPlayerIndex].actionMessage = "Fold";
-      
-      const updatedState = {
-        ...gameState, 
-        players: newPlayers,
-        roundLog: [...gameState.roundLog, "You Fold"]
-      };
-      setGameState(updatedState);
-      setTimeout(() => clearActionBubble(player.id), 3000);
+    setActionError(null);
+    setGameState(newState);
+    setTimeout(() => clearActionBubble(you.id), 3000);
+    if (action.type === 'FOLD') {
       setGameState(prev => prev ? GameEngine.nextTurn(prev) : null);
-
-    } else if (action === 'CHECK') {
-      const newState = GameEngine.processPlayerAction(gameState, player, 0, "Checks");
-      setGameState(newState);
-      setTimeout(() => clearActionBubble(player.id), 3000);
-      setTimeout(() => setGameState(prev => prev ? GameEngine.nextTurn(prev) : null), 50);
-
-    } else if (action === 'CALL') {
-      const newState = GameEngine.processPlayerAction(gameState, player, toCall, "Calls");
-      setGameState(newState);
-      setTimeout(() => clearActionBubble(player.id), 3000);
-      setTimeout(() => setGameState(prev => prev ? GameEngine.nextTurn(prev) : null), 50);
-
-    } else if (action === 'RAISE') {
-      const amountToBet = raiseAmt || 0;
-      const newState = GameEngine.processPlayerAction(gameState, player, amountToBet, "Raises to", player.currentBet + amountToBet);
-      setGameState(newState);
-      setTimeout(() => clearActionBubble(player.id), 3000);
+    } else {
       setTimeout(() => setGameState(prev => prev ? GameEngine.nextTurn(prev) : null), 50);
     }
   };
@@ -451,46 +549,108 @@ const App: React.FC = () => {
     if (!gameState) return;
     setIsLoadingAdvice(true);
     const player = gameState.players.find(p => p.isHuman)!;
-    const advice = await getPokerAdvice(
-      player.hand,
-      gameState.communityCards,
-      gameState.pot,
-      gameState.currentBet - player.currentBet,
-      player.chips,
-      gameState.phase,
-      gameState.players
-    );
+    const request = buildCoachRequest(gameState, player);
+    const advice = settings.preferLocalCoach ? getLocalAdvice(request) : await getPokerAdvice(request, getProvider(settings));
     setCoachAdvice(advice);
     setIsLoadingAdvice(false);
   };
   
+  // Reviews are stored on the history entry, so reopening one is free
+  const openReview = async (entry: HandHistoryEntry) => {
+    setReviewEntryId(entry.id);
+    if (entry.review) return;
+
+    setReviewingId(entry.id);
+    const review = settings.preferLocalCoach ? reviewHandLocally(entry) : await reviewHand(entry, getProvider(settings));
+    setGameState(prev => prev ? { ...prev, handHistory: prev.handHistory.map(h => h.id === entry.id ? { ...h, review } : h) } : null);
+    setReviewingId(null);
+  };
+
+  const updateSettings = (changes: Partial<AppSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveSettings(next);
+  };
+
   useEffect(() => {
-     if(gameState?.phase === GamePhase.RIVER) {
-        generateOpponentBanter("River card dealt").then(setBanter);
+     if(gameState?.phase === GamePhase.RIVER && !settings.preferLocalCoach) {
+        generateOpponentBanter("River card dealt", getProvider(settings)).then(setBanter);
      }
   }, [gameState?.phase]);
 
-  // --- Calculations for HUD ---
+  // Ticks the HUD countdown when tournament levels run on the clock
+  const [clockNow, setClockNow] = useState(Date.now);
+  const clockRunning = gameState?.tournament?.structure.levelBy === 'minutes' && !gameState.tournament.isComplete;
+  useEffect(() => {
+    if (!clockRunning) return;
+    const intervalId = setInterval(() => setClockNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [clockRunning]);
+
+  const coachError = coachAdvice && isCoachError(coachAdvice) ? coachAdvice : null;
+  const shownAdvice = coachError ? coachError.fallback : coachAdvice as CoachAdvice | null;
+
+  const loadOtherRuns = useCallback(() => loadSavedHistories(saveSlot?.slotId), [saveSlot]);
+  const loadOtherRunHistories = useCallback(() => loadSavedRunHistories(saveSlot?.slotId), [saveSlot]);
   const human = gameState?.players.find(p => p.isHuman);
+  // Past hands as the human saw them: their own cards plus whatever was shown
+  const history = useMemo(() => projectHistoryFor(gameState?.handHistory || [], human?.id ?? null), [gameState?.handHistory, human?.id]);
+  const lastHand = history[history.length - 1];
+
+  // Seat HUDs read opponents across every saved run, not just this one
+  const otherRunHands = useMemo(loadOtherRuns, [loadOtherRuns]);
+  const hudStats = useMemo(
+    () => computeStats([...otherRunHands, ...history].filter(h => h.source !== 'imported')),
+    [otherRunHands, history]
+  );
+  const handleSaveNote = useCallback((name: string, note: PlayerNote | null) => setPlayerNotes(savePlayerNote(name, note)), []);
+
+  // --- Calculations for HUD ---
+  // What the table UI may see: opponents' cards stay out of the components until they're shown
+  const tableView = useMemo(() => gameState && projectStateFor(gameState, human?.id ?? null), [gameState, human?.id]);
+  const tableHuman = tableView?.players.find(p => p.isHuman);
   const humanHandDesc = human && gameState ? evaluateHand(human.hand, gameState.communityCards).description : "";
   const handGrade = (human && gameState?.phase === GamePhase.PRE_FLOP) ? gradeStartingHand(human.hand) : undefined;
   
+  // Equity only changes when the cards or the field do, so recompute once per street/fold
+  const opponentCount = gameState ? gameState.players.filter(p => !p.isHuman && p.isActive).length : 0;
+  const humanCardKey = human?.hand.map(c => c.id).join() || '';
+  const boardKey = gameState?.communityCards.map(c => c.id).join() || '';
+  const humanEquity = useMemo(() => {
+    if (!gameState || !human || human.hand.length !== 2 || !human.isActive || opponentCount === 0) return null;
+    const rng = createRng(deriveSeed(gameState.seed ?? 0, gameState.communityCards.length, opponentCount));
+    return calculateEquity(human.hand, gameState.communityCards, Array(opponentCount).fill(null), { rng });
+  }, [humanCardKey, boardKey, opponentCount]);
+
   let potOdds = null;
   let spr = "-";
+  let callEv: '+EV' | '-EV' | undefined;
 
   if (gameState && human) {
-    const toCall = gameState.currentBet - human.currentBet;
+    const toCall = Math.min(gameState.currentBet - human.currentBet, human.chips);
     if (toCall > 0) {
       const ratio = (gameState.pot / toCall).toFixed(1);
       potOdds = `${ratio} : 1`;
+      if (humanEquity) callEv = humanEquity.equity >= requiredEquity(gameState.pot, toCall) ? '+EV' : '-EV';
     }
     if (gameState.pot > 0) {
       spr = (human.chips / gameState.pot).toFixed(1);
     }
   }
+  const equityText = humanEquity ? formatEquity(humanEquity.equity) : null;
+
+  const tournament = gameState?.tournament;
+  const nextLevelIn = tournament && gameState ? describeTimeToNextLevel(tournament, gameState.handCount, clockNow) : null;
+  const humanFinish = tournament && human ? getFinish(tournament, human.id) : undefined;
+  const cashGame = gameState?.cashGame;
+  const humanLedger = cashGame && human ? cashGame.ledger.find(e => e.playerId === human.id) : undefined;
 
   // --- Render ---
 
+  if (lanSession) {
+    return <LanTable serverUrl={lanSession.url} name={lanSession.name} onExit={() => setLanSession(null)} />;
+  }
+
   if (!gameStarted) {
      return (
        <div className="min-h-screen flex flex-col items-center justify-center bg-slate-950 text-white p-4 overflow-hidden relative">
@@ -501,13 +661,82 @@ const App: React.FC = () => {
          <p className="text-xl text-slate-400 mb-8 max-w-md text-center font-mono">
            The Roguelite Poker Trainer.
          </p>
+         {saves.length > 0 && (
+           <button 
+             onClick={() => resumeGame(saves[0].slotId)}
+             className="mb-4 px-10 py-3 bg-gradient-to-r from-indigo-600 to-indigo-800 rounded-lg font-black text-xl hover:scale-105 transition-all border-2 border-indigo-400 uppercase tracking-widest"
+           >
+             Continue Run
+           </button>
+         )}
+         <input 
+           value={newRunName}
+           onChange={(e) => setNewRunName(e.target.value)}
+           placeholder="Name this run (optional)"
+           className="mb-4 w-72 px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-center font-mono text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-emerald-500"
+         />
          <button 
-           onClick={initGame}
+           onClick={() => initGame(createSeed(), newRunName.trim() || undefined)}
            className="px-10 py-5 bg-gradient-to-r from-emerald-600 to-emerald-800 rounded-lg font-black text-2xl hover:scale-105 transition-all shadow-[0_0_30px_rgba(16,185,129,0.4)] border-2 border-emerald-400 uppercase tracking-widest"
          >
            START RUN
          </button>
+         <button 
+           onClick={() => initGame(createSeed(), newRunName.trim() || `Tournament ${new Date().toLocaleString()}`, 'tournament')}
+           className="mt-4 px-8 py-3 bg-gradient-to-r from-yellow-600 to-yellow-800 rounded-lg font-black text-lg hover:scale-105 transition-all border-2 border-yellow-400 uppercase tracking-widest"
+         >
+           Start Tournament
+         </button>
+         <button 
+           onClick={() => initGame(createSeed(), newRunName.trim() || `League Final ${new Date().toLocaleString()}`, 'league-final')}
+           className="mt-4 px-8 py-3 bg-gradient-to-r from-orange-600 to-orange-800 rounded-lg font-black text-lg hover:scale-105 transition-all border-2 border-orange-400 uppercase tracking-widest"
+         >
+           League Final ({MTT_ENTRANTS} players)
+         </button>
+         <button 
+           onClick={() => initGame(createSeed(), newRunName.trim() || `Cash Game ${new Date().toLocaleString()}`, 'cash')}
+           className="mt-4 px-8 py-3 bg-gradient-to-r from-teal-600 to-teal-800 rounded-lg font-black text-lg hover:scale-105 transition-all border-2 border-teal-400 uppercase tracking-widest"
+         >
+           Cash Game
+         </button>
+         <button 
+           onClick={() => initGame(getDailySeed(), newRunName.trim() || `Daily Seed ${new Date().toISOString().slice(0, 10)}`)}
+           className="mt-4 px-6 py-2 bg-slate-900 rounded-lg font-bold text-sm text-yellow-400 hover:bg-slate-800 transition-all border border-yellow-600/60 uppercase tracking-widest"
+         >
+           Daily Seed
+         </button>
          <p className="mt-4 text-slate-600 text-sm font-mono">Buy-in: $40 (1000 Chips)</p>
+         <div className="mt-4 flex items-center gap-2 font-mono text-xs">
+           <input 
+             value={lanUrl}
+             onChange={(e) => setLanUrl(e.target.value)}
+             className="w-56 px-3 py-1.5 bg-slate-900 border border-slate-700 rounded text-slate-300 focus:outline-none focus:border-sky-500"
+             title="LAN table server (npm run server)"
+           />
+           <input 
+             value={lanName}
+             onChange={(e) => setLanName(e.target.value)}
+             placeholder="Your name"
+             className="w-28 px-3 py-1.5 bg-slate-900 border border-slate-700 rounded text-slate-300 placeholder-slate-600 focus:outline-none focus:border-sky-500"
+           />
+           <button 
+             onClick={() => setLanSession({ url: lanUrl.trim(), name: lanName.trim() })}
+             disabled={!lanName.trim()}
+             className="px-3 py-1.5 bg-sky-800 hover:bg-sky-700 disabled:opacity-40 rounded font-bold uppercase tracking-wider text-sky-100"
+           >
+             Join LAN Table
+           </button>
+           <button 
+             onClick={() => setLanSession({ url: lanUrl.trim(), name: null })}
+             className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded font-bold uppercase tracking-wider text-slate-300"
+           >
+             Watch
+           </button>
+         </div>
+         <CoachSettings settings={settings} onChange={updateSettings} />
+         <TournamentSettings structure={settings.tournament} onChange={(structure) => updateSettings({ tournament: structure })} />
+         <CashGameSettings rules={settings.cashGame} onChange={(rules) => updateSettings({ cashGame: rules })} />
+         <SaveSlots saves={saves} onLoad={resumeGame} onDelete={removeSave} />
        </div>
      );
   }
@@ -515,9 +744,40 @@ const App: React.FC = () => {
   if (gameState?.phase === GamePhase.GAME_OVER) {
     return ( // Game Over Screen
       <div className="min-h-screen flex flex-col items-center justify-center bg-black text-white p-4 animate-deal">
-        <h1 className="text-7xl font-black mb-2 text-red-600 font-poker tracking-widest">BUSTED</h1>
+        {cashGame
+          ? <h1 className="text-7xl font-black mb-2 text-teal-400 font-poker tracking-widest">CASHED OUT</h1>
+          : humanFinish?.place === 1
+          ? <h1 className="text-7xl font-black mb-2 text-yellow-400 font-poker tracking-widest">CHAMPION</h1>
+          : <h1 className="text-7xl font-black mb-2 text-red-600 font-poker tracking-widest">BUSTED</h1>}
+        {cashGame && humanLedger && (
+          <div className="mb-6 text-center font-mono">
+            <div className="text-xl text-slate-300 mb-3">
+              Bought in {humanLedger.boughtIn}, left with {humanLedger.cashedOut}
+              <span className={humanLedger.cashedOut >= humanLedger.boughtIn ? 'text-emerald-400 font-bold' : 'text-red-400 font-bold'}>
+                {' '}· {humanLedger.cashedOut >= humanLedger.boughtIn ? '+' : ''}{humanLedger.cashedOut - humanLedger.boughtIn}
+              </span>
+            </div>
+            <div className="text-xs text-slate-500">{gameState?.handCount} hands · {cashGame.ledger.length} players sat in</div>
+          </div>
+        )}
+        {tournament && humanFinish && (
+          <div className="mb-6 text-center font-mono">
+            <div className="text-xl text-slate-300 mb-3">
+              Finished {formatPlace(humanFinish.place)} of {tournament.entrants}
+              {humanFinish.prize > 0 && <span className="text-emerald-400 font-bold"> · won ${humanFinish.prize}</span>}
+            </div>
+            <div className="text-xs text-slate-500 space-y-0.5">
+              {/* Big fields list the final table and the human's own finish */}
+              {[...tournament.eliminations].sort((a, b) => a.place - b.place).filter(e => e.place <= MTT_TABLE_SIZE || e.playerId === human?.id).map(e => (
+                <div key={e.playerId} className={e.playerId === human?.id ? 'text-white' : ''}>
+                  {formatPlace(e.place)} {e.name}{e.prize > 0 && ` - $${e.prize}`} <span className="text-slate-700">(hand #{e.handNumber})</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
         <button 
-          onClick={initGame}
+          onClick={() => initGame(createSeed(), undefined, gameState ? getGameMode(gameState) : 'run')}
           className="px-8 py-4 bg-slate-800 border border-slate-600 rounded-lg font-bold text-xl hover:bg-slate-700 transition-all uppercase"
         >
           Try Again
@@ -553,7 +813,23 @@ const App: React.FC = () => {
           <div className="text-3xl font-black font-mono text-yellow-400 flex items-center gap-2 drop-shadow-md">
             <Coins className="text-yellow-500 fill-yellow-500" /> {gameState?.pot}
           </div>
-          <div className="text-xs text-slate-500 mt-1 font-mono">Blinds: {SMALL_BLIND}/{BIG_BLIND}</div>
+          <div className="text-xs text-slate-500 mt-1 font-mono">Blinds: {formatBlinds(gameState?.blinds || CASH_BLINDS)}</div>
+          {tournament && (
+            <div className="text-[10px] text-yellow-600 font-mono">
+              Level {tournament.level + 1}
+              {nextLevelIn && <> · next in {nextLevelIn}</>}
+              {' '}· {tournament.entrants - tournament.eliminations.length}/{tournament.entrants} left
+            </div>
+          )}
+          {gameState?.multiTable && (
+            <button 
+              onClick={() => setShowTables(true)}
+              className="mt-1 flex items-center gap-1 text-[10px] font-bold uppercase text-slate-400 hover:text-yellow-400"
+            >
+              <LayoutGrid size={12} /> Table {gameState.multiTable.tableId} · {gameState.multiTable.otherTables.length + 1} tables
+            </button>
+          )}
+          {tableView?.phase === GamePhase.SHOWDOWN && lastHand?.seed !== undefined && <div className="text-[10px] text-slate-600 font-mono">Seed: {lastHand.seed}</div>}
         </div>
         
         {/* Coach Advice */}
@@ -561,18 +837,31 @@ const App: React.FC = () => {
           <div className="max-w-xs bg-indigo-950/90 border-2 border-indigo-500 p-4 rounded-xl shadow-[0_0_30px_rgba(99,102,241,0.3)] backdrop-blur-md pointer-events-auto animate-deal">
              <div className="flex items-center gap-2 mb-2 text-indigo-300 font-bold uppercase text-xs tracking-wider">
                <Brain size={16} /> AI Coach
+               {!isLoadingAdvice && shownAdvice?.source === 'local' && (
+                 <span className="ml-auto text-[10px] px-1.5 py-0.5 rounded bg-indigo-900 text-indigo-300 normal-case tracking-normal">Offline</span>
+               )}
              </div>
              {isLoadingAdvice ? (
                <div className="text-indigo-200">Analyzing...</div>
              ) : (
                <>
-                 <div className="font-black text-white text-xl mb-1 uppercase italic">{coachAdvice?.action}</div>
+                 {coachError && (
+                   <div className="mb-2 p-2 rounded-lg bg-red-950/80 border border-red-700 text-[11px] text-red-200 leading-snug">
+                     <div className="flex items-center gap-1 font-bold uppercase text-red-300"><AlertTriangle size={12} /> Coach answer unusable</div>
+                     {coachError.message}
+                     <div className="mt-1 text-red-300/80">Showing the offline coach instead.</div>
+                   </div>
+                 )}
+                 <div className="font-black text-white text-xl mb-1 uppercase italic">
+                   {shownAdvice?.action}
+                   {shownAdvice?.raiseAmount !== undefined && <span className="ml-2 text-base text-yellow-300 not-italic">+{shownAdvice.raiseAmount}</span>}
+                 </div>
                  <div className="text-sm text-slate-200 leading-snug mb-3 font-medium">
-                   <SmartText text={coachAdvice?.reasoning || ""} />
+                   <SmartText text={shownAdvice?.reasoning || ""} />
                  </div>
                  <div className="flex gap-4 text-xs font-mono text-indigo-200 border-t border-indigo-800 pt-2">
-                    <span className="flex items-center gap-1"><Zap size={10}/> Win: {coachAdvice?.winProbability}</span>
-                    {humanPerks.includes('odds_calc') && <span>Odds: {coachAdvice?.potOdds || 'N/A'}</span>}
+                    <span className="flex items-center gap-1"><Zap size={10}/> Win: {shownAdvice?.winProbability}</span>
+                    {humanPerks.includes('odds_calc') && <span>Odds: {potOdds || 'N/A'} · Equity: {equityText || 'N/A'}{callEv && ` (${callEv})`}</span>}
                  </div>
                </>
              )}
@@ -581,10 +870,10 @@ const App: React.FC = () => {
       </div>
 
       {/* Poker Table Component */}
-      {gameState && <PokerTable gameState={gameState} human={human} />}
+      {tableView && <PokerTable gameState={tableView} human={tableHuman} stats={hudStats} notes={playerNotes} onSaveNote={handleSaveNote} />}
 
       {/* Human Stats HUD (Floating) */}
-      {gameState && human && gameState.phase !== GamePhase.SHOWDOWN && gameState.phase !== GamePhase.GAME_OVER && (
+      {gameState && human && gameState.phase !== GamePhase.SHOWDOWN && (
          <DraggableWindow 
             title="Stats" 
             icon={<Activity size={14} />} 
@@ -594,6 +883,8 @@ const App: React.FC = () => {
                 handDesc={humanHandDesc}
                 potOdds={potOdds}
                 spr={spr}
+                equity={equityText}
+                callEv={callEv}
                 handGrade={handGrade}
              />
          </DraggableWindow>
@@ -607,15 +898,79 @@ const App: React.FC = () => {
             </DraggableWindow>
 
             <DraggableWindow title="Chip Count" icon={<ListOrdered size={14} />} initialPosition={{x: window.innerWidth - 220, y: 100}}>
-                <ChipLeaderboard players={gameState.players} />
+                <ChipLeaderboard players={tableView!.players} />
+                <button 
+                  onClick={() => setShowStats(true)}
+                  className="w-full flex items-center justify-center gap-1 py-1.5 text-[10px] font-bold uppercase text-slate-400 hover:text-yellow-400 bg-slate-800/60 hover:bg-slate-800 border-t border-slate-700"
+                >
+                  <BarChart3 size={12} /> Player Stats
+                </button>
+                <button 
+                  onClick={() => setShowBankroll(true)}
+                  className="w-full flex items-center justify-center gap-1 py-1.5 text-[10px] font-bold uppercase text-slate-400 hover:text-yellow-400 bg-slate-800/60 hover:bg-slate-800 border-t border-slate-700"
+                >
+                  <LineChart size={12} /> Bankroll
+                </button>
             </DraggableWindow>
 
+            {cashGame && (
+              <DraggableWindow title="Ledger" icon={<Banknote size={14} />} initialPosition={{x: window.innerWidth - 320, y: 420}}>
+                <TableLedger 
+                  cashGame={cashGame}
+                  players={tableView!.players}
+                  canManageChips={gameState.phase === GamePhase.SHOWDOWN}
+                  onAddChips={handleAddChips}
+                  onLeave={handleLeaveTable}
+                />
+              </DraggableWindow>
+            )}
+
              <DraggableWindow title="History" icon={<History size={14} />} initialPosition={{x: 20, y: 350}}>
-                <HandHistory history={gameState.handHistory || []} />
+                <HandHistory 
+                  history={history} 
+                  onReplay={setReplayEntry}
+                  onImport={(entries) => setGameState(prev => prev ? { ...prev, handHistory: [...prev.handHistory, ...entries] } : null)}
+                  onReview={openReview}
+                  reviewingId={reviewingId}
+                />
             </DraggableWindow>
+
+            {reviewEntryId && (
+              <DraggableWindow title="Hand Review" icon={<GraduationCap size={14} />} initialPosition={{x: 360, y: 350}}>
+                <HandReviewPanel 
+                  entry={history.find(h => h.id === reviewEntryId) || null}
+                  isLoading={reviewingId === reviewEntryId}
+                  onClose={() => setReviewEntryId(null)}
+                />
+              </DraggableWindow>
+            )}
          </>
       )}
 
+      {/* Hand Replayer */}
+      {replayEntry && <HandReplayer entry={replayEntry} onClose={() => setReplayEntry(null)} />}
+
+      {showStats && gameState && (
+        <StatsDashboard 
+          sessionHistory={history}
+          loadOtherRuns={loadOtherRuns}
+          onClose={() => setShowStats(false)}
+        />
+      )}
+
+      {showTables && gameState?.multiTable && (
+        <TableOverview gameState={tableView!} onClose={() => setShowTables(false)} />
+      )}
+
+      {showBankroll && gameState && (
+        <BankrollChart 
+          sessionName={saveSlot?.name || 'This run'}
+          sessionHistory={history}
+          loadOtherRuns={loadOtherRunHistories}
+          onClose={() => setShowBankroll(false)}
+        />
+      )}
+
       {/* Banter */}
       {banter && (
         <div className="absolute top-1/3 right-1/4 bg-white text-black p-3 rounded-2xl rounded-bl-none text-sm font-bold animate-float shadow-xl max-w-[150px] border-2 border-black z-20 transform rotate-2">
@@ -624,14 +979,18 @@ const App: React.FC = () => {
       )}
 
       {/* Controls */}
-      {gameState && human && (
+      {tableView && tableHuman && (
         <GameControls 
-            gameState={gameState} 
-            human={human}
+            gameState={tableView} 
+            human={tableHuman}
             onAction={handleHumanAction}
             onNextHand={startNewHand}
+            nextHandBlockedReason={cashGame && human.chips <= 0 ? 'Rebuy from the Ledger or leave the table' : undefined}
             onCoach={getCoachHelp}
             isLoadingAdvice={isLoadingAdvice}
+            onReviewHand={lastHand && canReplay(lastHand) ? () => openReview(lastHand) : undefined}
+            onShowCards={handleShowCards}
+            actionError={actionError || undefined}
         />
       )}
     </div>
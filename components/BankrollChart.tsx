@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HandHistoryEntry } from '../types';
+import { BankrollRun, getHeroResults, buildBankrollLine, getBbPer100 } from '../utils/bankroll';
+import { LineChart, X } from 'lucide-react';
+
+interface BankrollChartProps {
+  sessionName: string;
+  sessionHistory: HandHistoryEntry[];
+  loadOtherRuns: () => BankrollRun[]; // Saved runs other than this one, oldest first
+  onClose: () => void;
+}
+
+type Scope = 'session' | 'all';
+
+const POSITIONS = ['BTN', 'SB', 'BB', 'UTG', 'MP', 'CO'];
+const GRADES = ['S', 'A', 'B', 'C', 'D', 'F'];
+
+const WIDTH = 720;
+const HEIGHT = 240;
+const PAD = 8;
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+const BankrollChart: React.FC<BankrollChartProps> = ({ sessionName, sessionHistory, loadOtherRuns, onClose }) => {
+  const [scope, setScope] = useState<Scope>('session');
+  const [otherRuns, setOtherRuns] = useState<BankrollRun[] | null>(null);
+  const [position, setPosition] = useState('');
+  const [grade, setGrade] = useState('');
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (scope === 'all' && !otherRuns) setOtherRuns(loadOtherRuns());
+  }, [scope, otherRuns, loadOtherRuns]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  // All-in EV runs equity per all-in hand, so it is worked out once per scope, not per filter change
+  const hands = useMemo(() => {
+    const session = { name: sessionName, history: sessionHistory };
+    const runs = scope === 'all' ? [...(otherRuns || []), session] : [session];
+    return getHeroResults(runs.map(run => ({ ...run, history: run.history.filter(h => h.source !== 'imported') })));
+  }, [scope, otherRuns, sessionName, sessionHistory]);
+
+  const points = useMemo(() => buildBankrollLine(hands, { position, grade }), [hands, position, grade]);
+  const last = points[points.length - 1];
+  const allInCount = points.filter(p => p.isAllIn).length;
+
+  const values = points.flatMap(p => [p.cumulative, p.cumulativeEv]);
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const x = (i: number) => PAD + (points.length > 1 ? i / (points.length - 1) : 0.5) * (WIDTH - PAD * 2);
+  const y = (v: number) => PAD + (max === min ? 0.5 : (max - v) / (max - min)) * (HEIGHT - PAD * 2);
+  const line = (key: 'cumulative' | 'cumulativeEv') => points.map(p => `${x(p.index)},${y(p[key])}`).join(' ');
+  const runStarts = points.filter((p, i) => i > 0 && p.run !== points[i - 1].run);
+
+  const hovered = hoverIndex !== null ? points[hoverIndex] : undefined;
+  const onMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (points.length === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = (e.clientX - rect.left) / rect.width;
+    setHoverIndex(Math.max(0, Math.min(points.length - 1, Math.round(fraction * (points.length - 1)))));
+  };
+
+  const select = (value: string, onChange: (v: string) => void, options: string[], label: string) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-300"
+    >
+      <option value="">All {label}</option>
+      {options.map(o => <option key={o} value={o}>{o}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/85 backdrop-blur-sm flex items-center justify-center animate-deal" onClick={onClose}>
+      <div className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-4 max-w-4xl w-full mx-4 font-mono text-xs" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-3 mb-3">
+          <LineChart size={16} className="text-yellow-400" />
+          <span className="text-yellow-400 font-bold uppercase tracking-wider text-sm">Bankroll</span>
+          <div className="flex rounded-lg overflow-hidden border border-slate-700 ml-4">
+            {(['session', 'all'] as Scope[]).map(s => (
+              <button
+                key={s}
+                onClick={() => setScope(s)}
+                className={`px-3 py-1 ${scope === s ? 'bg-slate-700 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+              >
+                {s === 'session' ? 'This Run' : 'All Saved Runs'}
+              </button>
+            ))}
+          </div>
+          {select(position, setPosition, POSITIONS, 'positions')}
+          {select(grade, setGrade, GRADES, 'grades')}
+          <button onClick={onClose} className="ml-auto text-slate-400 hover:text-white p-1 hover:bg-slate-700 rounded" title="Close bankroll">
+            <X size={16} />
+          </button>
+        </div>
+
+        {points.length === 0 ? (
+          <div className="text-slate-500 italic text-center p-8">No hands match yet.</div>
+        ) : (
+          <>
+            <div className="flex gap-6 mb-2 text-slate-400">
+              <span>Hands <span className="text-white">{points.length}</span></span>
+              <span>Net <span className={last.cumulative >= 0 ? 'text-emerald-400' : 'text-red-400'}>{signed(last.cumulative)}</span></span>
+              <span>All-in EV <span className="text-yellow-400">{signed(last.cumulativeEv)}</span></span>
+              <span>bb/100 <span className="text-white">{getBbPer100(points).toFixed(1)}</span></span>
+              <span>All-ins <span className="text-white">{allInCount}</span></span>
+            </div>
+
+            <svg
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              className="w-full bg-slate-950/60 rounded border border-slate-800"
+              onMouseMove={onMove}
+              onMouseLeave={() => setHoverIndex(null)}
+            >
+              <line x1={PAD} x2={WIDTH - PAD} y1={y(0)} y2={y(0)} stroke="#475569" strokeDasharray="4 4" />
+              {runStarts.map(p => (
+                <line key={p.index} x1={x(p.index)} x2={x(p.index)} y1={PAD} y2={HEIGHT - PAD} stroke="#334155" />
+              ))}
+              <polyline points={line('cumulativeEv')} fill="none" stroke="#facc15" strokeWidth={1.5} strokeDasharray="5 3" />
+              <polyline points={line('cumulative')} fill="none" stroke="#34d399" strokeWidth={2} />
+              {hovered && (
+                <>
+                  <line x1={x(hovered.index)} x2={x(hovered.index)} y1={PAD} y2={HEIGHT - PAD} stroke="#94a3b8" strokeWidth={0.5} />
+                  <circle cx={x(hovered.index)} cy={y(hovered.cumulative)} r={3} fill="#34d399" />
+                </>
+              )}
+            </svg>
+
+            <div className="flex justify-between mt-2 text-[10px] text-slate-500 min-h-[14px]">
+              <span>
+                <span className="text-emerald-400">━</span> Net won
+                <span className="text-yellow-400 ml-3">┅</span> All-in EV (all-in pots paid by equity)
+              </span>
+              {hovered && (
+                <span className="text-slate-300">
+                  {hovered.run} · Hand #{hovered.handNumber} · {hovered.position || '?'} · Grade {hovered.grade} ·
+                  <span className={hovered.net >= 0 ? ' text-emerald-400' : ' text-red-400'}> {signed(hovered.net)}</span>
+                  {hovered.isAllIn && <span className="text-yellow-400"> (EV {signed(hovered.evNet)})</span>}
+                  {' '}· Stack {hovered.stackAfter}
+                </span>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BankrollChart;
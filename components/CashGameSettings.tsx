@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { CashGameRules } from '../types';
+import { DEFAULT_CASH_RULES, CASH_BLINDS } from '../constants';
+import { Banknote, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface CashGameSettingsProps {
+  rules: CashGameRules;
+  onChange: (rules: CashGameRules) => void;
+}
+
+const inputClass = "w-full px-2 py-1 bg-slate-950 border border-slate-700 rounded text-slate-200 focus:outline-none focus:border-emerald-500";
+
+const CashGameSettings: React.FC<CashGameSettingsProps> = ({ rules, onChange }) => {
+  const [open, setOpen] = useState(false);
+
+  // The max never drops below the min, so a range always exists
+  const setMin = (value: number) => {
+    const minBuyIn = Math.max(CASH_BLINDS.bigBlind, value || 0);
+    onChange({ ...rules, minBuyIn, maxBuyIn: Math.max(rules.maxBuyIn, minBuyIn) });
+  };
+  const setMax = (value: number) => onChange({ ...rules, maxBuyIn: Math.max(rules.minBuyIn, value || 0) });
+  const setChance = (key: 'botRebuyChance' | 'botLeaveChance', percent: number) =>
+    onChange({ ...rules, [key]: Math.min(100, Math.max(0, percent || 0)) / 100 });
+
+  return (
+    <div className="mt-4 w-full max-w-md bg-slate-900/80 border border-slate-700 rounded-xl p-3 font-mono text-xs">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 text-slate-400 font-bold uppercase tracking-wider"
+      >
+        <Banknote size={12} /> Cash Game Table
+        <span className="ml-auto">{open ? <ChevronUp size={12} /> : <ChevronDown size={12} />}</span>
+      </button>
+
+      {open && (
+        <div className="mt-3 flex flex-col gap-2 text-slate-400">
+          <div className="flex gap-2">
+            <label className="flex-1">
+              Min buy-in
+              <input type="number" min={CASH_BLINDS.bigBlind} value={rules.minBuyIn} onChange={(e) => setMin(Number(e.target.value))} className={inputClass} />
+            </label>
+            <label className="flex-1">
+              Max buy-in
+              <input type="number" min={rules.minBuyIn} value={rules.maxBuyIn} onChange={(e) => setMax(Number(e.target.value))} className={inputClass} />
+            </label>
+          </div>
+
+          <div className="flex gap-2">
+            <label className="flex-1">
+              Busted bots rebuy (%)
+              <input type="number" min={0} max={100} value={Math.round(rules.botRebuyChance * 100)} onChange={(e) => setChance('botRebuyChance', Number(e.target.value))} className={inputClass} />
+            </label>
+            <label className="flex-1">
+              Bots leave per hand (%)
+              <input type="number" min={0} max={100} value={Math.round(rules.botLeaveChance * 100)} onChange={(e) => setChance('botLeaveChance', Number(e.target.value))} className={inputClass} />
+            </label>
+          </div>
+
+          <div className="flex justify-between items-center text-slate-500">
+            <span>{Math.round(rules.minBuyIn / CASH_BLINDS.bigBlind)}-{Math.round(rules.maxBuyIn / CASH_BLINDS.bigBlind)} big blinds</span>
+            <button onClick={() => onChange(DEFAULT_CASH_RULES)} className="hover:text-white">Reset to league default</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CashGameSettings;
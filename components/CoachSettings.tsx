@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { AppSettings } from '../services/settings';
+import { LlmProviderId, PROVIDER_LABELS } from '../services/llm';
+import { Settings, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface CoachSettingsProps {
+  settings: AppSettings;
+  onChange: (changes: Partial<AppSettings>) => void;
+}
+
+// Switching provider swaps in a model that provider actually serves
+const DEFAULT_MODELS: Record<LlmProviderId, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'llama3.1',
+  mock: 'mock'
+};
+
+const inputClass = "w-full px-2 py-1 bg-slate-950 border border-slate-700 rounded text-slate-200 focus:outline-none focus:border-indigo-500";
+
+const CoachSettings: React.FC<CoachSettingsProps> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const remote = !settings.preferLocalCoach;
+
+  return (
+    <div className="mt-4 w-full max-w-md bg-slate-900/80 border border-slate-700 rounded-xl p-3 font-mono text-xs">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 text-slate-400 font-bold uppercase tracking-wider"
+      >
+        <Settings size={12} /> Coach Settings
+        <span className="ml-auto">{open ? <ChevronUp size={12} /> : <ChevronDown size={12} />}</span>
+      </button>
+
+      {open && (
+        <div className="mt-3 flex flex-col gap-2 text-slate-400">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.preferLocalCoach}
+              onChange={(e) => onChange({ preferLocalCoach: e.target.checked })}
+              className="accent-indigo-500"
+            />
+            Always use the offline coach
+          </label>
+
+          {remote && (
+            <>
+              <label>
+                Provider
+                <select
+                  value={settings.coachProvider}
+                  onChange={(e) => {
+                    const provider = e.target.value as LlmProviderId;
+                    onChange({ coachProvider: provider, coachModel: DEFAULT_MODELS[provider] });
+                  }}
+                  className={inputClass}
+                >
+                  {(Object.keys(PROVIDER_LABELS) as LlmProviderId[]).map(id => (
+                    <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+                  ))}
+                </select>
+              </label>
+
+              {settings.coachProvider !== 'mock' && (
+                <label>
+                  Model
+                  <input value={settings.coachModel} onChange={(e) => onChange({ coachModel: e.target.value })} className={inputClass} />
+                </label>
+              )}
+
+              {settings.coachProvider === 'openai' && (
+                <label>
+                  Server URL
+                  <input value={settings.coachBaseUrl} onChange={(e) => onChange({ coachBaseUrl: e.target.value })} className={inputClass} />
+                </label>
+              )}
+
+              {settings.coachProvider !== 'mock' && (
+                <label>
+                  API Key <span className="text-slate-600">(optional)</span>
+                  <input
+                    type="password"
+                    value={settings.coachApiKey}
+                    onChange={(e) => onChange({ coachApiKey: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+              )}
+
+              <div className="flex gap-2">
+                <label className="flex-1">
+                  Timeout (s)
+                  <input
+                    type="number"
+                    min={1}
+                    value={settings.coachTimeoutMs / 1000}
+                    onChange={(e) => onChange({ coachTimeoutMs: Math.max(1, Number(e.target.value) || 1) * 1000 })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex-1">
+                  Temperature
+                  <input
+                    type="number"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={settings.coachTemperature}
+                    onChange={(e) => onChange({ coachTemperature: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CoachSettings;
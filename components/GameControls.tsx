@@ -1,49 +1,94 @@
 
 import React, { useState } from 'react';
-import { GameState, Player, GamePhase } from '../types';
-import { Brain, Check, X, TrendingUp } from 'lucide-react';
-import { BIG_BLIND, SMALL_BLIND } from '../constants';
+import { GameState, Player, GamePhase, PlayerAction } from '../types';
+import { Brain, Check, X, TrendingUp, GraduationCap, Eye } from 'lucide-react';
+import { CASH_BLINDS } from '../constants';
+import { getLegalActions, findRaise } from '../utils/betting';
 
 interface GameControlsProps {
   gameState: GameState;
   human: Player;
-  onAction: (action: 'FOLD' | 'CHECK' | 'CALL' | 'RAISE', amount?: number) => void;
+  onAction: (action: PlayerAction) => void;
   onNextHand: () => void;
-  onCoach: () => void;
+  nextHandBlockedReason?: string; // Disables NEXT HAND and says why (e.g. a busted cash-game stack)
+  onCoach?: () => void;      // No coach at the LAN table: the other seats are real people
   isLoadingAdvice: boolean;
+  onReviewHand?: () => void; // Offered at showdown when the hand can be reviewed
+  onShowCards?: (cardIds: string[]) => void; // Show a mucked or uncontested hand (one card or both)
+  actionError?: string;      // Why the engine refused the last action
 }
 
-const GameControls: React.FC<GameControlsProps> = ({ gameState, human, onAction, onNextHand, onCoach, isLoadingAdvice }) => {
+const GameControls: React.FC<GameControlsProps> = ({ gameState, human, onAction, onNextHand, nextHandBlockedReason, onCoach, isLoadingAdvice, onReviewHand, onShowCards, actionError }) => {
   const [showRaiseControl, setShowRaiseControl] = useState(false);
   const [raiseAmount, setRaiseAmount] = useState(0);
 
-  const isHumanTurn = gameState.players[gameState.currentPlayerIndex].isHuman && gameState.players[gameState.currentPlayerIndex].isActive;
+  const isHumanTurn = gameState.players[gameState.currentPlayerIndex].id === human.id;
   const toCall = gameState.currentBet - human.currentBet;
-  
-  // Raise Calculation
-  const minRaise = Math.max(gameState.minBet, BIG_BLIND); 
-  const minTotalBet = toCall + minRaise;
-  const maxBet = human.chips;
+
+  // Buttons come straight from the engine's legal actions; bet and raise amounts are "to" amounts
+  const legalActions = isHumanTurn ? getLegalActions(gameState) : [];
+  const canCheck = legalActions.some(a => a.type === 'CHECK');
+  const callAmount = legalActions.reduce((amount, a) => a.type === 'CALL' ? a.amount : amount, 0);
+  const raise = findRaise(legalActions);
+  const blinds = gameState.blinds || CASH_BLINDS;
+  const raiseTo = (amount: number) => raise ? Math.min(raise.max, Math.max(raise.min, Math.floor(amount))) : 0;
+  const potAfterCall = gameState.pot + toCall;
 
   const initiateRaise = () => {
-    setRaiseAmount(minTotalBet);
+    if (!raise) return;
+    setRaiseAmount(raise.min);
     setShowRaiseControl(true);
   };
 
   const confirmRaise = () => {
-    onAction('RAISE', raiseAmount);
+    if (raise) onAction({ type: raise.type, amount: raiseAmount });
     setShowRaiseControl(false);
   };
 
   if (gameState.phase === GamePhase.SHOWDOWN) {
+    // Cards still face down to the table; the human may show either one or both
+    const unshown = human.isActive ? human.hand.filter(c => !human.shownCards?.some(s => s.id === c.id)) : [];
     return (
        <div className="absolute bottom-0 w-full bg-slate-900/90 border-t border-slate-800 p-4 pb-8 flex justify-center items-center gap-4 backdrop-blur-xl z-30 transition-transform duration-300 shadow-[0_-10px_40px_rgba(0,0,0,0.5)]">
-           <button 
-             onClick={onNextHand} 
-             className="bg-blue-600 hover:bg-blue-500 text-white px-10 py-4 rounded-xl font-black text-xl flex items-center gap-3 shadow-[0_0_20px_rgba(37,99,235,0.6)] animate-pulse border-2 border-blue-400"
-           >
-             NEXT HAND <TrendingUp size={24} />
-           </button>
+           {nextHandBlockedReason ? (
+             <div className="text-slate-300 font-bold text-sm uppercase px-6 py-4 rounded-xl border-2 border-slate-600 bg-slate-800">
+               {nextHandBlockedReason}
+             </div>
+           ) : (
+             <button 
+               onClick={onNextHand} 
+               className="bg-blue-600 hover:bg-blue-500 text-white px-10 py-4 rounded-xl font-black text-xl flex items-center gap-3 shadow-[0_0_20px_rgba(37,99,235,0.6)] animate-pulse border-2 border-blue-400"
+             >
+               NEXT HAND <TrendingUp size={24} />
+             </button>
+           )}
+           {onShowCards && unshown.length > 0 && (
+             <div className="flex items-center gap-2">
+               {unshown.length > 1 && unshown.map(card => (
+                 <button 
+                   key={card.id}
+                   onClick={() => onShowCards([card.id])}
+                   className="bg-slate-800 hover:bg-slate-700 text-slate-200 px-4 py-4 rounded-xl font-bold text-sm border-2 border-slate-600 uppercase"
+                 >
+                   Show {card.id}
+                 </button>
+               ))}
+               <button 
+                 onClick={() => onShowCards(unshown.map(c => c.id))}
+                 className="bg-slate-800 hover:bg-slate-700 text-slate-200 px-4 py-4 rounded-xl font-bold text-sm flex items-center gap-2 border-2 border-slate-600 uppercase"
+               >
+                 <Eye size={18} /> {unshown.length > 1 ? 'Show both' : 'Show'}
+               </button>
+             </div>
+           )}
+           {onReviewHand && (
+             <button 
+               onClick={onReviewHand}
+               className="bg-indigo-800 hover:bg-indigo-700 text-indigo-100 px-6 py-4 rounded-xl font-bold text-sm flex items-center gap-2 border-2 border-indigo-500 uppercase"
+             >
+               <GraduationCap size={18} /> Review this hand
+             </button>
+           )}
        </div>
     );
   }
@@ -51,28 +96,28 @@ const GameControls: React.FC<GameControlsProps> = ({ gameState, human, onAction,
   return (
     <>
       {/* Raise Overlay */}
-      {showRaiseControl && (
+      {showRaiseControl && raise && (
         <div className="absolute bottom-32 left-1/2 -translate-x-1/2 bg-slate-900 border border-slate-700 p-4 rounded-xl shadow-2xl flex flex-col gap-4 w-80 animate-deal z-50">
           <div className="flex justify-between items-center text-sm font-bold text-slate-300">
-            <span>Raise Amount</span>
+            <span>{raise.type === 'BET' ? 'Bet' : 'Raise to'}</span>
             <span className="text-yellow-400 font-mono">${raiseAmount}</span>
           </div>
           
           <input 
             type="range" 
-            min={minTotalBet} 
-            max={maxBet} 
-            step={SMALL_BLIND}
+            min={raise.min} 
+            max={raise.max} 
+            step={blinds.smallBlind}
             value={raiseAmount}
             onChange={(e) => setRaiseAmount(Number(e.target.value))}
             className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
           />
 
           <div className="flex justify-between gap-2">
-            <button onClick={() => setRaiseAmount(Math.min(maxBet, minTotalBet * 2.5))} className="px-2 py-1 bg-slate-800 rounded text-xs text-slate-400 hover:bg-slate-700">2.5x</button>
-            <button onClick={() => setRaiseAmount(Math.min(maxBet, gameState.pot / 2))} className="px-2 py-1 bg-slate-800 rounded text-xs text-slate-400 hover:bg-slate-700">50% Pot</button>
-            <button onClick={() => setRaiseAmount(Math.min(maxBet, gameState.pot))} className="px-2 py-1 bg-slate-800 rounded text-xs text-slate-400 hover:bg-slate-700">Pot</button>
-            <button onClick={() => setRaiseAmount(maxBet)} className="px-2 py-1 bg-red-900/50 rounded text-xs text-red-400 hover:bg-red-900">MAX</button>
+            <button onClick={() => setRaiseAmount(raiseTo(Math.max(gameState.currentBet, blinds.bigBlind) * 2.5))} className="px-2 py-1 bg-slate-800 rounded text-xs text-slate-400 hover:bg-slate-700">2.5x</button>
+            <button onClick={() => setRaiseAmount(raiseTo(gameState.currentBet + potAfterCall / 2))} className="px-2 py-1 bg-slate-800 rounded text-xs text-slate-400 hover:bg-slate-700">50% Pot</button>
+            <button onClick={() => setRaiseAmount(raiseTo(gameState.currentBet + potAfterCall))} className="px-2 py-1 bg-slate-800 rounded text-xs text-slate-400 hover:bg-slate-700">Pot</button>
+            <button onClick={() => setRaiseAmount(raise.max)} className="px-2 py-1 bg-red-900/50 rounded text-xs text-red-400 hover:bg-red-900">MAX</button>
           </div>
 
           <div className="flex gap-2">
@@ -86,7 +131,7 @@ const GameControls: React.FC<GameControlsProps> = ({ gameState, human, onAction,
               onClick={confirmRaise}
               className="flex-[3] py-3 rounded-lg font-bold bg-yellow-600 text-white hover:bg-yellow-500 flex justify-center items-center gap-2"
             >
-              Confirm ${raiseAmount} <Check size={20} />
+              {raise.type === 'BET' ? 'Bet' : 'Raise to'} ${raiseAmount} <Check size={20} />
             </button>
           </div>
         </div>
@@ -94,46 +139,57 @@ const GameControls: React.FC<GameControlsProps> = ({ gameState, human, onAction,
 
       {/* Main Bar */}
       <div className="absolute bottom-0 w-full bg-slate-900/90 border-t border-slate-800 p-4 pb-8 flex justify-center items-center gap-4 backdrop-blur-xl z-30 transition-transform duration-300 shadow-[0_-10px_40px_rgba(0,0,0,0.5)]">
+         {isHumanTurn && actionError && (
+           <div className="absolute -top-10 left-1/2 -translate-x-1/2 bg-red-950/90 border border-red-700 text-red-200 text-xs font-bold px-4 py-2 rounded-lg whitespace-nowrap">
+             {actionError}
+           </div>
+         )}
          {isHumanTurn ? (
            <div className="flex gap-2 sm:gap-4 items-center">
               <button 
-                onClick={() => onAction('FOLD')}
+                onClick={() => onAction({ type: 'FOLD' })}
                 className="bg-red-950/80 hover:bg-red-900 text-red-100 border-2 border-red-800 px-6 py-4 rounded-xl font-bold uppercase tracking-wider shadow-lg hover:shadow-red-900/50 transition-all hover:-translate-y-1"
               >
                 Fold
               </button>
               <button 
-                onClick={() => onAction('CHECK')}
-                disabled={gameState.currentBet > human.currentBet}
+                onClick={() => onAction({ type: 'CHECK' })}
+                disabled={!canCheck}
                 className="bg-slate-800 hover:bg-slate-700 text-white border-2 border-slate-600 px-6 py-4 rounded-xl font-bold uppercase tracking-wider disabled:opacity-50 disabled:hover:translate-y-0 shadow-lg transition-all hover:-translate-y-1"
               >
                 Check
               </button>
               <button 
-                onClick={() => onAction('CALL')}
-                disabled={gameState.currentBet <= human.currentBet}
+                onClick={() => onAction({ type: 'CALL' })}
+                disabled={canCheck}
                 className="bg-emerald-800 hover:bg-emerald-700 text-white border-2 border-emerald-600 px-6 py-4 rounded-xl font-bold uppercase tracking-wider disabled:opacity-50 disabled:hover:translate-y-0 shadow-lg hover:shadow-emerald-900/50 transition-all hover:-translate-y-1 flex flex-col items-center leading-none justify-center"
               >
                 <span>Call</span>
-                <span className="text-[10px] opacity-70 mt-1 font-mono">${gameState.currentBet - human.currentBet}</span>
+                <span className="text-[10px] opacity-70 mt-1 font-mono">${callAmount}</span>
               </button>
               <button 
                 onClick={initiateRaise}
-                className="bg-yellow-700 hover:bg-yellow-600 text-white border-2 border-yellow-500 px-6 py-4 rounded-xl font-bold uppercase tracking-wider shadow-lg hover:shadow-yellow-900/50 transition-all hover:-translate-y-1"
+                disabled={!raise}
+                title={!raise && human.chips > toCall ? "A short all-in didn't reopen the betting" : undefined}
+                className="bg-yellow-700 hover:bg-yellow-600 text-white border-2 border-yellow-500 px-6 py-4 rounded-xl font-bold uppercase tracking-wider disabled:opacity-50 disabled:hover:translate-y-0 shadow-lg hover:shadow-yellow-900/50 transition-all hover:-translate-y-1"
               >
-                Raise
+                {raise?.type === 'BET' ? 'Bet' : 'Raise'}
               </button>
               
-              <div className="w-px h-12 bg-slate-700 mx-4"></div>
-              
-              <button 
-                onClick={onCoach}
-                disabled={isLoadingAdvice}
-                className="bg-indigo-700 hover:bg-indigo-600 text-white p-4 rounded-full shadow-[0_0_15px_rgba(99,102,241,0.5)] border-2 border-indigo-400 hover:scale-110 transition-all"
-                title="Ask AI Coach"
-              >
-                <Brain size={28} />
-              </button>
+              {onCoach && (
+                <>
+                  <div className="w-px h-12 bg-slate-700 mx-4"></div>
+                  
+                  <button 
+                    onClick={onCoach}
+                    disabled={isLoadingAdvice}
+                    className="bg-indigo-700 hover:bg-indigo-600 text-white p-4 rounded-full shadow-[0_0_15px_rgba(99,102,241,0.5)] border-2 border-indigo-400 hover:scale-110 transition-all"
+                    title="Ask AI Coach"
+                  >
+                    <Brain size={28} />
+                  </button>
+                </>
+              )}
            </div>
          ) : (
            <div className="text-slate-400 font-mono animate-pulse bg-slate-900 px-6 py-3 rounded-xl border border-slate-700 flex items-center gap-3">
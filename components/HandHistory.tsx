@@ -1,29 +1,129 @@
 
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { HandHistoryEntry } from '../types';
+import { canReplay } from '../utils/replay';
+import { exportHandsToPokerStars, parsePokerStarsHands } from '../utils/pokerstars';
+import { SeverityBadge } from './HandReviewPanel';
+import { Film, Download, Upload, GraduationCap } from 'lucide-react';
 
 interface HandHistoryProps {
   history: HandHistoryEntry[];
+  onReplay?: (entry: HandHistoryEntry) => void;
+  onImport?: (entries: HandHistoryEntry[]) => void;
+  onReview?: (entry: HandHistoryEntry) => void;
+  reviewingId?: string | null; // Entry whose review is in flight
 }
 
-const HandHistory: React.FC<HandHistoryProps> = ({ history }) => {
+const HandHistory: React.FC<HandHistoryProps> = ({ history, onReplay, onImport, onReview, reviewingId }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const exportHands = () => {
+    const blob = new Blob([exportHandsToPokerStars(history)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ngpl-hands-${new Date().toISOString().slice(0, 10)}.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importHands = async (file: File) => {
+    try {
+      const entries = parsePokerStarsHands(await file.text());
+      if (entries.length === 0) throw new Error('No hands found in file');
+      onImport?.(entries);
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not read hand history');
+    }
+  };
+
   return (
     <div className="p-3 w-80 h-64 overflow-y-auto text-xs font-mono space-y-2 bg-slate-900/50">
+      <div className="flex justify-end gap-2">
+        <button 
+          onClick={exportHands}
+          disabled={!history.some(canReplay)}
+          className="flex items-center gap-1 px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white border border-slate-700 disabled:opacity-40"
+          title="Export as PokerStars hand history"
+        >
+          <Download size={10} /> Export
+        </button>
+        {onImport && (
+          <button 
+            onClick={() => fileRef.current?.click()}
+            className="flex items-center gap-1 px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white border border-slate-700"
+            title="Import PokerStars hand history"
+          >
+            <Upload size={10} /> Import
+          </button>
+        )}
+        <input 
+          ref={fileRef}
+          type="file"
+          accept=".txt"
+          className="hidden"
+          onChange={(e) => { const file = e.target.files?.[0]; if (file) importHands(file); e.target.value = ''; }}
+        />
+      </div>
+      {importError && <div className="text-red-400 text-center">{importError}</div>}
+
       {history.length === 0 && <div className="text-slate-500 italic text-center p-4">No history yet.</div>}
       
       {[...history].reverse().map((entry) => (
         <div key={entry.id} className="border-b border-slate-700 pb-2 mb-2 last:mb-0 last:border-0 hover:bg-slate-800/50 p-2 rounded transition-colors">
             <div className="flex justify-between items-center mb-1">
-                <span className="text-yellow-500 font-bold">Hand #{entry.handNumber}</span>
-                <span className="text-slate-500">{entry.date}</span>
+                <span className="text-yellow-500 font-bold">
+                  Hand #{entry.handNumber}
+                  {entry.source === 'imported' && <span className="ml-1 text-[9px] text-slate-500 uppercase">(Imported)</span>}
+                </span>
+                <span className="text-slate-500" title={entry.seed !== undefined ? `Seed ${entry.seed}` : undefined}>{entry.date}</span>
             </div>
-            <div className="text-slate-300">
-                Winner: <span className="text-emerald-400 font-bold">{entry.winnerNames.join(', ')}</span>
+            <div className="flex justify-between items-center text-slate-300">
+                <span>Winner: <span className="text-emerald-400 font-bold">{entry.winnerNames.join(', ')}</span></span>
+                <span className="flex gap-1">
+                  {onReview && canReplay(entry) && (
+                    <button 
+                      onClick={() => onReview(entry)}
+                      disabled={reviewingId === entry.id}
+                      className="flex items-center gap-1 px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-indigo-300 border border-slate-700 disabled:opacity-50"
+                      title={entry.review ? "Open the review of this hand" : "Review this hand"}
+                    >
+                      <GraduationCap size={10} /> {reviewingId === entry.id ? '...' : 'Review'}
+                    </button>
+                  )}
+                  {onReplay && canReplay(entry) && (
+                    <button 
+                      onClick={() => onReplay(entry)}
+                      className="flex items-center gap-1 px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-yellow-400 border border-slate-700"
+                      title="Replay this hand"
+                    >
+                      <Film size={10} /> Replay
+                    </button>
+                  )}
+                </span>
             </div>
+            {entry.review && (
+              <div className="flex justify-between items-center mt-1 text-slate-500">
+                <span>Review: {entry.review.decisions.filter(d => d.severity > 0).length} flagged</span>
+                <SeverityBadge severity={entry.review.worstSeverity} />
+              </div>
+            )}
             <div className="flex justify-between text-slate-400 mt-1">
                 <span>{entry.winningHand}</span>
                 <span className="text-yellow-400 font-bold">+${entry.winAmount}</span>
             </div>
+            {entry.pots && entry.pots.length > 1 && (
+              <div className="mt-1 pl-2 border-l border-slate-700 space-y-0.5">
+                {entry.pots.map(pot => (
+                  <div key={pot.label} className="flex justify-between text-slate-500">
+                    <span>{pot.label}: <span className="text-slate-300">{pot.winnerNames.join(', ')}</span></span>
+                    <span className="text-yellow-600">${pot.amount}</span>
+                  </div>
+                ))}
+              </div>
+            )}
         </div>
       ))}
     </div>
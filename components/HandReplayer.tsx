@@ -0,0 +1,69 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { HandHistoryEntry } from '../types';
+import PokerTable from './PokerTable';
+import { buildReplayFrames } from '../utils/replay';
+import { ChevronLeft, ChevronRight, SkipBack, SkipForward, X, Film } from 'lucide-react';
+
+interface HandReplayerProps {
+  entry: HandHistoryEntry;
+  onClose: () => void;
+}
+
+const HandReplayer: React.FC<HandReplayerProps> = ({ entry, onClose }) => {
+  const frames = useMemo(() => buildReplayFrames(entry), [entry]);
+  const [step, setStep] = useState(0);
+
+  const last = frames.length - 1;
+  const goTo = (next: number) => setStep(Math.max(0, Math.min(last, next)));
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') setStep(s => Math.min(last, s + 1));
+      else if (e.key === 'ArrowLeft') setStep(s => Math.max(0, s - 1));
+      else if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [last, onClose]);
+
+  if (frames.length === 0) return null;
+
+  const frame = frames[step];
+  const human = frame.state.players.find(p => p.isHuman);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/90 backdrop-blur-sm flex flex-col items-center justify-center animate-deal">
+      <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-3 bg-slate-900/90 border border-slate-700 rounded-xl px-4 py-2 shadow-2xl">
+        <Film size={16} className="text-yellow-400" />
+        <span className="text-yellow-400 font-bold uppercase tracking-wider text-sm">Replay: Hand #{entry.handNumber}</span>
+        <span className="text-slate-500 font-mono text-xs">{entry.date}</span>
+        <button onClick={onClose} className="ml-4 text-slate-400 hover:text-white p-1 hover:bg-slate-700 rounded" title="Close replay">
+          <X size={16} />
+        </button>
+      </div>
+
+      <PokerTable gameState={frame.state} human={human} />
+
+      <div className="absolute bottom-0 w-full bg-slate-900/90 border-t border-slate-800 p-4 pb-8 flex flex-col items-center gap-3 z-30">
+        <div className="text-sm font-mono text-slate-200 min-h-[20px]">{frame.caption}</div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => goTo(0)} disabled={step === 0} className="p-3 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-40">
+            <SkipBack size={18} />
+          </button>
+          <button onClick={() => goTo(step - 1)} disabled={step === 0} className="p-3 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-40">
+            <ChevronLeft size={18} />
+          </button>
+          <span className="px-4 font-mono text-xs text-slate-400">{step + 1} / {frames.length}</span>
+          <button onClick={() => goTo(step + 1)} disabled={step === last} className="p-3 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-40">
+            <ChevronRight size={18} />
+          </button>
+          <button onClick={() => goTo(last)} disabled={step === last} className="p-3 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-40">
+            <SkipForward size={18} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HandReplayer;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { HandHistoryEntry } from '../types';
+import { SEVERITY_LABELS } from '../services/handReview';
+import { X } from 'lucide-react';
+
+interface HandReviewPanelProps {
+  entry: HandHistoryEntry | null;
+  isLoading: boolean;
+  onClose: () => void;
+}
+
+const SEVERITY_STYLES = [
+  'bg-emerald-900/60 text-emerald-300 border-emerald-700',
+  'bg-yellow-900/60 text-yellow-300 border-yellow-700',
+  'bg-orange-900/60 text-orange-300 border-orange-700',
+  'bg-red-900/60 text-red-300 border-red-700'
+];
+
+export const SeverityBadge: React.FC<{ severity: number }> = ({ severity }) => (
+  <span className={`px-1.5 py-0.5 rounded border text-[9px] font-bold uppercase ${SEVERITY_STYLES[severity]}`}>
+    {SEVERITY_LABELS[severity]}
+  </span>
+);
+
+const HandReviewPanel: React.FC<HandReviewPanelProps> = ({ entry, isLoading, onClose }) => {
+  const review = entry?.review;
+
+  return (
+    <div className="p-3 w-80 max-h-80 overflow-y-auto text-xs font-mono bg-slate-900/50">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-yellow-500 font-bold">{entry ? `Hand #${entry.handNumber}` : 'Hand Review'}</span>
+        <button onClick={onClose} className="text-slate-500 hover:text-white p-0.5 rounded hover:bg-slate-700" title="Close review">
+          <X size={12} />
+        </button>
+      </div>
+
+      {isLoading && <div className="text-indigo-300 animate-pulse text-center p-4">Reviewing your decisions...</div>}
+
+      {!isLoading && review && (
+        <>
+          <div className="text-slate-200 leading-snug mb-3">{review.summary}</div>
+          {review.decisions.map(decision => (
+            <div key={decision.actionIndex} className="border-l-2 border-slate-700 pl-2 mb-2">
+              <div className="flex justify-between items-center mb-0.5">
+                <span className="text-slate-400">{decision.street}: <span className="text-white">You {decision.decision}</span></span>
+                <SeverityBadge severity={decision.severity} />
+              </div>
+              <div className="text-slate-400 leading-snug">
+                {decision.comment}
+                {decision.better && <span className="text-indigo-300"> Better: {decision.better}.</span>}
+              </div>
+            </div>
+          ))}
+          <div className="text-[10px] text-slate-600 text-right">
+            {review.source === 'local' ? 'Offline review' : `Reviewed by ${review.source}`} · {new Date(review.createdAt).toLocaleString()}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HandReviewPanel;
@@ -0,0 +1,148 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GameState, GamePhase, LanSeatInfo, PlayerAction } from '../types';
+import { connectToTable, LanConnection, LanStatus } from '../services/lanClient';
+import { formatBlinds } from '../utils/tournament';
+import { CASH_BLINDS } from '../constants';
+import PokerTable from './PokerTable';
+import GameControls from './GameControls';
+import { Coins, Eye, LogOut, Timer, Users, Wifi, WifiOff } from 'lucide-react';
+
+interface LanTableProps {
+  serverUrl: string;
+  name: string | null; // Null to watch without sitting down
+  onExit: () => void;
+}
+
+const LanTable: React.FC<LanTableProps> = ({ serverUrl, name, onExit }) => {
+  const [state, setState] = useState<GameState | null>(null);
+  const [you, setYou] = useState<string | null>(null);
+  const [seats, setSeats] = useState<LanSeatInfo[]>([]);
+  const [spectators, setSpectators] = useState(0);
+  const [deadline, setDeadline] = useState<number | undefined>();
+  const [status, setStatus] = useState<LanStatus>('connecting');
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const connection = useRef<LanConnection | null>(null);
+  const logRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    connection.current = connectToTable(serverUrl, name, (message) => {
+      if (message.type === 'state') {
+        setState(message.state);
+        setYou(message.you);
+        setSeats(message.seats);
+        setSpectators(message.spectators);
+        setDeadline(message.actionDeadline);
+        setError(null);
+      } else if (message.type === 'error') {
+        setError(message.message);
+      }
+    }, setStatus);
+    return () => connection.current?.close();
+  }, [serverUrl, name]);
+
+  // Ticks the turn clock
+  useEffect(() => {
+    if (!deadline) return;
+    const id = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(id);
+  }, [deadline]);
+
+  useEffect(() => {
+    if (logRef.current) logRef.current.scrollTop = logRef.current.scrollHeight;
+  }, [state?.roundLog.length]);
+
+  const human = state?.players.find(p => p.id === you);
+  const mySeat = seats.find(s => name !== null && s.name.toLowerCase() === name.trim().toLowerCase());
+  const actor = state ? state.players[state.currentPlayerIndex] : undefined;
+  const secondsLeft = deadline ? Math.max(0, Math.ceil((deadline - now) / 1000)) : null;
+  const isBusted = !!human && human.chips <= 0;
+
+  const sendAction = (action: PlayerAction) => connection.current?.send({ type: 'action', action });
+
+  const leave = () => {
+    connection.current?.send({ type: 'leave' });
+    onExit();
+  };
+
+  return (
+    <div className="min-h-screen bg-[#1a1a1a] text-white overflow-hidden relative font-sans select-none flex items-center justify-center pb-32">
+      <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-slate-900 via-slate-950 to-black z-0"></div>
+
+      {/* Table status */}
+      <div className="absolute top-4 left-4 z-10 w-64 bg-slate-900/80 p-3 rounded-xl border border-slate-700 backdrop-blur-sm shadow-xl font-mono text-xs space-y-2">
+        <div className="flex items-center gap-2 font-bold uppercase tracking-wider">
+          {status === 'open' ? <Wifi size={14} className="text-emerald-400" /> : <WifiOff size={14} className="text-red-400" />}
+          <span className={status === 'open' ? 'text-emerald-400' : 'text-red-400'}>
+            {status === 'open' ? 'LAN Table' : status === 'connecting' ? 'Connecting...' : 'Reconnecting...'}
+          </span>
+          <button onClick={leave} className="ml-auto flex items-center gap-1 text-slate-400 hover:text-white" title="Leave the table">
+            <LogOut size={12} /> Leave
+          </button>
+        </div>
+        {state && (
+          <div className="flex items-center gap-2 text-yellow-400 font-bold">
+            <Coins size={14} /> {state.pot}
+            <span className="text-slate-500 font-normal">Blinds {formatBlinds(state.blinds || CASH_BLINDS)}</span>
+          </div>
+        )}
+        {actor && secondsLeft !== null && state?.phase !== GamePhase.SHOWDOWN && (
+          <div className={`flex items-center gap-1 ${secondsLeft <= 5 ? 'text-red-400' : 'text-slate-300'}`}>
+            <Timer size={12} /> {actor.id === you ? 'Your turn' : actor.name}: {secondsLeft}s
+          </div>
+        )}
+        <div className="border-t border-slate-800 pt-2">
+          <div className="flex items-center gap-1 text-slate-500 uppercase text-[10px] mb-1"><Users size={12} /> Players</div>
+          {seats.map(seat => (
+            <div key={seat.name} className="flex items-center gap-2">
+              <span className={`w-1.5 h-1.5 rounded-full ${seat.connected ? 'bg-emerald-400' : 'bg-slate-600'}`} />
+              <span className={seat.name === mySeat?.name ? 'text-emerald-300 font-bold' : 'text-slate-300'}>{seat.name}</span>
+              {seat.status !== 'seated' && <span className="text-[10px] text-slate-500 uppercase">{seat.status === 'waiting' ? 'next hand' : 'leaving'}</span>}
+            </div>
+          ))}
+          <div className="flex items-center gap-1 text-slate-500 mt-1"><Eye size={12} /> {spectators} watching</div>
+        </div>
+        {name === null && <div className="text-slate-500">Watching - hole cards stay hidden until showdown.</div>}
+        {mySeat?.status === 'waiting' && <div className="text-yellow-400">You'll be dealt in next hand.</div>}
+        {isBusted && state?.phase === GamePhase.SHOWDOWN && (
+          <button
+            onClick={() => connection.current?.send({ type: 'rebuy' })}
+            className="w-full py-1.5 rounded bg-emerald-800 hover:bg-emerald-700 text-emerald-100 font-bold uppercase"
+          >
+            Rebuy
+          </button>
+        )}
+        {error && <div className="text-red-400">{error}</div>}
+      </div>
+
+      {/* Table talk */}
+      {state && (
+        <div ref={logRef} className="absolute top-4 right-4 z-10 w-64 h-48 overflow-y-auto bg-slate-900/80 p-3 rounded-xl border border-slate-700 font-mono text-xs space-y-1">
+          {state.roundLog.map((entry, i) => (
+            <div key={i} className="text-slate-300 leading-tight border-b border-slate-800/50 pb-1 last:border-0">{entry}</div>
+          ))}
+        </div>
+      )}
+
+      {state ? (
+        <PokerTable gameState={state} human={human} />
+      ) : (
+        <div className="z-10 text-slate-500 font-mono">Waiting for the first deal...</div>
+      )}
+
+      {state && human && (
+        <GameControls
+          gameState={state}
+          human={human}
+          onAction={sendAction}
+          onNextHand={() => {}}
+          nextHandBlockedReason={isBusted ? 'Busted - rebuy to keep playing' : 'Next hand starts shortly'}
+          isLoadingAdvice={false}
+          onShowCards={(cardIds) => connection.current?.send({ type: 'show', cardIds })}
+        />
+      )}
+    </div>
+  );
+};
+
+export default LanTable;
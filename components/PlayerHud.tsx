@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { PlayerStats, formatRate } from '../utils/stats';
+import { PlayerNote, NoteColor, NOTE_COLORS } from '../services/playerNotes';
+import { StickyNote, X } from 'lucide-react';
+
+interface PlayerHudProps {
+  name: string;
+  stats?: PlayerStats;
+  note?: PlayerNote;
+  onSaveNote?: (note: PlayerNote | null) => void; // Omitted for the human seat
+}
+
+export const NOTE_COLOR_STYLES: Record<NoteColor, string> = {
+  red: 'bg-red-500',
+  orange: 'bg-orange-500',
+  yellow: 'bg-yellow-400',
+  green: 'bg-emerald-500',
+  blue: 'bg-sky-500',
+  purple: 'bg-purple-500'
+};
+
+const af = (stats: PlayerStats) => stats.aggressionFactor === null ? '-' : stats.aggressionFactor.toFixed(1);
+
+// Compact VPIP/PFR/AF line under a seat; hover for the full read, click to pin and edit notes
+const PlayerHud: React.FC<PlayerHudProps> = ({ name, stats, note, onSaveNote }) => {
+  const [isHovered, setIsHovered] = useState(false);
+  const [isPinned, setIsPinned] = useState(false);
+  const [draftText, setDraftText] = useState(note?.text || '');
+  const [draftColor, setDraftColor] = useState<NoteColor | undefined>(note?.color);
+
+  useEffect(() => {
+    if (!isPinned) {
+      setDraftText(note?.text || '');
+      setDraftColor(note?.color);
+    }
+  }, [note, isPinned]);
+
+  const save = () => {
+    onSaveNote?.({ text: draftText, color: draftColor, updatedAt: Date.now() });
+    setIsPinned(false);
+  };
+
+  const rows: [string, string][] = stats ? [
+    ['Hands', String(stats.counts.hands)],
+    ['VPIP', formatRate(stats.vpip)],
+    ['PFR', formatRate(stats.pfr)],
+    ['3-Bet', stats.counts.threeBetChances ? formatRate(stats.threeBet) : '-'],
+    ['AF', af(stats)],
+    ['WTSD', stats.counts.sawFlop ? formatRate(stats.wtsd) : '-'],
+    ['W$SD', stats.counts.showdowns ? formatRate(stats.wsd) : '-'],
+    ['bb/100', stats.bbPer100.toFixed(1)]
+  ] : [];
+
+  return (
+    <div
+      className="relative pointer-events-auto mt-1"
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      <button
+        onClick={() => setIsPinned(p => !p)}
+        className="flex items-center gap-1 bg-black/70 px-2 py-0.5 rounded border border-slate-700 text-[9px] font-mono text-slate-300 whitespace-nowrap hover:border-slate-500"
+        title="VPIP / PFR / AF · hands"
+      >
+        {note?.color && <span className={`w-2 h-2 rounded-full ${NOTE_COLOR_STYLES[note.color]}`} />}
+        {stats ? `${Math.round(stats.vpip * 100)}/${Math.round(stats.pfr * 100)}/${af(stats)} · ${stats.counts.hands}` : 'No reads'}
+        {note?.text && <StickyNote size={9} className="text-yellow-400" />}
+      </button>
+
+      {(isHovered || isPinned) && (
+        <div className="absolute top-full left-1/2 -translate-x-1/2 mt-1 z-50 w-48 bg-slate-900/95 border border-slate-600 rounded-lg shadow-2xl p-2 text-[10px] font-mono text-left">
+          <div className="flex justify-between items-center mb-1">
+            <span className="text-yellow-500 font-bold uppercase">{name}</span>
+            {isPinned && (
+              <button onClick={() => setIsPinned(false)} className="text-slate-500 hover:text-white" title="Close">
+                <X size={10} />
+              </button>
+            )}
+          </div>
+
+          {stats ? (
+            <div className="grid grid-cols-2 gap-x-2">
+              {rows.map(([label, value]) => (
+                <div key={label} className="flex justify-between">
+                  <span className="text-slate-500">{label}</span>
+                  <span className="text-slate-200">{value}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-slate-500 italic">No hands seen yet.</div>
+          )}
+
+          {onSaveNote && !isPinned && (
+            <div className="mt-2 pt-1 border-t border-slate-700 text-slate-300 whitespace-pre-wrap">
+              {note?.text || <span className="text-slate-600 italic">Click to add a note.</span>}
+            </div>
+          )}
+
+          {onSaveNote && isPinned && (
+            <div className="mt-2 pt-1 border-t border-slate-700">
+              <textarea
+                value={draftText}
+                onChange={(e) => setDraftText(e.target.value)}
+                placeholder="Reads on this player..."
+                rows={3}
+                className="w-full bg-slate-800 border border-slate-700 rounded p-1 text-slate-200 resize-none focus:outline-none focus:border-yellow-600"
+              />
+              <div className="flex items-center gap-1 mt-1">
+                {NOTE_COLORS.map(color => (
+                  <button
+                    key={color}
+                    onClick={() => setDraftColor(c => c === color ? undefined : color)}
+                    className={`w-3 h-3 rounded-full ${NOTE_COLOR_STYLES[color]} ${draftColor === color ? 'ring-2 ring-white' : 'opacity-60 hover:opacity-100'}`}
+                    title={color}
+                  />
+                ))}
+                <button onClick={() => { onSaveNote(null); setIsPinned(false); }} className="ml-auto text-slate-500 hover:text-red-400">Clear</button>
+                <button onClick={save} className="text-emerald-400 hover:text-emerald-300 font-bold">Save</button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlayerHud;
@@ -3,6 +3,10 @@ import React, { useRef, useEffect } from 'react';
 import { GameState, GamePhase, Player, Card as CardType } from '../types';
 import Card from './Card';
 import { AVATAR_URL } from '../constants';
+import { buildPots, getPotLabel } from '../utils/pots';
+import { PlayerStats } from '../utils/stats';
+import { PlayerNote } from '../services/playerNotes';
+import PlayerHud from './PlayerHud';
 import { Coins, Trophy } from 'lucide-react';
 import { useDraggable } from '../App'; // We'll export the hook from App or utils if needed, for now assuming simpler approach or prop drilling
 
@@ -22,8 +26,11 @@ const DraggablePlayerWrapper: React.FC<{
   };
 
 interface PokerTableProps {
-  gameState: GameState;
+  gameState: GameState;               // Projected for the viewer: unshown cards are already gone
   human: Player | undefined;
+  stats?: PlayerStats[];              // HUD numbers under each seat
+  notes?: Record<string, PlayerNote>; // Opponent notes keyed by name
+  onSaveNote?: (name: string, note: PlayerNote | null) => void;
 }
 
 // BOT POSITIONS
@@ -41,10 +48,9 @@ const PlayerSpot: React.FC<{
     player: Player; 
     isDealer: boolean; 
     isCurrentTurn: boolean;
-    cardsVisible: boolean;
-    gamePhase: GamePhase;
     isWinner?: boolean;
-  }> = ({ player, isDealer, isCurrentTurn, cardsVisible, gamePhase, isWinner }) => {
+    hud?: React.ReactNode;
+  }> = ({ player, isDealer, isCurrentTurn, isWinner, hud }) => {
     const handRef = useRef<HTMLDivElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
   
@@ -78,6 +84,7 @@ const PlayerSpot: React.FC<{
                 <Coins size={12} className="text-yellow-500" /> {player.chips}
               </div>
             </div>
+            {hud}
             
             {player.isAllIn && <div className="absolute top-10 font-black text-red-500 text-2xl shadow-black drop-shadow-[0_2px_4px_rgba(0,0,0,0.8)] rotate-12 bg-black/80 px-2 rounded border-2 border-red-600 animate-pulse">ALL IN</div>}
             {!player.isActive && player.chips > 0 && <div className="absolute top-10 font-black text-slate-500 text-xl shadow-black drop-shadow-md -rotate-12 bg-black/60 px-2 rounded">FOLD</div>}
@@ -86,11 +93,10 @@ const PlayerSpot: React.FC<{
         {/* Hand Cluster */}
         <div ref={handRef} className="absolute z-10 flex flex-col items-center origin-center top-16">
            <div className={`flex -space-x-4 h-20 sm:h-24 relative ${isWinner ? 'scale-110 z-20' : ''}`}>
-              {player.hand.map((card, idx) => (
+              {[...player.hand, ...Array(player.hiddenCards || 0).fill(null)].map((card, idx) => (
                 <Card 
                   key={idx} 
                   card={card} 
-                  hidden={!cardsVisible && !player.isHuman && gamePhase !== GamePhase.SHOWDOWN} 
                   className={`transform ${idx === 1 ? 'rotate-6 translate-y-1' : '-rotate-6'} origin-bottom shadow-xl`}
                   tiny={!player.isHuman} 
                 />
@@ -117,7 +123,25 @@ const PlayerSpot: React.FC<{
     );
 };
 
-const PokerTable: React.FC<PokerTableProps> = ({ gameState, human }) => {
+const PokerTable: React.FC<PokerTableProps> = ({ gameState, human, stats, notes, onSaveNote }) => {
+  const livePots = gameState.phase === GamePhase.SHOWDOWN ? [] : buildPots(gameState.players);
+
+  // Seats go clockwise from the human, who isn't always seat 0 once tournament tables are balanced.
+  // Spectators look on from seat 0.
+  const humanIndex = Math.max(0, gameState.players.findIndex(p => p.isHuman));
+  const bottom = human ?? gameState.players[humanIndex];
+  const opponentSeats = gameState.players.map((_, i) => (humanIndex + 1 + i) % gameState.players.length).slice(0, -1);
+
+  // Opponent reads only; the human's own numbers live in the stats dashboard
+  const hudFor = (bot: Player) => stats && (
+    <PlayerHud
+      name={bot.name}
+      stats={stats.find(s => s.name === bot.name)}
+      note={notes?.[bot.name]}
+      onSaveNote={onSaveNote && ((note) => onSaveNote(bot.name, note))}
+    />
+  );
+
   return (
     <div className="relative w-[95vw] h-[60vh] md:w-[80vw] md:h-[70vh] flex items-center justify-center z-10">
         
@@ -153,6 +177,17 @@ const PokerTable: React.FC<PokerTableProps> = ({ gameState, human }) => {
                 <div className="inline-block px-6 py-2 bg-slate-800 rounded-full text-slate-200 font-bold border border-slate-600">
                   {gameState.winningHandDesc}
                 </div>
+                {gameState.potResults && gameState.potResults.length > 1 && (
+                  <div className="mt-4 w-full space-y-1 text-xs font-mono">
+                    {gameState.potResults.map(result => (
+                      <div key={result.label} className="flex justify-between gap-4 text-slate-300 border-b border-slate-700 pb-1 last:border-0">
+                        <span className="text-yellow-500 font-bold">{result.label}</span>
+                        <span>{result.winnerNames.join(' & ')} ({result.winningHand})</span>
+                        <span className="text-emerald-400 font-bold">+{result.amount}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
            )}
@@ -164,6 +199,19 @@ const PokerTable: React.FC<PokerTableProps> = ({ gameState, human }) => {
            </div>
         )}
 
+        {/* Side Pots */}
+        {livePots.length > 1 && (
+          <div className="absolute z-10 top-[28%] flex gap-2">
+            {livePots.map((pot, i) => (
+              <div key={i} className="flex items-center gap-1 bg-black/60 px-3 py-1 rounded-full border border-yellow-700/60 text-xs font-mono shadow-lg">
+                <Coins size={12} className="text-yellow-500" />
+                <span className="text-slate-300">{getPotLabel(i)}:</span>
+                <span className="text-yellow-400 font-bold">{pot.amount}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Community Cards */}
         <div className="flex gap-2 sm:gap-4 z-10 min-h-[100px] items-center mb-12 sm:mb-20">
           {gameState.communityCards.map((card, i) => (
@@ -172,17 +220,17 @@ const PokerTable: React.FC<PokerTableProps> = ({ gameState, human }) => {
         </div>
 
         {/* Bots */}
-        {gameState.players.slice(1).map((bot, index) => {
-          const layout = BOT_LAYOUTS[index];
+        {opponentSeats.map((seatIndex, index) => {
+          const bot = gameState.players[seatIndex];
+          const layout = BOT_LAYOUTS[index % BOT_LAYOUTS.length];
           return (
             <DraggablePlayerWrapper key={bot.id} style={layout.style}>
               <PlayerSpot 
                 player={bot} 
-                isDealer={gameState.dealerIndex === (index + 1)} 
-                isCurrentTurn={gameState.currentPlayerIndex === (index + 1)} 
-                cardsVisible={false} 
-                gamePhase={gameState.phase} 
+                isDealer={gameState.dealerIndex === seatIndex} 
+                isCurrentTurn={gameState.currentPlayerIndex === seatIndex} 
                 isWinner={gameState.winners?.some(w => w.id === bot.id)} 
+                hud={hudFor(bot)}
               />
             </DraggablePlayerWrapper>
           );
@@ -190,14 +238,13 @@ const PokerTable: React.FC<PokerTableProps> = ({ gameState, human }) => {
 
         {/* Human */}
         <div className="absolute bottom-0 sm:bottom-4 left-1/2 -translate-x-1/2 z-20 flex flex-col items-center">
-          {human && (
+          {bottom && (
              <PlayerSpot 
-                player={human} 
-                isDealer={gameState.dealerIndex === 0} 
-                isCurrentTurn={gameState.currentPlayerIndex === 0} 
-                cardsVisible={true} 
-                gamePhase={gameState.phase}
-                isWinner={gameState.winners?.some(w => w.id === human.id)}
+                player={bottom} 
+                isDealer={gameState.dealerIndex === humanIndex} 
+                isCurrentTurn={gameState.currentPlayerIndex === humanIndex} 
+                isWinner={gameState.winners?.some(w => w.id === bottom.id)}
+                hud={human ? undefined : hudFor(bottom)}
              />
           )}
         </div>
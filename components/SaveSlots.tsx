@@ -0,0 +1,49 @@
+import React from 'react';
+import { SaveSlotSummary } from '../services/saves';
+import { Play, Trash2, Save } from 'lucide-react';
+
+interface SaveSlotsProps {
+  saves: SaveSlotSummary[];
+  onLoad: (slotId: string) => void;
+  onDelete: (slotId: string) => void;
+}
+
+const SaveSlots: React.FC<SaveSlotsProps> = ({ saves, onLoad, onDelete }) => {
+  if (saves.length === 0) return null;
+
+  return (
+    <div className="mt-8 w-full max-w-md bg-slate-900/80 border border-slate-700 rounded-xl p-3 font-mono text-xs">
+      <div className="flex items-center gap-2 text-slate-400 font-bold uppercase tracking-wider mb-2">
+        <Save size={12} /> Saved Runs
+      </div>
+      {saves.map(save => (
+        <div key={save.slotId} className="flex items-center justify-between gap-2 py-2 border-b border-slate-800 last:border-0">
+          <div className="min-w-0">
+            <div className="text-slate-200 font-bold truncate">{save.name}</div>
+            <div className="text-slate-500">
+              Hand #{save.handCount} · <span className="text-yellow-500">{save.chips}</span> chips · {new Date(save.savedAt).toLocaleString()}
+            </div>
+          </div>
+          <div className="flex gap-1 shrink-0">
+            <button
+              onClick={() => onLoad(save.slotId)}
+              className="p-2 rounded bg-emerald-800 hover:bg-emerald-700 text-white"
+              title="Load this run"
+            >
+              <Play size={12} />
+            </button>
+            <button
+              onClick={() => onDelete(save.slotId)}
+              className="p-2 rounded bg-slate-800 hover:bg-red-900 text-slate-400 hover:text-red-200"
+              title="Delete this save"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SaveSlots;
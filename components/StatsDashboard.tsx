@@ -0,0 +1,118 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HandHistoryEntry } from '../types';
+import { computeStats, formatRate } from '../utils/stats';
+import { getBotProfile } from '../utils/poker';
+import { BarChart3, X } from 'lucide-react';
+
+interface StatsDashboardProps {
+  sessionHistory: HandHistoryEntry[];
+  loadOtherRuns: () => HandHistoryEntry[]; // Saved runs other than this one
+  onClose: () => void;
+}
+
+type Scope = 'session' | 'all';
+
+const StatsDashboard: React.FC<StatsDashboardProps> = ({ sessionHistory, loadOtherRuns, onClose }) => {
+  const [scope, setScope] = useState<Scope>('session');
+  const [otherRuns, setOtherRuns] = useState<HandHistoryEntry[] | null>(null);
+
+  useEffect(() => {
+    if (scope === 'all' && !otherRuns) setOtherRuns(loadOtherRuns());
+  }, [scope, otherRuns, loadOtherRuns]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  // Imported hands are other games with other players, so they stay out of league stats
+  const stats = useMemo(() => {
+    const hands = scope === 'all' ? [...(otherRuns || []), ...sessionHistory] : sessionHistory;
+    return computeStats(hands.filter(h => h.source !== 'imported'));
+  }, [scope, otherRuns, sessionHistory]);
+
+  const human = stats.find(s => s.isHuman);
+  const tint = (value: number, base?: number) => {
+    if (base === undefined) return '';
+    const delta = Math.round((value - base) * 100);
+    return delta === 0 ? '' : delta > 0 ? 'text-emerald-400' : 'text-red-400';
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/85 backdrop-blur-sm flex items-center justify-center animate-deal" onClick={onClose}>
+      <div className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-4 max-w-4xl w-full mx-4 font-mono text-xs" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-3 mb-3">
+          <BarChart3 size={16} className="text-yellow-400" />
+          <span className="text-yellow-400 font-bold uppercase tracking-wider text-sm">Player Stats</span>
+          <div className="flex rounded-lg overflow-hidden border border-slate-700 ml-4">
+            {(['session', 'all'] as Scope[]).map(s => (
+              <button
+                key={s}
+                onClick={() => setScope(s)}
+                className={`px-3 py-1 ${scope === s ? 'bg-slate-700 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+              >
+                {s === 'session' ? 'This Run' : 'All Saved Runs'}
+              </button>
+            ))}
+          </div>
+          <button onClick={onClose} className="ml-auto text-slate-400 hover:text-white p-1 hover:bg-slate-700 rounded" title="Close stats">
+            <X size={16} />
+          </button>
+        </div>
+
+        {stats.length === 0 ? (
+          <div className="text-slate-500 italic text-center p-8">Play a few hands to see stats.</div>
+        ) : (
+          <table className="w-full text-right">
+            <thead className="text-slate-500 uppercase text-[10px]">
+              <tr className="border-b border-slate-700">
+                <th className="text-left py-1">Player</th>
+                <th>Hands</th>
+                <th title="Voluntarily put $ in pot (profile target in brackets)">VPIP</th>
+                <th title="Pre-flop raise">PFR</th>
+                <th title="Re-raised when facing one raise pre-flop">3-Bet</th>
+                <th title="Post-flop (bets + raises) / calls (profile aggression in brackets)">AF</th>
+                <th title="Went to showdown after seeing the flop">WTSD</th>
+                <th title="Won money at showdown">W$SD</th>
+                <th title="Big blinds won per 100 hands">bb/100</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map(s => {
+                const profile = getBotProfile(s.name);
+                const base = s.isHuman ? undefined : human;
+                return (
+                  <tr key={s.name} className="border-b border-slate-800 last:border-0">
+                    <td className={`text-left py-1.5 ${s.isHuman ? 'text-emerald-300 font-bold' : 'text-slate-200'}`}>
+                      {s.name}
+                      {profile && <span className="ml-1 text-[9px] text-slate-500">{profile.label}</span>}
+                    </td>
+                    <td className="text-slate-400">{s.counts.hands}</td>
+                    <td className={tint(s.vpip, base?.vpip)}>
+                      {formatRate(s.vpip)}{profile && <span className="text-slate-600"> ({formatRate(profile.vpip)})</span>}
+                    </td>
+                    <td className={tint(s.pfr, base?.pfr)}>{formatRate(s.pfr)}</td>
+                    <td className={tint(s.threeBet, base?.threeBet)}>{formatRate(s.threeBet)}</td>
+                    <td>
+                      {s.aggressionFactor === null ? '-' : s.aggressionFactor.toFixed(1)}
+                      {profile && <span className="text-slate-600"> ({profile.aggression})</span>}
+                    </td>
+                    <td>{formatRate(s.wtsd)}</td>
+                    <td>{formatRate(s.wsd)}</td>
+                    <td className={s.bbPer100 >= 0 ? 'text-emerald-400' : 'text-red-400'}>{s.bbPer100.toFixed(1)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+        <div className="mt-3 text-[10px] text-slate-600">
+          Bot columns are tinted against your numbers (green = higher than you). Bracketed values are the bot's configured profile.
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsDashboard;
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { CashGameState, Player } from '../types';
+import { getBuyInRange, getLedgerNet } from '../utils/cashGame';
+import { LogOut, PlusCircle } from 'lucide-react';
+
+interface TableLedgerProps {
+  cashGame: CashGameState;
+  players: Player[];
+  canManageChips: boolean; // Buy-ins and leaving only happen between hands
+  onAddChips?: (amount: number) => void;
+  onLeave?: () => void;
+}
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+const TableLedger: React.FC<TableLedgerProps> = ({ cashGame, players, canManageChips, onAddChips, onLeave }) => {
+  const human = players.find(p => p.isHuman);
+  const range = human ? getBuyInRange(cashGame.rules, human.chips) : { min: 0, max: 0 };
+  const [amount, setAmount] = useState(range.max);
+
+  // Default to filling up to the max whenever the stack changes
+  useEffect(() => { setAmount(range.max); }, [range.max]);
+
+  const stackOf = (playerId: string) => players.find(p => p.id === playerId)?.chips ?? 0;
+  const canAdd = canManageChips && range.max > 0 && amount >= range.min && amount <= range.max;
+
+  return (
+    <div className="p-2 w-72 bg-slate-900/50 font-mono text-xs">
+      <div className="grid grid-cols-[1fr_3.5rem_3.5rem_3.5rem] gap-x-2 text-[10px] uppercase text-slate-500 pb-1 border-b border-slate-800">
+        <span>Player</span><span className="text-right">In</span><span className="text-right">Out</span><span className="text-right">Net</span>
+      </div>
+      {cashGame.ledger.map(entry => {
+        const net = getLedgerNet(entry, stackOf(entry.playerId));
+        return (
+          <div key={entry.playerId} className={`grid grid-cols-[1fr_3.5rem_3.5rem_3.5rem] gap-x-2 py-0.5 ${entry.isSeated ? 'text-slate-300' : 'text-slate-600'}`}>
+            <span className="truncate">
+              {entry.name}{!entry.isSeated && <span className="text-[9px] uppercase"> (left)</span>}
+            </span>
+            <span className="text-right">{entry.boughtIn}</span>
+            <span className="text-right">{entry.isSeated ? stackOf(entry.playerId) : entry.cashedOut}</span>
+            <span className={`text-right ${net > 0 ? 'text-emerald-400' : net < 0 ? 'text-red-400' : ''}`}>{signed(net)}</span>
+          </div>
+        );
+      })}
+
+      {human && onAddChips && onLeave && (
+        <div className="mt-2 pt-2 border-t border-slate-800 flex flex-col gap-1.5">
+          <div className="text-[10px] text-slate-500">
+            Buy-in {cashGame.rules.minBuyIn}-{cashGame.rules.maxBuyIn}
+            {!canManageChips && ' · between hands only'}
+          </div>
+          <div className="flex gap-1.5">
+            <input
+              type="number"
+              min={range.min}
+              max={range.max}
+              value={amount}
+              onChange={(e) => setAmount(Number(e.target.value) || 0)}
+              disabled={!canManageChips || range.max === 0}
+              className="w-20 px-2 py-1 bg-slate-950 border border-slate-700 rounded text-slate-200 focus:outline-none focus:border-emerald-500 disabled:opacity-50"
+            />
+            <button
+              onClick={() => onAddChips(amount)}
+              disabled={!canAdd}
+              className="flex-1 flex items-center justify-center gap-1 rounded bg-emerald-800 hover:bg-emerald-700 text-emerald-100 font-bold uppercase disabled:opacity-40 disabled:hover:bg-emerald-800"
+            >
+              <PlusCircle size={12} /> {human.chips > 0 ? 'Top up' : 'Rebuy'}
+            </button>
+            <button
+              onClick={onLeave}
+              disabled={!canManageChips}
+              className="flex items-center gap-1 px-2 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 font-bold uppercase disabled:opacity-40"
+              title="Cash out and end the session"
+            >
+              <LogOut size={12} /> Leave
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TableLedger;
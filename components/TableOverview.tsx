@@ -0,0 +1,64 @@
+import React, { useEffect } from 'react';
+import { GameState } from '../types';
+import { summarizeTables } from '../utils/multiTable';
+import { formatBlinds, getTournamentBlinds } from '../utils/tournament';
+import { LayoutGrid, X } from 'lucide-react';
+
+interface TableOverviewProps {
+  gameState: GameState;
+  onClose: () => void;
+}
+
+const TableOverview: React.FC<TableOverviewProps> = ({ gameState, onClose }) => {
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const { tables, playersLeft, averageStack } = summarizeTables(gameState);
+  const tournament = gameState.tournament;
+  const bigBlind = tournament ? getTournamentBlinds(tournament).bigBlind : 0;
+  const leader = tables.flatMap(t => t.players).sort((a, b) => b.chips - a.chips)[0];
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/85 backdrop-blur-sm flex items-center justify-center animate-deal" onClick={onClose}>
+      <div className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-4 max-w-5xl w-full mx-4 font-mono text-xs max-h-[85vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-3 mb-3">
+          <LayoutGrid size={16} className="text-yellow-400" />
+          <span className="text-yellow-400 font-bold uppercase tracking-wider text-sm">Tournament Tables</span>
+          <button onClick={onClose} className="ml-auto text-slate-400 hover:text-white p-1 hover:bg-slate-700 rounded" title="Close tables">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex gap-6 mb-3 text-slate-400">
+          <span>Players <span className="text-white">{playersLeft}/{tournament?.entrants ?? playersLeft}</span></span>
+          <span>Tables <span className="text-white">{tables.length}</span></span>
+          <span>Average stack <span className="text-white">{averageStack}</span>{bigBlind > 0 && <span className="text-slate-500"> ({Math.round(averageStack / bigBlind)} bb)</span>}</span>
+          {leader && <span>Chip leader <span className="text-emerald-400">{leader.name} ({leader.chips})</span></span>}
+          {tournament && <span>Level {tournament.level + 1} <span className="text-white">{formatBlinds(getTournamentBlinds(tournament))}</span></span>}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {tables.map(table => (
+            <div key={table.id} className={`rounded-lg border p-2 ${table.hasHuman ? 'border-emerald-600 bg-emerald-950/30' : 'border-slate-700 bg-slate-800/40'}`}>
+              <div className="flex justify-between mb-1 font-bold text-slate-300">
+                <span>Table {table.id}{table.hasHuman && <span className="text-emerald-400"> · You</span>}</span>
+                <span className="text-slate-500">{table.players.length} seated · {table.chips}</span>
+              </div>
+              {table.players.map(p => (
+                <div key={p.id} className="flex justify-between py-0.5">
+                  <span className={p.isHuman ? 'text-emerald-300 font-bold' : 'text-slate-400'}>{p.name}</span>
+                  <span className={p.chips >= averageStack ? 'text-slate-200' : 'text-slate-500'}>{p.chips}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TableOverview;
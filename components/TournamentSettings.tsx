@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { TournamentStructure } from '../types';
+import { DEFAULT_TOURNAMENT, FRIEND_NAMES } from '../constants';
+import { parseBlindSchedule, formatBlindSchedule, getPrizePool } from '../utils/tournament';
+import { Trophy, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface TournamentSettingsProps {
+  structure: TournamentStructure;
+  onChange: (structure: TournamentStructure) => void;
+}
+
+const inputClass = "w-full px-2 py-1 bg-slate-950 border border-slate-700 rounded text-slate-200 focus:outline-none focus:border-yellow-500";
+
+// "50/30/20" <-> [0.5, 0.3, 0.2]
+const formatPayouts = (payouts: number[]) => payouts.map(p => Math.round(p * 100)).join('/');
+const parsePayouts = (text: string): number[] => {
+  const shares = text.split('/').map(part => Number(part.trim()));
+  if (shares.some(n => !Number.isFinite(n) || n <= 0)) throw new Error('Payouts are percentages like 50/30/20');
+  const total = shares.reduce((sum, n) => sum + n, 0);
+  if (total !== 100) throw new Error(`Payouts add up to ${total}%, not 100%`);
+  return shares.map(n => n / 100);
+};
+
+const TournamentSettings: React.FC<TournamentSettingsProps> = ({ structure, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [scheduleText, setScheduleText] = useState(formatBlindSchedule(structure.levels));
+  const [payoutText, setPayoutText] = useState(formatPayouts(structure.payouts));
+  const [error, setError] = useState<string | null>(null);
+
+  // Free-text fields only apply once they parse, so a half-typed schedule never reaches a run
+  const commit = (apply: () => Partial<TournamentStructure>) => {
+    try {
+      onChange({ ...structure, ...apply() });
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const reset = () => {
+    onChange(DEFAULT_TOURNAMENT);
+    setScheduleText(formatBlindSchedule(DEFAULT_TOURNAMENT.levels));
+    setPayoutText(formatPayouts(DEFAULT_TOURNAMENT.payouts));
+    setError(null);
+  };
+
+  return (
+    <div className="mt-4 w-full max-w-md bg-slate-900/80 border border-slate-700 rounded-xl p-3 font-mono text-xs">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 text-slate-400 font-bold uppercase tracking-wider"
+      >
+        <Trophy size={12} /> Tournament Structure
+        <span className="ml-auto">{open ? <ChevronUp size={12} /> : <ChevronDown size={12} />}</span>
+      </button>
+
+      {open && (
+        <div className="mt-3 flex flex-col gap-2 text-slate-400">
+          <div className="flex gap-2">
+            <label className="flex-1">
+              Levels change every
+              <input
+                type="number"
+                min={1}
+                value={structure.levelLength}
+                onChange={(e) => onChange({ ...structure, levelLength: Math.max(1, Number(e.target.value) || 1) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex-1">
+              &nbsp;
+              <select
+                value={structure.levelBy}
+                onChange={(e) => onChange({ ...structure, levelBy: e.target.value as TournamentStructure['levelBy'] })}
+                className={inputClass}
+              >
+                <option value="hands">hands</option>
+                <option value="minutes">minutes</option>
+              </select>
+            </label>
+          </div>
+
+          <label>
+            Blinds <span className="text-slate-600">(small/big or small/big/ante)</span>
+            <textarea
+              value={scheduleText}
+              onChange={(e) => setScheduleText(e.target.value)}
+              onBlur={() => commit(() => ({ levels: parseBlindSchedule(scheduleText) }))}
+              rows={3}
+              className={`${inputClass} resize-none`}
+            />
+          </label>
+
+          <div className="flex gap-2">
+            <label className="flex-1">
+              Buy-in ($)
+              <input
+                type="number"
+                min={0}
+                value={structure.buyIn}
+                onChange={(e) => onChange({ ...structure, buyIn: Math.max(0, Number(e.target.value) || 0) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex-1">
+              Payouts (%)
+              <input
+                value={payoutText}
+                onChange={(e) => setPayoutText(e.target.value)}
+                onBlur={() => commit(() => ({ payouts: parsePayouts(payoutText) }))}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          {error && <div className="text-red-400">{error}</div>}
+          <div className="flex justify-between items-center text-slate-500">
+            <span>Prize pool: ${getPrizePool(structure, FRIEND_NAMES.length + 1)}</span>
+            <button onClick={reset} className="hover:text-white">Reset to league default</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TournamentSettings;
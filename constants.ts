@@ -1,8 +1,29 @@
-import { Rank, Suit, Perk } from './types';
+import { Rank, Suit, Perk, BlindLevel, TournamentStructure, CashGameRules } from './types';
 
 export const STARTING_CHIPS = 1000; // $40 buy-in equivalent representation
 export const BIG_BLIND = 20;
 export const SMALL_BLIND = 10;
+export const CASH_BLINDS: BlindLevel = { smallBlind: SMALL_BLIND, bigBlind: BIG_BLIND, ante: 0 };
+
+// NGPL league night sit-and-go: 8 entrants, antes from level 4, top three paid
+export const DEFAULT_TOURNAMENT: TournamentStructure = {
+  levels: [
+    { smallBlind: 10, bigBlind: 20, ante: 0 },
+    { smallBlind: 15, bigBlind: 30, ante: 0 },
+    { smallBlind: 25, bigBlind: 50, ante: 0 },
+    { smallBlind: 50, bigBlind: 100, ante: 10 },
+    { smallBlind: 75, bigBlind: 150, ante: 15 },
+    { smallBlind: 100, bigBlind: 200, ante: 25 },
+    { smallBlind: 150, bigBlind: 300, ante: 40 },
+    { smallBlind: 200, bigBlind: 400, ante: 50 },
+    { smallBlind: 300, bigBlind: 600, ante: 75 },
+    { smallBlind: 500, bigBlind: 1000, ante: 100 }
+  ],
+  levelBy: 'hands',
+  levelLength: 10,
+  buyIn: 40,
+  payouts: [0.5, 0.3, 0.2]
+};
 
 export const RANKS: Rank[] = [
   Rank.TWO, Rank.THREE, Rank.FOUR, Rank.FIVE, Rank.SIX, Rank.SEVEN,
@@ -25,6 +46,25 @@ export const FRIEND_NAMES = [
   "Rob"
 ];
 
+// League final: a multi-table tournament (the table view seats eight)
+export const MTT_ENTRANTS = 24;
+export const MTT_TABLE_SIZE = 8;
+
+// Regulars who take empty seats in cash games
+export const GUEST_NAMES = [
+  "Sam",
+  "Jess",
+  "Marcus",
+  "Tina"
+];
+
+export const DEFAULT_CASH_RULES: CashGameRules = {
+  minBuyIn: 400,   // 20 big blinds
+  maxBuyIn: 2000,  // 100 big blinds
+  botRebuyChance: 0.5,
+  botLeaveChance: 0.02
+};
+
 // 0.0 - 1.0 scales
 export interface BotPersonality {
   vpip: number;      // Voluntarily Put Money In Pot (Looseness). High = plays many hands.
@@ -41,13 +81,17 @@ export const BOT_PROFILES: Record<string, BotPersonality> = {
   "Pat": { vpip: 0.30, aggression: 0.4, bluff: 0.3, label: "Rookie" },
   "Noah": { vpip: 0.80, aggression: 0.1, bluff: 0.1, label: "Calling Station" },
   "Rob": { vpip: 0.90, aggression: 0.9, bluff: 0.9, label: "Maniac" },
+  "Sam": { vpip: 0.12, aggression: 0.3, bluff: 0.05, label: "Nit" },
+  "Jess": { vpip: 0.22, aggression: 0.7, bluff: 0.3, label: "Tight-Aggressive" },
+  "Marcus": { vpip: 0.40, aggression: 0.8, bluff: 0.5, label: "Loose-Aggressive" },
+  "Tina": { vpip: 0.55, aggression: 0.3, bluff: 0.2, label: "Loose-Passive" },
 };
 
 export const INITIAL_PERKS: Perk[] = [
   {
     id: 'odds_calc',
     name: 'Odds Calculator',
-    description: 'Permanently displays simple pot odds during your turn.',
+    description: 'Permanently displays pot odds and your equity in the coach panel.',
     cost: 150,
     type: 'PASSIVE',
     effect: () => {} // Handled in UI logic
@@ -0,0 +1,154 @@
+import { createServer } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import { LanClientMessage, LanServerMessage } from '../types';
+import {
+  LanTable, createLanTable, joinTable, disconnectSeat, leaveTable, rebuySeat, showSeatCards,
+  applyLanAction, getNextEvent, runEvent, skipEvent, getSeatInfo, viewFor, LanEvent
+} from './lanTable';
+
+// --- LAN Table Server ---
+// One authoritative table for the room. Browsers connect over WebSocket, sit down or watch, and
+// receive their own view of the table after every change. No external services are involved.
+//   npm run server            (NGPL_PORT=3001, NGPL_SEATS=6)
+
+const PORT = Number(process.env.NGPL_PORT) || 3001;
+const HEARTBEAT_MS = 15000;
+
+interface Connection {
+  playerId: string | null; // Null for spectators and before joining
+  alive: boolean;
+}
+
+let table: LanTable = createLanTable(Number(process.env.NGPL_SEATS) || 6);
+const connections = new Map<WebSocket, Connection>();
+let timer: ReturnType<typeof setTimeout> | undefined;
+
+const send = (socket: WebSocket, message: LanServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = () => {
+  const seats = getSeatInfo(table);
+  const spectators = [...connections.values()].filter(c => !c.playerId).length;
+  connections.forEach((connection, socket) => send(socket, {
+    type: 'state',
+    state: viewFor(table, connection.playerId),
+    you: connection.playerId,
+    seats,
+    spectators,
+    actionDeadline: table.actionDeadline
+  }));
+};
+
+// A single timer drives bots, turn clocks and the next deal
+const schedule = () => {
+  if (timer) clearTimeout(timer);
+  const event = getNextEvent(table, Date.now());
+  if (!event) return;
+  timer = setTimeout(() => runScheduled(event), Math.max(0, event.at - Date.now()));
+};
+
+// A throw inside a timer would take the whole server down, so log it and move the table on
+const runScheduled = (event: LanEvent) => {
+  try {
+    update(current => runEvent(current, event, Date.now()));
+  } catch (error) {
+    console.error(`Table ${event.kind} failed:`, error);
+    try {
+      update(current => skipEvent(current, event, Date.now()));
+    } catch (skipError) {
+      console.error('Could not skip past it:', skipError);
+    }
+  }
+};
+
+const update = (change: (current: LanTable) => LanTable) => {
+  table = change(table);
+  broadcast();
+  schedule();
+};
+
+const handleMessage = (socket: WebSocket, connection: Connection, message: LanClientMessage) => {
+  const now = Date.now();
+  switch (message.type) {
+    case 'join': {
+      const joined = joinTable(table, message.name, message.token);
+      if (connection.playerId && connection.playerId !== joined.seat.playerId) throw new Error('Leave your seat before taking another');
+      connection.playerId = joined.seat.playerId;
+      send(socket, { type: 'welcome', playerId: joined.seat.playerId, token: joined.seat.token });
+      update(() => joined.table);
+      break;
+    }
+    case 'spectate':
+      broadcast();
+      break;
+    case 'action':
+      if (!connection.playerId) throw new Error('Spectators cannot act');
+      update(current => applyLanAction(current, connection.playerId!, message.action, now));
+      break;
+    case 'show':
+      if (!connection.playerId) throw new Error('Spectators have no cards to show');
+      update(current => showSeatCards(current, connection.playerId!, message.cardIds));
+      break;
+    case 'rebuy':
+      if (!connection.playerId) throw new Error('Spectators cannot rebuy');
+      update(current => rebuySeat(current, connection.playerId!));
+      break;
+    case 'leave':
+      if (connection.playerId) update(current => leaveTable(current, connection.playerId!));
+      connection.playerId = null;
+      break;
+  }
+};
+
+const server = createServer((_, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end('NGPL table server - connect with the app\'s "LAN Table" screen\n');
+});
+
+const wss = new WebSocketServer({ server });
+
+wss.on('connection', (socket: WebSocket) => {
+  const connection: Connection = { playerId: null, alive: true };
+  connections.set(socket, connection);
+
+  socket.on('pong', () => { connection.alive = true; });
+
+  socket.on('message', (data: Buffer) => {
+    try {
+      handleMessage(socket, connection, JSON.parse(data.toString()) as LanClientMessage);
+    } catch (error) {
+      send(socket, { type: 'error', message: (error as Error).message });
+    }
+  });
+
+  socket.on('close', () => {
+    connections.delete(socket);
+    // A reconnect may already have claimed the seat on a new socket
+    const reclaimed = [...connections.values()].some(c => c.playerId === connection.playerId);
+    if (connection.playerId && !reclaimed) update(current => disconnectSeat(current, connection.playerId!));
+    else broadcast();
+  });
+
+  broadcast();
+});
+
+// Drops sockets that stopped answering (laptop lids closed) so their seats time out promptly
+setInterval(() => {
+  connections.forEach((connection, socket) => {
+    try {
+      if (!connection.alive) {
+        socket.terminate();
+        return;
+      }
+      connection.alive = false;
+      socket.ping();
+    } catch (error) {
+      console.error('Heartbeat failed:', error);
+    }
+  });
+}, HEARTBEAT_MS);
+
+server.listen(PORT, () => {
+  console.log(`NGPL table server listening on ws://0.0.0.0:${PORT}`);
+});
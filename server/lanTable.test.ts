@@ -0,0 +1,70 @@
+import { createLanTable, joinTable, disconnectSeat, dealNextHand, getNextEvent, runEvent, skipEvent, viewFor } from './lanTable';
+
+declare var describe: any;
+declare var test: any;
+
+describe('LAN Table Tests', () => {
+
+  test('joinTable: a token or the same name reclaims a dropped seat; duplicates and full tables are refused', () => {
+    const first = joinTable(createLanTable(2, 7), 'Ana');
+    const second = joinTable(first.table, 'Ben');
+
+    const reclaimed = joinTable(second.table, 'ignored', first.seat.token);
+    if (reclaimed.seat.playerId !== first.seat.playerId) throw new Error('A token should reclaim its seat');
+
+    let threw = false;
+    try { joinTable(second.table, 'ana'); } catch { threw = true; }
+    if (!threw) throw new Error('A connected name should not be taken twice');
+
+    const dropped = disconnectSeat(second.table, first.seat.playerId);
+    if (joinTable(dropped, 'Ana').seat.playerId !== first.seat.playerId) throw new Error('The same name should reclaim a dropped seat');
+
+    threw = false;
+    try { joinTable(second.table, 'Cat'); } catch { threw = true; }
+    if (!threw) throw new Error('A full table should refuse new players');
+
+    // Mid-hand, a dropped seat's cards are only handed back to its token
+    const midHand = disconnectSeat(dealNextHand(second.table, 0), first.seat.playerId);
+    threw = false;
+    try { joinTable(midHand, 'Ana'); } catch { threw = true; }
+    if (!threw) throw new Error('A name alone should not reclaim a seat mid-hand');
+    if (joinTable(midHand, 'Ana', first.seat.token).seat.playerId !== first.seat.playerId) throw new Error('The token should still work mid-hand');
+  });
+
+  test('skipEvent: a failed turn folds the seat to act and a failed deal waits for the next one', () => {
+    const joined = joinTable(createLanTable(3, 5), 'Ana');
+    const retry = skipEvent(joined.table, { kind: 'deal', at: 0 }, 100);
+    if (getNextEvent(retry, 100)!.at <= 100) throw new Error('A failed deal should not be retried straight away');
+
+    const table = dealNextHand(joined.table, 0);
+    const actor = table.game!.players[table.game!.currentPlayerIndex];
+    const skipped = skipEvent(table, getNextEvent(table, 0)!, 0);
+    if (skipped.game!.players.find(p => p.id === actor.id)!.isActive) throw new Error('The seat to act should be folded');
+  });
+
+  test('viewFor and timeouts: only your own cards are sent, and an away player is folded or checked', () => {
+    const joined = joinTable(createLanTable(3, 11), 'Ana');
+    let table = dealNextHand(joined.table, 0);
+
+    const view = viewFor(table, joined.seat.playerId)!;
+    const me = view.players.find(p => p.id === joined.seat.playerId)!;
+    if (me.hand.length !== 2 || !me.isHuman) throw new Error('The viewer should see their own hand');
+    if (view.players.some(p => p.id !== me.id && (p.hand.length > 0 || p.hiddenCards !== 2))) throw new Error('Opponent hands should be hidden');
+    if (view.deck.length !== 0 || view.seed !== undefined || view.runSeed !== undefined) throw new Error('The deck and seeds must not be sent');
+
+    const spectator = viewFor(table, null)!;
+    if (spectator.players.some(p => p.hand.length > 0 || p.isHuman)) throw new Error('Spectators should see no hole cards');
+
+    // Ana sits first and holds the button, so three-handed she is first to act pre-flop
+    const actor = () => table.game!.players[table.game!.currentPlayerIndex];
+    if (actor().id !== joined.seat.playerId) throw new Error(`Ana should act first, got ${actor().name}`);
+
+    // Drop her connection: facing the big blind, her turn times out straight away into a fold
+    table = disconnectSeat(table, joined.seat.playerId);
+    const event = getNextEvent(table, 0)!;
+    if (event.kind !== 'timeout' || event.at !== 0) throw new Error('An away player should time out straight away');
+    const after = runEvent(table, event, 0);
+    if (!after.game!.roundLog.some(l => l === 'Ana ran out of time')) throw new Error('The timeout should be logged');
+    if (after.game!.players.find(p => p.id === joined.seat.playerId)!.isActive) throw new Error('Facing a bet, the timeout should fold her');
+  });
+});
@@ -0,0 +1,267 @@
+import { GameState, GamePhase, Player, LanSeatInfo, PlayerAction } from '../types';
+import { GameEngine } from '../utils/GameEngine';
+import { getBotDecision } from '../utils/poker';
+import { createCashGame, addChips, cashOut } from '../utils/cashGame';
+import { createSeed } from '../utils/random';
+import { projectStateFor } from '../utils/projection';
+import { isActionError } from '../utils/betting';
+import { FRIEND_NAMES, GUEST_NAMES, AI_PERSONALITIES, STARTING_CHIPS, DEFAULT_CASH_RULES } from '../constants';
+
+// --- LAN Table ---
+// Everything the multiplayer server decides, without sockets or timers: who sits where, whose
+// turn it is, what happens when a clock runs out, and what each connection is allowed to see.
+// The table runs as a cash game, so busted bots rebuy or are replaced like in single player.
+
+export const LAN_ACTION_MS = 30000;     // A human's turn before they are checked or folded
+export const LAN_BOT_MS = 900;          // Bots pause like the single-player table
+export const LAN_NEXT_HAND_MS = 6000;   // Time to read the showdown
+export const LAN_MAX_SEATS = 8;         // The table view seats eight
+
+export interface LanSeat {
+  playerId: string;
+  name: string;
+  token: string;          // Lets a dropped browser reclaim the seat
+  connected: boolean;
+  status: LanSeatInfo['status'];
+}
+
+export interface LanTable {
+  game: GameState | null; // Null until the first hand is dealt
+  humans: LanSeat[];
+  seats: number;          // Bots fill every seat the humans don't
+  runSeed: number;
+  nextHumanId: number;
+  actionDeadline?: number; // When the human to act is checked or folded for them
+  handEndedAt?: number;   // When the last hand reached showdown
+}
+
+export type LanEvent = { kind: 'deal' | 'bot' | 'timeout'; at: number };
+
+export const createLanTable = (seats: number = 6, runSeed: number = createSeed()): LanTable => ({
+  game: null,
+  humans: [],
+  seats: Math.min(LAN_MAX_SEATS, Math.max(2, seats)),
+  runSeed,
+  nextHumanId: 1
+});
+
+const isBetting = (game: GameState | null): game is GameState =>
+  !!game && game.phase !== GamePhase.SHOWDOWN && game.phase !== GamePhase.GAME_OVER;
+
+const findSeat = (table: LanTable, playerId: string) => table.humans.find(h => h.playerId === playerId);
+
+const updateSeat = (table: LanTable, playerId: string, change: Partial<LanSeat>): LanTable =>
+  ({ ...table, humans: table.humans.map(h => h.playerId === playerId ? { ...h, ...change } : h) });
+
+// --- Seats ---
+
+/**
+ * A new player waits for the next deal. A returning token reclaims its seat at any time; the same
+ * name on a disconnected seat (a friend switching laptops) only between hands, so nobody can pick
+ * up a stranger's hole cards by typing their name. Throws when the table is full or the name
+ * belongs to someone still connected.
+ */
+export const joinTable = (table: LanTable, name: string, token?: string): { table: LanTable; seat: LanSeat } => {
+  const trimmed = name.trim().slice(0, 16);
+  const sameName = (h: LanSeat) => h.name.toLowerCase() === trimmed.toLowerCase();
+  const returning = table.humans.find(h =>
+    (token && h.token === token) || (!h.connected && h.status !== 'leaving' && sameName(h) && !isBetting(table.game)));
+  if (returning) {
+    const seat = { ...returning, connected: true };
+    return { table: updateSeat(table, seat.playerId, seat), seat };
+  }
+
+  if (!trimmed) throw new Error('Pick a name to sit down');
+  const taken = table.humans.find(sameName);
+  if (taken && !taken.connected && taken.status !== 'leaving') throw new Error(`${taken.name} can sit back down after this hand`);
+  if (taken) throw new Error(`${trimmed} is already at the table`);
+  if (table.humans.filter(h => h.status !== 'leaving').length >= table.seats) throw new Error('The table is full - you can still watch');
+
+  const seat: LanSeat = { playerId: `lan_${table.nextHumanId}`, name: trimmed, token: crypto.randomUUID(), connected: true, status: 'waiting' };
+  return { table: { ...table, humans: [...table.humans, seat], nextHumanId: table.nextHumanId + 1 }, seat };
+};
+
+// The seat is kept; their turns time out straight away until they come back
+export const disconnectSeat = (table: LanTable, playerId: string): LanTable => updateSeat(table, playerId, { connected: false });
+
+// Leaves at the next deal (straight away if they never sat in); a bot takes the seat
+export const leaveTable = (table: LanTable, playerId: string): LanTable => {
+  const seat = findSeat(table, playerId);
+  if (!seat) return table;
+  if (seat.status === 'waiting') return { ...table, humans: table.humans.filter(h => h !== seat) };
+  return updateSeat(table, playerId, { status: 'leaving', connected: false });
+};
+
+// Busted humans reload to the league stack between hands
+export const rebuySeat = (table: LanTable, playerId: string): LanTable => {
+  if (!table.game || isBetting(table.game)) throw new Error('Rebuys happen between hands');
+  return { ...table, game: addChips(table.game, playerId, STARTING_CHIPS) };
+};
+
+// A voluntary show once the hand is over
+export const showSeatCards = (table: LanTable, playerId: string, cardIds: string[]): LanTable => {
+  if (!table.game || isBetting(table.game)) throw new Error('Cards are shown after the hand');
+  return { ...table, game: GameEngine.showCards(table.game, playerId, cardIds) };
+};
+
+const createBot = (table: LanTable, players: Player[], index: number): Player => {
+  const taken = new Set([...players.map(p => p.name), ...table.humans.map(h => h.name)]);
+  const name = [...FRIEND_NAMES, ...GUEST_NAMES].find(n => !taken.has(n)) || `Bot ${index + 1}`;
+  return {
+    id: `bot_${createSeed().toString(36)}`,
+    name,
+    chips: STARTING_CHIPS,
+    hand: [],
+    isHuman: false,
+    isActive: true,
+    isAllIn: false,
+    currentBet: 0,
+    position: '',
+    avatarSeed: index * 13 + 7,
+    personality: AI_PERSONALITIES[index % AI_PERSONALITIES.length]
+  };
+};
+
+const createHumanPlayer = (seat: LanSeat): Player => ({
+  id: seat.playerId,
+  name: seat.name,
+  chips: STARTING_CHIPS,
+  hand: [],
+  isHuman: true,
+  isActive: true,
+  isAllIn: false,
+  currentBet: 0,
+  position: ''
+});
+
+// Swaps the seat at `index` for `player`, settling the ledger for whoever stood up
+const replaceSeat = (game: GameState, index: number, player: Player): GameState => {
+  const afterLeaving = cashOut(game, game.players[index].id);
+  const cash = afterLeaving.cashGame!;
+  return {
+    ...afterLeaving,
+    players: afterLeaving.players.map((p, i) => i === index ? player : p),
+    cashGame: { ...cash, ledger: [...cash.ledger, { playerId: player.id, name: player.name, boughtIn: player.chips, cashedOut: 0, isSeated: true }] },
+    roundLog: [...afterLeaving.roundLog, `${player.name} sits down with ${player.chips}`]
+  };
+};
+
+// Leavers hand their seat to a bot, then waiting humans take bot seats (busted ones first)
+const applySeatChanges = (table: LanTable, game: GameState): { table: LanTable; game: GameState } => {
+  let next = game;
+  table.humans.filter(h => h.status === 'leaving').forEach(seat => {
+    const index = next.players.findIndex(p => p.id === seat.playerId);
+    if (index >= 0) next = replaceSeat(next, index, createBot(table, next.players, index));
+  });
+
+  table.humans.filter(h => h.status === 'waiting').forEach(seat => {
+    const bots = next.players.map((p, i) => ({ p, i })).filter(({ p }) => !p.isHuman).sort((a, b) => a.p.chips - b.p.chips);
+    if (bots.length > 0) next = replaceSeat(next, bots[0].i, createHumanPlayer(seat));
+  });
+
+  const humans = table.humans
+    .filter(h => h.status !== 'leaving')
+    .map(h => h.status === 'waiting' && next.players.some(p => p.id === h.playerId) ? { ...h, status: 'seated' as const } : h);
+  return { table: { ...table, humans }, game: next };
+};
+
+const hasConnectedPlayers = (table: LanTable) => table.humans.some(h => h.connected && h.status !== 'leaving');
+
+// --- Turns ---
+
+// Skips seats that can't act (folded, all-in) so the table always waits on a real decision
+const settleTurn = (game: GameState): GameState => {
+  let next = game;
+  for (let guard = 0; isBetting(next) && guard < 100; guard++) {
+    const player = next.players[next.currentPlayerIndex];
+    if (player.isActive && !player.isAllIn) break;
+    next = GameEngine.nextTurn(next);
+  }
+  return next;
+};
+
+const withGame = (table: LanTable, game: GameState, now: number): LanTable => {
+  const settled = settleTurn(game);
+  const actor = isBetting(settled) ? settled.players[settled.currentPlayerIndex] : undefined;
+  return {
+    ...table,
+    game: settled,
+    actionDeadline: actor?.isHuman ? now + LAN_ACTION_MS : undefined,
+    handEndedAt: isBetting(settled) ? undefined : table.handEndedAt ?? now
+  };
+};
+
+export const dealNextHand = (table: LanTable, now: number): LanTable => {
+  if (isBetting(table.game) || !hasConnectedPlayers(table)) return table;
+
+  if (!table.game) {
+    const seated = table.humans.filter(h => h.status === 'waiting').slice(0, table.seats).map(createHumanPlayer);
+    const players = [...seated];
+    while (players.length < table.seats) players.push(createBot(table, players, players.length));
+    const humans = table.humans.map(h => players.some(p => p.id === h.playerId) ? { ...h, status: 'seated' as const } : h);
+    const cashGame = createCashGame(DEFAULT_CASH_RULES, players);
+    return withGame({ ...table, humans, handEndedAt: undefined }, GameEngine.setupFirstHand(players, table.runSeed, { cashGame }), now);
+  }
+
+  const changed = applySeatChanges(table, table.game);
+  return withGame({ ...changed.table, handEndedAt: undefined }, GameEngine.setupNextHand(changed.game, now), now);
+};
+
+// A human's action, checked against the legal actions; throws with the reason when refused
+export const applyLanAction = (table: LanTable, playerId: string, action: PlayerAction, now: number): LanTable => {
+  if (!table.game) throw new Error('No hand in progress');
+  const acted = GameEngine.applyAction(table.game, playerId, action);
+  if (isActionError(acted)) throw new Error(acted.message);
+  return withGame(table, GameEngine.nextTurn(acted), now);
+};
+
+// What the server should do next and when; null while waiting on nobody (no one connected)
+export const getNextEvent = (table: LanTable, now: number): LanEvent | null => {
+  const game = table.game;
+  if (!isBetting(game)) {
+    if (!hasConnectedPlayers(table)) return null;
+    return { kind: 'deal', at: game || table.handEndedAt !== undefined ? (table.handEndedAt ?? now) + LAN_NEXT_HAND_MS : now };
+  }
+
+  const actor = game.players[game.currentPlayerIndex];
+  if (!actor.isHuman) return { kind: 'bot', at: now + LAN_BOT_MS };
+  const seat = findSeat(table, actor.id);
+  const away = !seat || !seat.connected || seat.status === 'leaving';
+  return { kind: 'timeout', at: away ? now : table.actionDeadline ?? now };
+};
+
+export const runEvent = (table: LanTable, event: LanEvent, now: number): LanTable => {
+  if (event.kind === 'deal') return dealNextHand(table, now);
+
+  const game = table.game;
+  if (!isBetting(game)) return table;
+  const actor = game.players[game.currentPlayerIndex];
+
+  if (event.kind === 'bot') {
+    return actor.isHuman ? table : withGame(table, GameEngine.nextTurn(GameEngine.applyDecision(game, actor, getBotDecision(actor, game))), now);
+  }
+
+  // Out of time: check when free, fold otherwise
+  const canCheck = game.currentBet <= actor.currentBet;
+  const timedOut = applyLanAction(table, actor.id, { type: canCheck ? 'CHECK' : 'FOLD' }, now);
+  return { ...timedOut, game: { ...timedOut.game!, roundLog: [...timedOut.game!.roundLog, `${actor.name} ran out of time`] } };
+};
+
+// When running an event throws, the seat to act is folded so the table can't stall on it; a
+// failed deal is retried after the usual pause
+export const skipEvent = (table: LanTable, event: LanEvent, now: number): LanTable => {
+  const game = table.game;
+  if (event.kind === 'deal' || !isBetting(game)) return { ...table, handEndedAt: now };
+  const actor = game.players[game.currentPlayerIndex];
+  const folded = GameEngine.nextTurn(GameEngine.foldPlayer(game, actor));
+  return withGame(table, { ...folded, roundLog: [...folded.roundLog, `${actor.name} was folded after a table error`] }, now);
+};
+
+// --- Views ---
+
+export const getSeatInfo = (table: LanTable): LanSeatInfo[] =>
+  table.humans.map(h => ({ name: h.name, connected: h.connected, status: h.status }));
+
+// What one connection may see; the deck, seeds and other players' cards stay on the server
+export const viewFor = (table: LanTable, viewerId: string | null): GameState | null =>
+  table.game && projectStateFor(table.game, viewerId);
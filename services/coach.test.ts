@@ -0,0 +1,82 @@
+import { getPokerAdvice, generateOpponentBanter, isCoachError } from './coach';
+import { validateCoachAdvice } from './coachSchema';
+import { createMockProvider, LlmProvider } from './llm';
+import { GamePhase, Card, Rank, Suit, CoachRequest } from '../types';
+import { getLocalAdvice } from './localCoach';
+
+declare var describe: any;
+declare var test: any;
+
+const c = (rank: Rank, suit: Suit): Card => ({ rank, suit, id: `${rank}${suit}` });
+const hand = [c(Rank.ACE, Suit.SPADES), c(Rank.KING, Suit.SPADES)];
+
+const request = (overrides: Partial<CoachRequest> = {}): CoachRequest => ({
+  hand, board: [], pot: 30, toCall: 20, stack: 1000, phase: GamePhase.PRE_FLOP, position: 'BTN', opponents: [], actions: [], ...overrides
+});
+
+const ask = (provider: LlmProvider) => getPokerAdvice(request(), provider);
+
+describe('Coach Provider Tests', () => {
+
+  test('getPokerAdvice: parses the provider reply and tags its source', async () => {
+    const provider = createMockProvider([JSON.stringify({ action: "RAISE", reasoning: "Test.", winProbability: "60%", raiseAmount: 90 })]);
+    const advice = await ask(provider);
+    if (isCoachError(advice) || advice.action !== "RAISE" || advice.source !== 'mock') throw new Error(`Unexpected advice ${JSON.stringify(advice)}`);
+    if (advice.raiseAmount !== 90) throw new Error(`Expected the suggested sizing to survive, got ${advice.raiseAmount}`);
+  });
+
+  test('getPokerAdvice: falls back to the offline coach when the provider fails', async () => {
+    const failing: LlmProvider = { id: 'openai', isAvailable: () => true, complete: () => Promise.reject(new Error('down')) };
+    const advice = await ask(failing);
+    if (isCoachError(advice) || advice.source !== 'local') throw new Error('Expected local advice after a provider error');
+  });
+
+  test('getPokerAdvice: retries malformed replies with a correction prompt', async () => {
+    const prompts: string[] = [];
+    const replies = ['I think you should raise!', '{"action": "call", "reasoning": "Pot odds are fine."}'];
+    const advice = await ask(createMockProvider(prompt => { prompts.push(prompt); return replies[prompts.length - 1]; }));
+    if (isCoachError(advice) || advice.action !== 'CALL') throw new Error(`Expected the corrected CALL, got ${JSON.stringify(advice)}`);
+    if (!prompts[1]?.includes('could not be used')) throw new Error('Second attempt should carry the correction prompt');
+  });
+
+  test('getPokerAdvice: gives up with a typed error after repeated bad replies', async () => {
+    const result = await ask(createMockProvider(['{"action": "dance"}']));
+    if (!isCoachError(result) || result.kind !== 'INVALID_RESPONSE' || result.attempts !== 3) throw new Error('Expected an INVALID_RESPONSE error');
+    if (result.fallback.source !== 'local') throw new Error('Error should carry offline advice');
+  });
+
+  test('validateCoachAdvice: normalizes sloppy model output', () => {
+    const spot = { potSize: 100, betToCall: 20, myStack: 500 };
+    const shove = validateCoachAdvice('```json\n{"action": "All-In", "reasoning": "Jam.", "winProbability": 0.62}\n```', spot);
+    if (!('advice' in shove) || shove.advice.action !== 'RAISE' || shove.advice.raiseAmount !== 480) throw new Error('All-in should become a max RAISE');
+    if (shove.advice.winProbability !== '62%') throw new Error(`Expected 62%, got ${shove.advice.winProbability}`);
+    const check = validateCoachAdvice('{"action": "check", "reasoning": "Free card."}', spot);
+    if (!('errors' in check)) throw new Error('CHECK facing a bet should be rejected');
+  });
+
+  test('generateOpponentBanter: uses the provider text', async () => {
+    const line = await generateOpponentBanter("River card dealt", createMockProvider(["Ship it!"]));
+    if (line !== "Ship it!") throw new Error(`Unexpected banter ${line}`);
+  });
+
+  test('getPokerAdvice: prompt carries position, betting history and opponent profiles', async () => {
+    let prompt = '';
+    const provider = createMockProvider(p => { prompt = p; return '{"action": "FOLD", "reasoning": "Ok."}'; });
+    await getPokerAdvice(request({
+      opponents: [{ name: 'Noah', chips: 940, currentBet: 20, isActive: true, isAllIn: false, position: 'BB', profile: 'Calling Station' }],
+      actions: [{ playerId: 'b', playerName: 'Noah', street: GamePhase.PRE_FLOP, type: 'POST_BB', amount: 20, totalBet: 20, potAfter: 30, board: [], isAllIn: false }]
+    }), provider);
+    for (const expected of ['Player Position: BTN', 'Noah (Calling Station, BB): 940 chips', 'PRE_FLOP: Noah posts big blind 20']) {
+      if (!prompt.includes(expected)) throw new Error(`Prompt is missing "${expected}"`);
+    }
+  });
+
+  test('getLocalAdvice: value bets thinner against a calling station', () => {
+    const board = [c(Rank.KING, Suit.HEARTS), c(Rank.SEVEN, Suit.CLUBS), c(Rank.TWO, Suit.DIAMONDS)];
+    const noah = { name: 'Noah', chips: 900, currentBet: 0, isActive: true, isAllIn: false, position: 'BB', profile: 'Calling Station' };
+    const spot = request({ hand: [c(Rank.KING, Suit.SPADES), c(Rank.NINE, Suit.SPADES)], board, toCall: 0, pot: 100, phase: GamePhase.FLOP });
+    const vsStation = getLocalAdvice({ ...spot, opponents: [noah, { ...noah, name: 'Nick', profile: 'Tight-Aggressive' }] });
+    if (vsStation.action !== 'RAISE' || !vsStation.reasoning.includes('Noah')) throw new Error(`Expected a thin value bet at Noah, got ${vsStation.action}: ${vsStation.reasoning}`);
+  });
+
+});
@@ -0,0 +1,95 @@
+import { CoachAdvice, CoachError, CoachRequest } from '../types';
+import { getLocalAdvice } from './localCoach';
+import { LlmProvider, getProvider } from './llm';
+import { loadSettings } from './settings';
+import { validateCoachAdvice, buildCorrectionPrompt } from './coachSchema';
+import { describeBettingHistory, describeOpponents } from './coachContext';
+
+// --- Coach Service ---
+// Builds coach/banter prompts and sends them to the provider chosen in settings.
+
+const MAX_COACH_ATTEMPTS = 3; // First ask plus two correction prompts
+
+export const isCoachError = (result: CoachAdvice | CoachError): result is CoachError => 'kind' in result;
+
+export const getPokerAdvice = async (
+  request: CoachRequest,
+  provider: LlmProvider = getProvider(loadSettings())
+): Promise<CoachAdvice | CoachError> => {
+  const localAdvice = () => getLocalAdvice(request);
+
+  // No key, no network or no server configured: the offline coach answers instead
+  if (!provider.isAvailable()) return localAdvice();
+
+  const { hand, board, pot, toCall, stack, phase, position } = request;
+  const activeOpponents = request.opponents.filter(o => o.isActive).length;
+  const handStr = hand.map(c => `${c.rank}${c.suit}`).join(',');
+  const boardStr = board.map(c => `${c.rank}${c.suit}`).join(',');
+
+  const prompt = `
+    You are a world-class poker coach (channeling the wisdom of legends like Doyle Brunson, Daniel Negreanu, and Phil Ivey).
+    Analyze the current Texas Hold'em situation and provide the best move.
+    
+    Context:
+    - Player Hand: [${handStr}]
+    - Community Cards (Board): [${boardStr}]
+    - Pot Size: ${pot} chips
+    - Cost to Call: ${toCall} chips
+    - Player Stack: ${stack} chips
+    - Player Position: ${position || 'Unknown'}
+    - Active Opponents: ${activeOpponents}
+    - Game Phase: ${phase}
+
+    Opponents (name, known playing style, position, stack, status):
+    ${describeOpponents(request).split('\n').join('\n    ')}
+
+    Betting so far ("You" is the player you are coaching):
+    ${describeBettingHistory(request.actions).split('\n').join('\n    ')}
+
+    Use what you know about specific opponents by name when it matters (e.g. "Noah calls everything, value bet thinner").
+    
+    Provide the response in strict JSON format with the following keys:
+    - action: "FOLD", "CHECK", "CALL", or "RAISE"
+    - reasoning: A short, witty, 2-sentence explanation. Try to channel the wisdom of poker legends or cite specific concepts like 'Gap Theory', 'Implied Odds', or 'Position' where relevant.
+    - winProbability: An estimated percentage string (e.g., "45%").
+    - potOdds: The pot odds expressed as a ratio (e.g., "3:1") if applicable.
+    - raiseAmount: For RAISE only, the chips to add on top of the call (a number, at most ${Math.max(0, stack - toCall)}).
+  `;
+
+  const spot = { potSize: pot, betToCall: toCall, myStack: stack, bigBlind: request.bigBlind };
+  let nextPrompt = prompt;
+  let lastErrors: string[] = [];
+
+  try {
+    for (let attempt = 1; attempt <= MAX_COACH_ATTEMPTS; attempt++) {
+      const text = await provider.complete(nextPrompt, { json: true });
+      const result = validateCoachAdvice(text, spot);
+      if ('advice' in result) return { ...result.advice, source: provider.id };
+
+      lastErrors = result.errors;
+      nextPrompt = buildCorrectionPrompt(prompt, text, result.errors);
+    }
+  } catch (error) {
+    // Transport problems (timeouts, server down) aren't the model's fault: quietly go offline
+    console.error(`Coach (${provider.id}) Error:`, error);
+    return localAdvice();
+  }
+
+  return {
+    kind: 'INVALID_RESPONSE',
+    message: `The ${provider.id} coach gave ${MAX_COACH_ATTEMPTS} unusable answers: ${lastErrors.join(' ')}`,
+    attempts: MAX_COACH_ATTEMPTS,
+    fallback: localAdvice()
+  };
+};
+
+export const generateOpponentBanter = async (situation: string, provider: LlmProvider = getProvider(loadSettings())): Promise<string> => {
+    if (!provider.isAvailable()) return "Let's play!";
+    
+    try {
+        const text = await provider.complete(`Generate a short, funny poker table banter line for a casual home game. Situation: ${situation}. Max 10 words.`);
+        return text || "Check!";
+    } catch (e) {
+        return "Your turn.";
+    }
+}
@@ -0,0 +1,59 @@
+import { CoachRequest, GameState, Player, HandAction } from '../types';
+import { getPositionLabel, getBotProfile, isDealtIn } from '../utils/poker';
+import { describeHandAction } from '../utils/replay';
+
+// --- Coach Context ---
+// Snapshot of everything the coach may reason about for the current decision, plus the
+// plain-text renderings used in LLM prompts.
+
+export const buildCoachRequest = (state: GameState, player: Player): CoachRequest => {
+  const positionOf = (p: Player) => getPositionLabel(state.players, state.dealerIndex, state.players.indexOf(p));
+
+  return {
+    hand: player.hand,
+    board: state.communityCards,
+    pot: state.pot,
+    toCall: Math.max(0, state.currentBet - player.currentBet),
+    stack: player.chips,
+    phase: state.phase,
+    position: positionOf(player),
+    opponents: state.players
+      .filter(p => p.id !== player.id && isDealtIn(p))
+      .map(p => ({
+        name: p.name,
+        chips: p.chips,
+        currentBet: p.currentBet,
+        isActive: p.isActive,
+        isAllIn: p.isAllIn,
+        position: positionOf(p),
+        profile: getBotProfile(p.name)?.label
+      })),
+    actions: state.actions || [],
+    bigBlind: state.blinds?.bigBlind
+  };
+};
+
+// "PRE_FLOP: Nick posts small blind 10, Noah posts big blind 20, You raises to 60"
+export const describeBettingHistory = (actions: HandAction[]): string => {
+  if (actions.length === 0) return 'No action yet.';
+
+  const streets: { street: string; lines: string[] }[] = [];
+  actions.forEach(action => {
+    let current = streets[streets.length - 1];
+    if (!current || current.street !== action.street) {
+      current = { street: action.street, lines: [] };
+      streets.push(current);
+    }
+    current.lines.push(`${action.playerName} ${describeHandAction(action)}`);
+  });
+
+  return streets.map(s => `${s.street}: ${s.lines.join(', ')}`).join('\n');
+};
+
+// "Noah (Calling Station, BB): 940 chips, in hand"
+export const describeOpponents = (request: CoachRequest): string =>
+  request.opponents.map(o => {
+    const tags = [o.profile, o.position].filter(Boolean).join(', ');
+    const status = !o.isActive ? 'folded' : o.isAllIn ? 'all-in' : 'in hand';
+    return `${o.name}${tags ? ` (${tags})` : ''}: ${o.chips} chips, ${status}`;
+  }).join('\n');
@@ -0,0 +1,115 @@
+import { CoachAction, CoachAdvice } from '../types';
+import { BIG_BLIND } from '../constants';
+
+// --- Coach Response Schema ---
+// Models return loosely-formatted JSON: lowercase actions, numbers as strings, prose around the object.
+// validateCoachAdvice turns a raw reply into a well-formed CoachAdvice, or lists what was wrong so the
+// caller can ask the model to correct itself.
+
+export interface CoachSpot {
+  potSize: number;
+  betToCall: number;
+  myStack: number;
+  bigBlind?: number; // Smallest raise worth suggesting; the cash-game big blind when missing
+}
+
+export type CoachValidation = { advice: CoachAdvice } | { errors: string[] };
+
+const ACTION_ALIASES: Record<string, CoachAction> = {
+  FOLD: 'FOLD', MUCK: 'FOLD',
+  CHECK: 'CHECK',
+  CALL: 'CALL',
+  RAISE: 'RAISE', BET: 'RAISE', 'RE-RAISE': 'RAISE', RERAISE: 'RAISE', '3-BET': 'RAISE',
+  'ALL-IN': 'RAISE', 'ALL IN': 'RAISE', ALLIN: 'RAISE', SHOVE: 'RAISE', JAM: 'RAISE', PUSH: 'RAISE'
+};
+
+const ALL_IN_WORDS = ['ALL-IN', 'ALL IN', 'ALLIN', 'SHOVE', 'JAM', 'PUSH'];
+
+// Three-quarter pot on top of the call, within what the stack allows
+export const suggestRaiseAmount = ({ potSize, betToCall, myStack, bigBlind = BIG_BLIND }: CoachSpot): number => {
+  const maxRaise = Math.max(0, myStack - betToCall);
+  const target = Math.round((potSize + betToCall) * 0.75);
+  return Math.min(maxRaise, Math.max(bigBlind, target));
+};
+
+// Pulls the first {...} block out of a reply, ignoring code fences and surrounding prose
+export const extractJson = (text: string): unknown => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end <= start) throw new Error("no JSON object found");
+  return JSON.parse(text.slice(start, end + 1));
+};
+
+export const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const normalizeAction = (value: unknown): CoachAction | undefined =>
+  typeof value === 'string' ? ACTION_ALIASES[value.trim().toUpperCase().replace(/_/g, '-')] : undefined;
+
+export const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number' && isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(/[^0-9.\-]/g, ''));
+    if (isFinite(parsed)) return parsed;
+  }
+  return undefined;
+};
+
+// Accepts 0.45, 45, "45", "45%" and returns "45%"
+const normalizePercent = (value: unknown): string | undefined => {
+  const n = toNumber(value);
+  if (n === undefined) return undefined;
+  const pct = n <= 1 && !(typeof value === 'string' && value.includes('%')) ? n * 100 : n;
+  return `${Math.round(Math.min(100, Math.max(0, pct)))}%`;
+};
+
+export const validateCoachAdvice = (text: string, spot: CoachSpot): CoachValidation => {
+  let raw: unknown;
+  try {
+    raw = extractJson(text);
+  } catch (error) {
+    return { errors: [`Reply was not valid JSON (${(error as Error).message}).`] };
+  }
+  if (!isJsonObject(raw)) return { errors: ['Reply must be a single JSON object.'] };
+
+  const errors: string[] = [];
+  const actionText = typeof raw.action === 'string' ? raw.action.trim().toUpperCase().replace(/_/g, '-') : '';
+  let action = normalizeAction(raw.action);
+  if (!action) errors.push(`"action" must be one of FOLD, CHECK, CALL, RAISE (got ${JSON.stringify(raw.action)}).`);
+
+  const reasoning = typeof raw.reasoning === 'string' ? raw.reasoning.trim() : '';
+  if (!reasoning) errors.push(`"reasoning" must be a non-empty string.`);
+
+  // Fix up actions that don't fit the spot rather than bouncing them back to the model
+  if (action === 'CALL' && spot.betToCall <= 0) action = 'CHECK';
+  if (action === 'RAISE' && spot.myStack <= spot.betToCall) action = 'CALL';
+  if (action === 'CHECK' && spot.betToCall > 0) {
+    errors.push(`"action" cannot be CHECK when facing a ${spot.betToCall} chip bet; choose FOLD, CALL or RAISE.`);
+  }
+
+  if (errors.length || !action) return { errors };
+
+  const advice: CoachAdvice = { action, reasoning };
+  const winProbability = normalizePercent(raw.winProbability);
+  if (winProbability) advice.winProbability = winProbability;
+  if (typeof raw.potOdds === 'string' && raw.potOdds.trim()) advice.potOdds = raw.potOdds.trim();
+
+  if (action === 'RAISE') {
+    const maxRaise = spot.myStack - spot.betToCall;
+    const requested = ALL_IN_WORDS.includes(actionText) ? maxRaise : toNumber(raw.raiseAmount);
+    advice.raiseAmount = requested === undefined
+      ? suggestRaiseAmount(spot)
+      : Math.round(Math.min(maxRaise, Math.max(Math.min(spot.bigBlind ?? BIG_BLIND, maxRaise), requested)));
+  }
+
+  return { advice };
+};
+
+export const buildCorrectionPrompt = (originalPrompt: string, reply: string, errors: string[]): string => `${originalPrompt}
+
+    Your previous reply could not be used:
+    ${errors.map(e => `- ${e}`).join('\n    ')}
+    Previous reply: ${reply.slice(0, 500)}
+
+    Reply again with ONLY the JSON object, no other text.
+  `;
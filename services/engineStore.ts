@@ -0,0 +1,27 @@
+import { GameState } from '../types';
+
+// --- Engine Store ---
+// The single-player engine state knows the deck, the seeds and every hole card. It lives here,
+// outside the component tree, so React (and its devtools) only ever hold projected views.
+// Components re-render on the version number, then read the state through getEngineState.
+
+type EngineUpdate = GameState | null | ((prev: GameState | null) => GameState | null);
+
+let engineState: GameState | null = null;
+let version = 0;
+const listeners = new Set<() => void>();
+
+export const getEngineState = () => engineState;
+
+export const getEngineVersion = () => version;
+
+export const setEngineState = (next: EngineUpdate): void => {
+  engineState = typeof next === 'function' ? next(engineState) : next;
+  version++;
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToEngine = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,52 @@
+import { reviewHand, reviewHandLocally, getReviewSpots } from './handReview';
+import { createMockProvider } from './llm';
+import { simulateSession } from '../utils/simulator';
+import { FRIEND_NAMES } from '../constants';
+import { HandHistoryEntry } from '../types';
+
+declare var describe: any;
+declare var test: any;
+
+// Seat 0 of a simulated session stands in for the human
+const playedHands = (): HandHistoryEntry[] =>
+  simulateSession(FRIEND_NAMES.slice(0, 4).map(name => ({ name })), { hands: 30, seed: 42 }).hands
+    .map(h => ({ ...h.entry, seats: h.entry.seats!.map((s, i) => ({ ...s, isHuman: i === 0 })) }))
+    .filter(entry => getReviewSpots(entry).length > 0);
+
+describe('Hand Review Tests', () => {
+
+  test('reviewHandLocally: grades every voluntary hero decision', () => {
+    const hands = playedHands();
+    if (hands.length === 0) throw new Error('Expected some hands where seat 0 acted');
+    hands.forEach(entry => {
+      const review = reviewHandLocally(entry);
+      const heroActions = entry.actions!.filter(a => a.playerId === 'sim_0' && !a.type.startsWith('POST'));
+      if (review.decisions.length !== heroActions.length) throw new Error(`Hand #${entry.handNumber}: expected ${heroActions.length} decisions`);
+      if (review.decisions.some(d => d.severity < 0 || d.severity > 3 || !d.comment)) throw new Error('Decisions need a 0-3 severity and a comment');
+      if (review.worstSeverity !== Math.max(0, ...review.decisions.map(d => d.severity))) throw new Error('worstSeverity should match the decisions');
+    });
+  });
+
+  test('getReviewSpots: the hero sees the real table, not an empty one', () => {
+    const spots = playedHands().flatMap(entry => getReviewSpots(entry).map(spot => ({ entry, spot })));
+    spots.forEach(({ entry, spot }) => {
+      const dealtIn = entry.seats!.filter(s => s.startingChips > 0).length;
+      if (spot.request.opponents.length !== dealtIn - 1) throw new Error(`Hand #${entry.handNumber}: expected ${dealtIn - 1} opponents, got ${spot.request.opponents.length}`);
+    });
+    const positions = new Set(spots.map(({ spot }) => spot.request.position));
+    if (!['SB', 'BB', 'CO'].some(p => positions.has(p))) throw new Error(`The hero should not always be on the button, got ${[...positions]}`);
+  });
+
+  test('reviewHand: uses the provider review and retries incomplete ones', async () => {
+    const entry = playedHands()[0];
+    const count = getReviewSpots(entry).length;
+    const decisions = Array.from({ length: count }, (_, i) => ({ index: i + 1, severity: i === 0 ? 2 : 0, comment: 'Noted.', better: i === 0 ? 'fold' : undefined }));
+    const replies = ['{"summary": "Missing decisions."}', JSON.stringify({ summary: 'Tough spot.', decisions })];
+    let calls = 0;
+    const review = await reviewHand(entry, createMockProvider(() => replies[Math.min(calls++, 1)]));
+    if (calls !== 2) throw new Error(`Expected one retry, got ${calls} calls`);
+    if (review.source !== 'mock' || review.summary !== 'Tough spot.') throw new Error('Expected the provider review');
+    if (review.worstSeverity !== 2 || review.decisions[0].better !== 'FOLD') throw new Error('Severity and better action should be normalized');
+  });
+
+});
@@ -0,0 +1,181 @@
+import { HandHistoryEntry, HandAction, HandReview, DecisionReview, CoachAction, CoachRequest } from '../types';
+import { buildReplayFrames, describeHandAction, isForcedBet } from '../utils/replay';
+import { buildCoachRequest, describeBettingHistory } from './coachContext';
+import { getLocalAdvice } from './localCoach';
+import { LlmProvider, getProvider } from './llm';
+import { loadSettings } from './settings';
+import { extractJson, isJsonObject, normalizeAction, toNumber, buildCorrectionPrompt } from './coachSchema';
+
+// --- Post-Hand Review ---
+// Walks the human's decisions in a finished hand and grades each one. The LLM gets the whole
+// action history; the offline reviewer replays every decision point through the local coach.
+
+export const SEVERITY_LABELS = ['Good', 'Inaccuracy', 'Mistake', 'Blunder'];
+const MAX_REVIEW_ATTEMPTS = 3;
+
+export interface ReviewSpot {
+  actionIndex: number;
+  action: HandAction;
+  request: CoachRequest; // What the hero was looking at right before acting
+}
+
+const AGGRESSION: Record<CoachAction, number> = { FOLD: 0, CHECK: 1, CALL: 1, RAISE: 2 };
+
+const toCoachAction = (action: HandAction): CoachAction =>
+  action.type === 'BET' || action.type === 'RAISE' ? 'RAISE' : action.type as CoachAction;
+
+// Rebuilds the table right before each of the hero's voluntary actions
+export const getReviewSpots = (entry: HandHistoryEntry): ReviewSpot[] => {
+  const hero = entry.seats?.find(s => s.isHuman);
+  if (!hero || !entry.actions) return [];
+
+  const frames = buildReplayFrames(entry);
+  const spots: ReviewSpot[] = [];
+
+  entry.actions.forEach((action, i) => {
+    if (action.playerId !== hero.id || isForcedBet(action)) return;
+
+    // frames[i] is the table after the previous action; a new street resets bets and deals cards
+    let state = { ...frames[i].state, actions: entry.actions!.slice(0, i) };
+    if (action.street !== state.phase) {
+      state = {
+        ...state,
+        phase: action.street,
+        communityCards: action.board,
+        currentBet: 0,
+        players: state.players.map(p => ({ ...p, currentBet: 0 }))
+      };
+    }
+
+    const player = state.players.find(p => p.id === hero.id)!;
+    spots.push({ actionIndex: i, action, request: buildCoachRequest(state, player) });
+  });
+
+  return spots;
+};
+
+const summarize = (decisions: DecisionReview[]): string => {
+  const worst = decisions.reduce<DecisionReview | null>((w, d) => (!w || d.severity > w.severity ? d : w), null);
+  if (!worst || worst.severity === 0) return "Clean hand. Nothing to fix here.";
+  const count = decisions.filter(d => d.severity > 0).length;
+  return `${count} questionable decision${count === 1 ? '' : 's'}. Worst spot: ${worst.street}, you ${worst.decision} (${SEVERITY_LABELS[worst.severity]}).`;
+};
+
+const finishReview = (decisions: DecisionReview[], source: HandReview['source'], summary?: string): HandReview => ({
+  summary: summary || summarize(decisions),
+  decisions,
+  worstSeverity: Math.max(0, ...decisions.map(d => d.severity)),
+  source,
+  createdAt: Date.now()
+});
+
+export const reviewHandLocally = (entry: HandHistoryEntry): HandReview => {
+  const decisions = getReviewSpots(entry).map(({ actionIndex, action, request }): DecisionReview => {
+    const advice = getLocalAdvice(request);
+    const played = toCoachAction(action);
+    const base = { actionIndex, street: action.street, decision: describeHandAction(action) };
+
+    if (played === advice.action) return { ...base, severity: 0, comment: advice.reasoning };
+
+    let severity = 1; // Right idea, wrong gear (e.g. called where a raise was better)
+    if (played === 'FOLD') {
+      severity = advice.action === 'RAISE' ? 3 : 2; // Folding a hand worth playing, or folding for free
+    } else if (advice.action === 'FOLD') {
+      severity = action.amount >= request.stack * 0.25 ? 3 : 2; // Paying off with chips we shouldn't risk
+    } else if (AGGRESSION[played] === AGGRESSION[advice.action]) {
+      severity = 0; // Check vs call is decided by the bet, not by us
+    }
+
+    return { ...base, severity, comment: advice.reasoning, better: severity > 0 ? advice.action : undefined };
+  });
+
+  return finishReview(decisions, 'local');
+};
+
+const validateReview = (text: string, spots: ReviewSpot[]): { decisions: DecisionReview[]; summary: string } | { errors: string[] } => {
+  let raw: unknown;
+  try {
+    raw = extractJson(text);
+  } catch (error) {
+    return { errors: [`Reply was not valid JSON (${(error as Error).message}).`] };
+  }
+  if (!isJsonObject(raw)) return { errors: ['Reply must be a single JSON object.'] };
+
+  const errors: string[] = [];
+  const items = Array.isArray(raw.decisions) ? raw.decisions.filter(isJsonObject) : [];
+  const decisions = spots.map((spot, n) => {
+    const item = items.find(d => toNumber(d.index) === n + 1);
+    const severity = toNumber(item?.severity);
+    const comment = typeof item?.comment === 'string' ? item.comment.trim() : '';
+    if (!item || severity === undefined || !comment) {
+      errors.push(`"decisions" needs an entry with index ${n + 1}, a numeric severity (0-3) and a comment.`);
+    }
+    return {
+      actionIndex: spot.actionIndex,
+      street: spot.action.street,
+      decision: describeHandAction(spot.action),
+      severity: Math.round(Math.min(3, Math.max(0, severity || 0))),
+      comment,
+      better: normalizeAction(item?.better)
+    };
+  });
+
+  const summary = typeof raw.summary === 'string' ? raw.summary.trim() : '';
+  if (!summary) errors.push(`"summary" must be a non-empty string.`);
+  return errors.length ? { errors } : { decisions, summary };
+};
+
+export const reviewHand = async (
+  entry: HandHistoryEntry,
+  provider: LlmProvider = getProvider(loadSettings())
+): Promise<HandReview> => {
+  const spots = getReviewSpots(entry);
+  if (spots.length === 0) return finishReview([], 'local', "You didn't make any decisions this hand.");
+  if (!provider.isAvailable()) return reviewHandLocally(entry);
+
+  const hero = entry.seats!.find(s => s.isHuman)!;
+  const cards = (list: { rank: string; suit: string }[]) => list.map(c => `${c.rank}${c.suit}`).join(',');
+  const numbered = spots.map((spot, n) =>
+    `${n + 1}. ${spot.action.street}: You ${describeHandAction(spot.action)} (pot ${spot.request.pot}, to call ${spot.request.toCall}, stack ${spot.request.stack}, position ${spot.request.position || '?'})`
+  ).join('\n    ');
+
+  const prompt = `
+    You are a poker coach reviewing a finished Texas Hold'em hand with your student ("You").
+    Be honest but constructive, and judge decisions on the information available at the time, not the result.
+
+    Hand #${entry.handNumber}
+    - Your Hand: [${cards(hero.hand)}]
+    - Final Board: [${cards(entry.board || [])}]
+    - Seats: ${entry.seats!.map(s => `${s.name} (${s.startingChips} chips)`).join(', ')}
+    - Result: ${entry.winnerNames.join(', ')} won ${entry.winAmount} with ${entry.winningHand}
+
+    Full action:
+    ${describeBettingHistory(entry.actions || []).split('\n').join('\n    ')}
+
+    Your decisions to grade:
+    ${numbered}
+
+    Provide the response in strict JSON format with the following keys:
+    - summary: One or two sentences on the hand overall.
+    - decisions: An array with one object per numbered decision, each with:
+      - index: The decision number.
+      - severity: 0 = good, 1 = inaccuracy, 2 = mistake, 3 = blunder.
+      - comment: One or two sentences explaining the grade.
+      - better: If severity > 0, the better action: "FOLD", "CHECK", "CALL" or "RAISE".
+  `;
+
+  let nextPrompt = prompt;
+  try {
+    for (let attempt = 1; attempt <= MAX_REVIEW_ATTEMPTS; attempt++) {
+      const text = await provider.complete(nextPrompt, { json: true });
+      const result = validateReview(text, spots);
+      if ('decisions' in result) return finishReview(result.decisions, provider.id, result.summary);
+      nextPrompt = buildCorrectionPrompt(prompt, text, result.errors);
+    }
+  } catch (error) {
+    console.error(`Hand review (${provider.id}) Error:`, error);
+  }
+
+  // Unreachable or unusable model: the offline review still gives the player something
+  return reviewHandLocally(entry);
+};
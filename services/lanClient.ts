@@ -0,0 +1,91 @@
+import type { LanClientMessage, LanServerMessage } from '../types';
+
+// --- LAN Table Client ---
+// Browser side of the LAN table: keeps one WebSocket open to the server, reconnecting with
+// back-off, and reclaims the seat after a drop with the token the server handed out.
+
+const TOKENS_KEY = 'ngpl.lan';
+const MAX_RETRY_MS = 10000;
+
+export type LanStatus = 'connecting' | 'open' | 'closed';
+
+export interface LanConnection {
+  send: (message: LanClientMessage) => void;
+  close: () => void;
+}
+
+export const getDefaultServerUrl = (): string => `ws://${window.location.hostname || 'localhost'}:3001`;
+
+// Seat tokens per server, so a refresh doesn't cost you your stack
+const loadToken = (url: string): string | undefined => {
+  try {
+    return JSON.parse(localStorage.getItem(TOKENS_KEY) || '{}')[url];
+  } catch {
+    return undefined;
+  }
+};
+
+const saveToken = (url: string, token: string | undefined) => {
+  try {
+    const tokens = JSON.parse(localStorage.getItem(TOKENS_KEY) || '{}');
+    if (token) tokens[url] = token;
+    else delete tokens[url];
+    localStorage.setItem(TOKENS_KEY, JSON.stringify(tokens));
+  } catch (error) {
+    console.error("Could not save LAN seat:", error);
+  }
+};
+
+/**
+ * Joins the table as `name`, or watches when `name` is null. Every server message goes to
+ * `onMessage`; connection changes go to `onStatus`.
+ */
+export const connectToTable = (
+  url: string,
+  name: string | null,
+  onMessage: (message: LanServerMessage) => void,
+  onStatus: (status: LanStatus) => void
+): LanConnection => {
+  let socket: WebSocket | null = null;
+  let retryMs = 500;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const open = () => {
+    onStatus('connecting');
+    socket = new WebSocket(url);
+
+    socket.onopen = () => {
+      retryMs = 500;
+      onStatus('open');
+      socket!.send(JSON.stringify(name === null ? { type: 'spectate' } : { type: 'join', name, token: loadToken(url) }));
+    };
+
+    socket.onmessage = (event) => {
+      const message = JSON.parse(event.data) as LanServerMessage;
+      if (message.type === 'welcome') saveToken(url, message.token);
+      onMessage(message);
+    };
+
+    socket.onclose = () => {
+      if (closed) return;
+      onStatus('closed');
+      retryTimer = setTimeout(open, retryMs);
+      retryMs = Math.min(MAX_RETRY_MS, retryMs * 2);
+    };
+  };
+
+  open();
+
+  return {
+    send: (message) => {
+      if (message.type === 'leave') saveToken(url, undefined);
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    close: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.close();
+    }
+  };
+};
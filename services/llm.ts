@@ -0,0 +1,136 @@
+import { GoogleGenAI } from "@google/genai";
+import { AppSettings } from './settings';
+
+// --- LLM Providers ---
+// Coach advice and banter only need "prompt in, text out". Each adapter hides its SDK/HTTP details
+// behind LlmProvider so the coach can run on Gemini, a self-hosted OpenAI-compatible server, or canned text.
+
+export type LlmProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface LlmOptions {
+  json?: boolean; // Ask the model for a JSON object
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  isAvailable: () => boolean;
+  complete: (prompt: string, options?: LlmOptions) => Promise<string>;
+}
+
+export interface LlmConfig {
+  model: string;
+  timeoutMs: number;
+  temperature: number;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI-compatible servers only, e.g. http://192.168.1.20:11434/v1
+}
+
+export const PROVIDER_LABELS: Record<LlmProviderId, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI-compatible (Ollama, llama.cpp)',
+  mock: 'Canned responses'
+};
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Rejects if the request outlives the timeout; `abort` cancels the underlying call where supported
+const withTimeout = <T>(timeoutMs: number, run: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const timeout = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(new Error(`LLM request timed out after ${timeoutMs}ms`)));
+  });
+  return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer));
+};
+
+export const createGeminiProvider = (config: LlmConfig): LlmProvider => {
+  const apiKey = config.apiKey || process.env.API_KEY || '';
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    isAvailable: () => !!apiKey && !isOffline(),
+    complete: (prompt, options = {}) => withTimeout(config.timeoutMs, async (signal) => {
+      const response = await ai.models.generateContent({
+        model: config.model,
+        contents: prompt,
+        config: {
+          temperature: config.temperature,
+          abortSignal: signal,
+          ...(options.json ? { responseMimeType: 'application/json' } : {})
+        }
+      });
+      if (!response.text) throw new Error("No response from Gemini");
+      return response.text;
+    })
+  };
+};
+
+export const createOpenAiProvider = (config: LlmConfig): LlmProvider => {
+  const baseUrl = (config.baseUrl || '').replace(/\/+$/, '');
+
+  return {
+    id: 'openai',
+    // LAN servers work without internet, so only a missing URL rules this out
+    isAvailable: () => !!baseUrl,
+    complete: (prompt, options = {}) => withTimeout(config.timeoutMs, async (signal) => {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: config.model,
+          temperature: config.temperature,
+          messages: [{ role: 'user', content: prompt }],
+          ...(options.json ? { response_format: { type: 'json_object' } } : {})
+        })
+      });
+      if (!response.ok) throw new Error(`LLM server responded ${response.status}`);
+
+      const data = await response.json();
+      const text = data?.choices?.[0]?.message?.content;
+      if (!text) throw new Error("No response from LLM server");
+      return text;
+    })
+  };
+};
+
+const CANNED_ADVICE = JSON.stringify({
+  action: "CALL",
+  reasoning: "This is a canned answer from the mock provider. Point the coach at a real model in settings.",
+  winProbability: "50%",
+  potOdds: "2:1"
+});
+
+// Replies in order (looping), or via a function of the prompt. JSON requests default to a canned CoachAdvice.
+export const createMockProvider = (responses?: string[] | ((prompt: string, options: LlmOptions) => string)): LlmProvider => {
+  let next = 0;
+  return {
+    id: 'mock',
+    isAvailable: () => true,
+    complete: async (prompt, options = {}) => {
+      if (typeof responses === 'function') return responses(prompt, options);
+      if (responses && responses.length) return responses[next++ % responses.length];
+      return options.json ? CANNED_ADVICE : "Nice hand!";
+    }
+  };
+};
+
+export const getProvider = (settings: AppSettings): LlmProvider => {
+  const config: LlmConfig = {
+    model: settings.coachModel,
+    timeoutMs: settings.coachTimeoutMs,
+    temperature: settings.coachTemperature,
+    apiKey: settings.coachApiKey,
+    baseUrl: settings.coachBaseUrl
+  };
+
+  switch (settings.coachProvider) {
+    case 'openai': return createOpenAiProvider(config);
+    case 'mock': return createMockProvider();
+    default: return createGeminiProvider(config);
+  }
+};
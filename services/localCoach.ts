@@ -0,0 +1,88 @@
+import { CoachAction, CoachAdvice, CoachRequest, GamePhase, HandCategory } from '../types';
+import { BIG_BLIND } from '../constants';
+import { evaluateHand, gradeStartingHand, isLatePosition, getBotProfile } from '../utils/poker';
+import { calculateEquity, requiredEquity, formatEquity } from '../utils/equity';
+import { createRng, seedFromString } from '../utils/random';
+import { suggestRaiseAmount } from './coachSchema';
+
+// --- Offline Coach ---
+// Deterministic rules-based advice from the same CoachRequest, in the same CoachAdvice shape, as getPokerAdvice.
+// Used when there is no API key, no network, or the player prefers it.
+
+const SHORT_STACK_BB = 10;
+
+export const getLocalAdvice = (request: CoachRequest): CoachAdvice => {
+  const { hand: playerHand, board, pot: potSize, stack: myStack, phase, position } = request;
+  const live = request.opponents.filter(o => o.isActive);
+  const activeOpponents = Math.max(1, live.length);
+  const toCall = Math.min(request.toCall, myStack);
+  const bigBlind = request.bigBlind ?? BIG_BLIND;
+
+  // Same spot, same answer: seed the simulation from the cards themselves
+  const seed = seedFromString([...playerHand, ...board].map(c => c.id).join());
+  const { equity } = calculateEquity(playerHand, board, Array(activeOpponents).fill(null), { iterations: 800, rng: createRng(seed) });
+
+  // Reads on specific opponents: stations pay off thin value, big bluffers get looser calls
+  const station = live.find(o => o.profile === 'Calling Station');
+  const lastBet = [...request.actions].reverse().find(a => a.street === phase && (a.type === 'BET' || a.type === 'RAISE'));
+  const bettor = lastBet && live.find(o => o.name === lastBet.playerName);
+  const bluffer = bettor && (getBotProfile(bettor.name)?.bluff || 0) >= 0.6 ? bettor : undefined;
+  const needed = requiredEquity(potSize, toCall) * (bluffer ? 0.85 : 1);
+
+  const potOdds = toCall > 0 ? `${(potSize / toCall).toFixed(1)} : 1` : undefined;
+  const late = isLatePosition(position);
+  const spr = potSize > 0 ? myStack / potSize : Infinity;
+  const advice = (action: CoachAction, reasoning: string): CoachAdvice => {
+    // Can't raise with less than the call behind
+    const finalAction = action === 'RAISE' && myStack <= toCall ? 'CALL' : action;
+    const raiseAmount = finalAction === 'RAISE' ? suggestRaiseAmount({ potSize, betToCall: toCall, myStack, bigBlind }) : undefined;
+    return { action: finalAction, reasoning, winProbability: formatEquity(equity), potOdds, raiseAmount, source: 'local' };
+  };
+
+  if (phase === GamePhase.PRE_FLOP) {
+    const { grade } = gradeStartingHand(playerHand);
+    const unraised = toCall <= bigBlind;
+    const strong = grade === 'S' || grade === 'A';
+
+    if (myStack <= SHORT_STACK_BB * bigBlind && (strong || grade === 'B')) {
+      return advice("RAISE", `Grade ${grade} with under ${SHORT_STACK_BB} big blinds. Short stacks play push-or-fold, so move in and let them guess.`);
+    }
+    if (strong) {
+      return advice("RAISE", `A grade ${grade} hand is a Monster here. Raise for value and build the pot now.`);
+    }
+    if (grade === 'B') {
+      return unraised
+        ? advice("RAISE", "Strong hand in an unraised pot. Take the initiative and raise.")
+        : advice("CALL", "Strong, but not strong enough to 3-bet into a raise. Remember Gap Theory and just call.");
+    }
+    if (grade === 'C' && unraised) {
+      if (late) return advice("RAISE", `Marginal hand, but you have Position on the ${position}. Raise to steal the blinds.`);
+      return advice(toCall > 0 ? "CALL" : "CHECK", "Marginal hand Out of Position. See a cheap flop and don't build a big pot.");
+    }
+    if (grade === 'D' && unraised && late) {
+      return advice(toCall > 0 ? "CALL" : "CHECK", "A Speculative hand with Position. Cheap entry gives you great Implied Odds.");
+    }
+    if (toCall === 0) return advice("CHECK", "Weak hand, but the check is free. Look at the flop and move on if you miss.");
+    return advice("FOLD", `Grade ${grade} doesn't justify putting chips in here. Fold and wait for a better spot.`);
+  }
+
+  // Post-flop: lean on made-hand strength and equity against the live field
+  const { category, detail } = evaluateHand(playerHand, board);
+  const pct = formatEquity(equity);
+
+  const valueLine = station ? 0.55 : 0.65;
+  if (equity >= valueLine || (category >= HandCategory.TWO_PAIR && equity >= 0.5)) {
+    const commit = spr < 3 ? " With a low SPR you're committed, so get the chips in." : "";
+    const read = station ? ` ${station.name} calls everything, so value bet thinner.` : "";
+    return advice("RAISE", `${detail} with about ${pct} equity. Bet for value.${read}${commit}`);
+  }
+  if (toCall === 0) {
+    if (equity >= 0.5 && late && !station) return advice("RAISE", `${pct} equity and Position. A bet here takes the pot down often.`);
+    return advice("CHECK", `${detail} with ${pct} equity. Check and control the pot.`);
+  }
+  if (equity >= needed) {
+    const read = bluffer ? ` ${bluffer.name} bluffs a lot, so you can call a little lighter.` : "";
+    return advice("CALL", `You need ${formatEquity(needed)} to call and have about ${pct}. The Pot Odds say call.${read}`);
+  }
+  return advice("FOLD", `Only ${pct} equity against ${formatEquity(needed)} needed. The Pot Odds aren't there, so let it go.`);
+};
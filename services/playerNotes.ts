@@ -0,0 +1,41 @@
+// --- Opponent Notes (localStorage) ---
+// Free-text reads and colour tags on opponents, keyed by name so they follow a bot across runs.
+
+export type NoteColor = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple';
+
+export interface PlayerNote {
+  text: string;
+  color?: NoteColor; // Untagged when missing
+  updatedAt: number;
+}
+
+export const NOTE_COLORS: NoteColor[] = ['red', 'orange', 'yellow', 'green', 'blue', 'purple'];
+
+const NOTES_KEY = 'ngpl.notes';
+
+export const loadPlayerNotes = (): Record<string, PlayerNote> => {
+  try {
+    const text = localStorage.getItem(NOTES_KEY);
+    return text ? JSON.parse(text) : {};
+  } catch (error) {
+    console.error("Could not read player notes:", error);
+    return {};
+  }
+};
+
+// Saving an empty, untagged note removes it
+export const savePlayerNote = (name: string, note: PlayerNote | null): Record<string, PlayerNote> => {
+  const notes = loadPlayerNotes();
+  if (!note || (!note.text.trim() && !note.color)) {
+    delete notes[name];
+  } else {
+    notes[name] = { ...note, text: note.text.trim() };
+  }
+
+  try {
+    localStorage.setItem(NOTES_KEY, JSON.stringify(notes));
+  } catch (error) {
+    console.error("Could not save player notes:", error);
+  }
+  return notes;
+};
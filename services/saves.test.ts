@@ -0,0 +1,51 @@
+import { saveRun, loadRun, listSaves, migrate, SAVE_SCHEMA_VERSION, SAVED_HAND_LIMIT } from './saves';
+import { GameEngine } from '../utils/GameEngine';
+import { HandHistoryEntry, Player } from '../types';
+
+declare var describe: any;
+declare var test: any;
+
+// Saves go to localStorage; a Map stands in for it outside the browser
+const storage = new Map<string, string>();
+(globalThis as any).localStorage = {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); },
+  removeItem: (key: string) => { storage.delete(key); },
+  key: (i: number) => Array.from(storage.keys())[i] ?? null,
+  get length() { return storage.size; }
+};
+
+const makePlayers = (): Player[] => ['You', 'Nick'].map((name, i) => ({
+  id: `p${i}`, name, chips: 1000, hand: [], isHuman: i === 0,
+  isActive: true, isAllIn: false, currentBet: 0, position: ''
+}));
+
+describe('Save Tests', () => {
+
+  test('saveRun and loadRun: a run round-trips, keeping only the most recent hands', () => {
+    storage.clear();
+    const state = GameEngine.setupFirstHand(makePlayers(), 5);
+    const history = Array.from({ length: SAVED_HAND_LIMIT + 5 }, (_, i) => ({ id: `h${i}`, handNumber: i + 1 }) as HandHistoryEntry);
+    saveRun('slot', 'Season 1', { ...state, handHistory: history }, ['odds_calc', 'retired_perk']);
+
+    const loaded = loadRun('slot');
+    if (!loaded || loaded.name !== 'Season 1' || loaded.humanPerks.join() !== 'odds_calc') throw new Error('The save and its known perks should load back');
+    if (loaded.gameState.players[0].chips !== state.players[0].chips || loaded.gameState.handCount !== state.handCount) throw new Error('The game state should survive');
+    if (loaded.gameState.handHistory.length !== SAVED_HAND_LIMIT || loaded.gameState.handHistory[0].handNumber !== 6) throw new Error('Only the latest hands should be kept');
+    if (listSaves().length !== 1) throw new Error('The save should be listed');
+  });
+
+  test('migrate: upgrades older saves and rejects corrupt or newer ones', () => {
+    const old = { version: SAVE_SCHEMA_VERSION - 1, slotId: 'old', name: 'Old', savedAt: 1, gameState: { players: [] }, perks: ['a'] };
+    const upgraded = migrate(old, { [SAVE_SCHEMA_VERSION - 1]: ({ perks, ...save }) => ({ ...save, perkIds: perks }) });
+    if (!upgraded || upgraded.version !== SAVE_SCHEMA_VERSION || upgraded.perkIds[0] !== 'a') throw new Error('The save should be migrated');
+
+    if (migrate(old) !== null) throw new Error('A version without a migration should be rejected');
+    if (migrate({ ...old, version: SAVE_SCHEMA_VERSION + 1 }) !== null) throw new Error('A save from a newer build should be rejected');
+    if (migrate({ version: SAVE_SCHEMA_VERSION, slotId: 'x' }) !== null || migrate('junk') !== null) throw new Error('Corrupt data should be rejected');
+
+    storage.clear();
+    storage.set('ngpl.save.bad', '{not json');
+    if (loadRun('bad') !== null || listSaves().length !== 0) throw new Error('An unreadable save should be skipped');
+  });
+});
@@ -0,0 +1,142 @@
+import { GameState, Perk, HandHistoryEntry } from '../types';
+import { INITIAL_PERKS } from '../constants';
+
+// --- Run Persistence (localStorage) ---
+// Saves are versioned JSON. Bump SAVE_SCHEMA_VERSION whenever the saved shape changes and
+// add a migration from the previous version so older saves keep loading after an update.
+
+export const SAVE_SCHEMA_VERSION = 1;
+const SAVE_PREFIX = 'ngpl.save.';
+export const SAVED_HAND_LIMIT = 200; // Most recent hands kept per save, to stay under the localStorage quota
+
+export interface SaveSlotSummary {
+  slotId: string;
+  name: string;
+  savedAt: number;
+  handCount: number;
+  chips: number;
+}
+
+export interface SavedRun {
+  version: number;
+  slotId: string;
+  name: string;
+  savedAt: number;
+  gameState: GameState;
+  perkIds: string[]; // Perks hold effect functions, so only their ids are stored
+}
+
+export interface LoadedRun {
+  slotId: string;
+  name: string;
+  savedAt: number;
+  gameState: GameState;
+  humanPerks: string[];
+}
+
+type SaveData = Record<string, unknown>;
+
+// Each entry upgrades a save from version N to N + 1
+const MIGRATIONS: Record<number, (save: SaveData) => SaveData> = {};
+
+const isRecord = (value: unknown): value is SaveData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSavedRun = (save: SaveData): save is SaveData & SavedRun =>
+  typeof save.slotId === 'string' && typeof save.name === 'string' && typeof save.savedAt === 'number' &&
+  Array.isArray(save.perkIds) && isRecord(save.gameState) && Array.isArray(save.gameState.players);
+
+// Upgrades parsed save data to the current version; null when it's corrupt or from a newer build
+export const migrate = (raw: unknown, migrations = MIGRATIONS): SavedRun | null => {
+  if (!isRecord(raw) || typeof raw.version !== 'number' || raw.version > SAVE_SCHEMA_VERSION) return null;
+
+  let save = raw;
+  let version = raw.version;
+  while (version < SAVE_SCHEMA_VERSION) {
+    const step = migrations[version];
+    if (!step) return null;
+    save = { ...step(save), version: ++version };
+  }
+  return isSavedRun(save) ? save : null;
+};
+
+const readSlot = (slotId: string): SavedRun | null => {
+  try {
+    const text = localStorage.getItem(SAVE_PREFIX + slotId);
+    return text ? migrate(JSON.parse(text)) : null;
+  } catch (error) {
+    console.error(`Could not read save "${slotId}":`, error);
+    return null;
+  }
+};
+
+export const createSlotId = () => `run_${Date.now().toString(36)}`;
+
+export const resolvePerks = (perkIds: string[]): Perk[] => INITIAL_PERKS.filter(perk => perkIds.includes(perk.id));
+
+export const saveRun = (slotId: string, name: string, gameState: GameState, humanPerks: string[]): void => {
+  const save: SavedRun = {
+    version: SAVE_SCHEMA_VERSION,
+    slotId,
+    name,
+    savedAt: Date.now(),
+    // Action bubbles are transient UI state
+    gameState: {
+      ...gameState,
+      players: gameState.players.map(p => ({ ...p, actionMessage: undefined })),
+      handHistory: gameState.handHistory.slice(-SAVED_HAND_LIMIT)
+    },
+    perkIds: humanPerks
+  };
+
+  try {
+    localStorage.setItem(SAVE_PREFIX + slotId, JSON.stringify(save));
+  } catch (error) {
+    console.error("Could not save run:", error);
+  }
+};
+
+export const loadRun = (slotId: string): LoadedRun | null => {
+  const save = readSlot(slotId);
+  if (!save) return null;
+  return {
+    slotId: save.slotId,
+    name: save.name,
+    savedAt: save.savedAt,
+    gameState: save.gameState,
+    humanPerks: resolvePerks(save.perkIds).map(perk => perk.id)
+  };
+};
+
+export const deleteRun = (slotId: string): void => {
+  localStorage.removeItem(SAVE_PREFIX + slotId);
+};
+
+export const listSaves = (): SaveSlotSummary[] => {
+  const summaries: SaveSlotSummary[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(SAVE_PREFIX)) continue;
+    const save = readSlot(key.slice(SAVE_PREFIX.length));
+    if (!save) continue;
+    summaries.push({
+      slotId: save.slotId,
+      name: save.name,
+      savedAt: save.savedAt,
+      handCount: save.gameState.handCount,
+      chips: save.gameState.players.find(p => p.isHuman)?.chips || 0
+    });
+  }
+  return summaries.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+// Hand histories of saved runs, oldest save first
+export const loadSavedRunHistories = (excludeSlotId?: string): { name: string; history: HandHistoryEntry[] }[] =>
+  listSaves()
+    .filter(save => save.slotId !== excludeSlotId)
+    .reverse()
+    .map(save => ({ name: save.name, history: readSlot(save.slotId)?.gameState.handHistory || [] }));
+
+// Every hand played in saved runs, for stats that span the whole league season
+export const loadSavedHistories = (excludeSlotId?: string): HandHistoryEntry[] =>
+  loadSavedRunHistories(excludeSlotId).flatMap(run => run.history);
@@ -0,0 +1,50 @@
+import type { LlmProviderId } from './llm';
+import type { TournamentStructure, CashGameRules } from '../types';
+import { DEFAULT_TOURNAMENT, DEFAULT_CASH_RULES } from '../constants';
+
+// --- User Settings (localStorage) ---
+// Device-level preferences that outlive any single run.
+
+export interface AppSettings {
+  preferLocalCoach: boolean; // Skip the network entirely and always use the rules-based coach
+  coachProvider: LlmProviderId;
+  coachModel: string;
+  coachBaseUrl: string;      // OpenAI-compatible provider only
+  coachApiKey: string;       // Blank = use the build's GEMINI_API_KEY (Gemini) or no auth header
+  coachTimeoutMs: number;
+  coachTemperature: number;
+  tournament: TournamentStructure; // Structure for new tournament runs
+  cashGame: CashGameRules;         // Buy-in range and bot turnover for new cash games
+}
+
+const SETTINGS_KEY = 'ngpl.settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  preferLocalCoach: false,
+  coachProvider: 'gemini',
+  coachModel: 'gemini-2.5-flash',
+  coachBaseUrl: 'http://localhost:11434/v1',
+  coachApiKey: '',
+  coachTimeoutMs: 15000,
+  coachTemperature: 0.7,
+  tournament: DEFAULT_TOURNAMENT,
+  cashGame: DEFAULT_CASH_RULES
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const text = localStorage.getItem(SETTINGS_KEY);
+    return { ...DEFAULT_SETTINGS, ...(text ? JSON.parse(text) : {}) };
+  } catch (error) {
+    console.error("Could not read settings:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Could not save settings:", error);
+  }
+};
@@ -17,6 +17,26 @@ export interface Card {
   id: string; // Unique ID for React keys
 }
 
+export enum HandCategory {
+  HIGH_CARD = 0,
+  PAIR = 1,
+  TWO_PAIR = 2,
+  THREE_OF_A_KIND = 3,
+  STRAIGHT = 4,
+  FLUSH = 5,
+  FULL_HOUSE = 6,
+  FOUR_OF_A_KIND = 7,
+  STRAIGHT_FLUSH = 8
+}
+
+export interface HandEvaluation {
+  score: number;          // Totally ordered: higher always beats lower, equal is a true tie
+  description: string;    // Category name (e.g. "Two Pair", "Royal Flush")
+  detail: string;         // Full reading (e.g. "Two Pair, Kings and Fives, Ace kicker")
+  category: HandCategory;
+  bestCards: Card[];      // The five cards that make the hand
+}
+
 export enum GamePhase {
   MENU = 'MENU',
   SHOP = 'SHOP',
@@ -41,6 +61,143 @@ export interface Player {
   personality?: string; // For AI generation context
   avatarSeed?: number;
   actionMessage?: string; // NEW: Bubble text (e.g. "Call 20")
+  totalContribution?: number; // Chips put into the pot across all streets this hand
+  hiddenCards?: number; // Face-down cards in a view that withheld `hand` (LAN clients, spectators)
+  shownCards?: Card[];  // Tabled at showdown or shown by choice this hand; everyone may see these
+}
+
+export interface Pot {
+  amount: number;
+  eligiblePlayerIds: string[]; // Players still in the hand who matched this pot's level
+}
+
+export interface BlindLevel {
+  smallBlind: number;
+  bigBlind: number;
+  ante: number; // Posted by every dealt-in player; dead money, not part of the street bet
+}
+
+// --- Tournament ---
+
+export interface TournamentStructure {
+  levels: BlindLevel[];
+  levelBy: 'hands' | 'minutes';
+  levelLength: number;   // Hands or minutes per level; the last level never ends
+  buyIn: number;         // Dollars per entrant; the prize pool is buyIn x entrants
+  payouts: number[];     // Share of the prize pool by finishing place, 1st first
+}
+
+export interface Elimination {
+  playerId: string;
+  name: string;
+  place: number;         // 1 = winner
+  handNumber: number;    // Hand they busted on (last hand played, for the winner)
+  prize: number;
+}
+
+export interface TournamentState {
+  structure: TournamentStructure;
+  level: number;          // Index into structure.levels
+  levelStartHand: number; // handCount when the level began
+  levelStartedAt: number; // Epoch ms when the level began
+  entrants: number;
+  eliminations: Elimination[]; // Busted players (and finally the winner), in bust order
+  isComplete: boolean;
+}
+
+// --- Multi-Table Tournament ---
+
+export interface TournamentTable {
+  id: number;              // Table number, from 1
+  players: Player[];       // Seat order; busted players are removed between hands
+  dealerIndex: number;
+}
+
+export interface MultiTableState {
+  tableId: number;                 // Table the human sits at (that table is the GameState itself)
+  otherTables: TournamentTable[];  // Played headlessly between the human's hands
+  tableSize: number;               // Most players a table seats before the field is spread out
+}
+
+// --- Cash Game ---
+
+export interface CashGameRules {
+  minBuyIn: number;        // Chips
+  maxBuyIn: number;        // Also the top-up ceiling
+  botRebuyChance: number;  // 0-1: a busted bot reloads instead of leaving
+  botLeaveChance: number;  // 0-1 per hand: a bot with chips stands up
+}
+
+export interface LedgerEntry {
+  playerId: string;
+  name: string;
+  boughtIn: number;        // Every buy-in, rebuy and top-up
+  cashedOut: number;       // Chips taken off the table when leaving
+  isSeated: boolean;
+}
+
+export interface CashGameState {
+  rules: CashGameRules;
+  ledger: LedgerEntry[];   // Everyone who has sat at the table, in order of arrival
+  nextSeatId: number;      // For ids of bots who sit down mid-session
+}
+
+export interface PotResult {
+  label: string; // "Main Pot", "Side Pot 1", ...
+  amount: number;
+  winnerNames: string[];
+  winnerIds: string[];        // Button order: the first winner left of the button first
+  winnerAmounts?: number[];   // Chips each winner collected, odd chips included (matches winnerIds)
+  winningHand: string;
+}
+
+export type HandActionType = 'POST_ANTE' | 'POST_SB' | 'POST_BB' | 'FOLD' | 'CHECK' | 'CALL' | 'BET' | 'RAISE';
+
+export interface HandAction {
+  playerId: string;
+  playerName: string;
+  street: GamePhase;
+  type: HandActionType;
+  amount: number;      // Chips added to the pot by this action
+  totalBet: number;    // Player's total bet on this street afterwards
+  potAfter: number;
+  board: Card[];       // Community cards when the action was taken
+  isAllIn: boolean;
+}
+
+// --- Player Actions ---
+
+// What a player asks to do; BET and RAISE amounts are "to" amounts (their total bet for the street)
+export type PlayerAction =
+  | { type: 'FOLD' | 'CHECK' | 'CALL' }
+  | { type: 'BET' | 'RAISE'; amount: number };
+
+export interface LegalRaise {
+  type: 'BET' | 'RAISE';   // BET opens the street's betting, RAISE raises an existing bet
+  min: number;             // Smallest legal "to" amount (an all-in when the stack is shorter)
+  max: number;             // All-in
+}
+
+export type LegalAction =
+  | { type: 'FOLD' }
+  | { type: 'CHECK' }
+  | { type: 'CALL'; amount: number } // Chips to call; less than the bet for a short stack
+  | LegalRaise;
+
+export interface ActionError {
+  kind: 'HAND_OVER' | 'NOT_YOUR_TURN' | 'ILLEGAL_ACTION' | 'ILLEGAL_AMOUNT';
+  message: string;
+  legalActions: LegalAction[]; // What the player to act could have done instead
+}
+
+export interface SeatSnapshot {
+  id: string;
+  name: string;
+  isHuman: boolean;
+  avatarSeed?: number;
+  startingChips: number;
+  hand: Card[];
+  shownCards?: Card[]; // What the table saw at showdown or after; everything else stays private
 }
 
 export interface HandHistoryEntry {
@@ -50,6 +207,17 @@ export interface HandHistoryEntry {
   winAmount: number;
   winningHand: string;
   date: string;
+  timestamp?: number;  // Epoch ms when the hand finished
+  source?: 'imported'; // Parsed from a hand-history file rather than played here
+  pots?: PotResult[]; // Per-pot breakdown, main pot first
+  netResults?: Record<string, number>; // Chips won minus chips put in (blinds included), by player id
+  blinds?: BlindLevel;                 // Stakes the hand was played at
+  seed?: number;      // Hand seed: replays the same deck and bot rolls
+  seats?: SeatSnapshot[];   // Seating, starting stacks and hole cards for the replayer
+  dealerIndex?: number;
+  board?: Card[];
+  actions?: HandAction[];
+  review?: HandReview;      // Post-hand coach review, once requested
 }
 
 export interface GameState {
@@ -64,12 +232,21 @@ export interface GameState {
   currentBet: number; // The amount to call
   lastRaiserIndex: number | null;
   roundLog: string[];
+  actions?: HandAction[];     // Structured log of this hand's actions (roundLog is the display text)
   deckColor: string;
   winners?: Player[];         // NEW: Track who won the last hand
   winningHandDesc?: string;   // NEW: Description of winning hand (e.g. "Full House")
   lastPotSize?: number;       // NEW: Amount won
+  potResults?: PotResult[];   // Main/side pot awards from the last showdown
   handHistory: HandHistoryEntry[]; // NEW: History
   handCount: number;
+  chipTotal?: number;         // Stacks + pot at the start of the hand; must never change mid-hand
+  blinds?: BlindLevel;        // Stakes for this hand; the cash-game blinds when missing
+  tournament?: TournamentState; // Present in tournament runs
+  cashGame?: CashGameState;     // Present in cash-game runs
+  multiTable?: MultiTableState; // Present in multi-table tournaments, alongside `tournament`
+  runSeed?: number;           // Seed for the whole run; each hand's seed derives from it
+  seed?: number;              // Seed for this hand's shuffle and bot rolls
 }
 
 export interface Perk {
@@ -81,9 +258,84 @@ export interface Perk {
   effect: (state: GameState) => void;
 }
 
+export type CoachAction = 'FOLD' | 'CHECK' | 'CALL' | 'RAISE';
+
+export interface DecisionReview {
+  actionIndex: number;  // Index into HandHistoryEntry.actions
+  street: GamePhase;
+  decision: string;     // e.g. "calls 40"
+  severity: number;     // 0 = fine, 1 = inaccuracy, 2 = mistake, 3 = blunder
+  comment: string;
+  better?: CoachAction; // What the reviewer would have done instead
+}
+
+// Post-hand critique of the human's decisions, stored on the history entry
+export interface HandReview {
+  summary: string;
+  decisions: DecisionReview[];
+  worstSeverity: number;
+  source: CoachAdvice['source'];
+  createdAt: number;
+}
+
+export interface CoachOpponent {
+  name: string;
+  chips: number;
+  currentBet: number;
+  isActive: boolean; // Still in the hand
+  isAllIn: boolean;
+  position: string;
+  profile?: string;  // BOT_PROFILES label, e.g. "Calling Station"
+}
+
+// Everything the coach sees about the hero's current decision
+export interface CoachRequest {
+  hand: Card[];
+  board: Card[];
+  pot: number;
+  toCall: number;
+  stack: number;
+  phase: GamePhase;
+  position: string;
+  opponents: CoachOpponent[]; // Everyone else dealt into the hand, folded or not
+  actions: HandAction[];      // This hand so far, blinds included
+  bigBlind?: number;          // Current stakes; the cash-game big blind when missing
+}
+
 export interface CoachAdvice {
-  action: string;
+  action: CoachAction;
   reasoning: string;
   winProbability?: string;
   potOdds?: string;
+  raiseAmount?: number; // Suggested raise on top of the call (RAISE only)
+  source?: 'gemini' | 'openai' | 'mock' | 'local'; // Which coach produced the advice
+}
+
+// The model kept answering in a shape we couldn't use, even after correction prompts
+export interface CoachError {
+  kind: 'INVALID_RESPONSE';
+  message: string;
+  attempts: number;
+  fallback: CoachAdvice; // Offline coach's read of the same spot
 }
+
+// --- LAN Multiplayer ---
+
+export interface LanSeatInfo {
+  name: string;
+  connected: boolean;
+  status: 'waiting' | 'seated' | 'leaving'; // Waiting players sit in at the next deal
+}
+
+export type LanClientMessage =
+  | { type: 'join'; name: string; token?: string } // token reclaims a seat after a reconnect
+  | { type: 'spectate' }
+  | { type: 'action'; action: PlayerAction }
+  | { type: 'show'; cardIds: string[] } // Show cards after the hand (e.g. one card after an uncontested win)
+  | { type: 'rebuy' }
+  | { type: 'leave' };
+
+export type LanServerMessage =
+  | { type: 'welcome'; playerId: string; token: string }
+  | { type: 'state'; state: GameState | null; you: string | null; seats: LanSeatInfo[]; spectators: number; actionDeadline?: number }
+  | { type: 'error'; message: string };
@@ -1,12 +1,22 @@
 
-import { GameState, Player, GamePhase, Card, HandHistoryEntry } from '../types';
-import { createDeck, shuffleDeck, evaluateHand } from './poker';
-import { STARTING_CHIPS, BIG_BLIND, SMALL_BLIND } from '../constants';
+import { GameState, Player, GamePhase, Card, HandHistoryEntry, PotResult, HandAction, HandActionType, BlindLevel, HandEvaluation, PlayerAction, ActionError } from '../types';
+import { createDeck, shuffleDeck, evaluateHand, getBotShowChoice } from './poker';
+import { buildPots, getPotLabel } from './pots';
+import { getRaiseError, getLegalActions, isBettingPhase, isActionError } from './betting';
+import { createRng, createSeed, deriveSeed } from './random';
+import { advanceLevel, getTournamentBlinds, recordEliminations, formatBlinds, formatPlace } from './tournament';
+import { settleCashTable } from './cashGame';
+import { STARTING_CHIPS, BIG_BLIND, CASH_BLINDS } from '../constants';
+
+const SHOWDOWN_SALT = 0x5400; // Keeps showdown rolls apart from the hand's other seeded draws
 
 export class GameEngine {
   
-  public static setupNewHand(currentPlayers: Player[], dealerIdx: number, handCount: number, currentHistory: HandHistoryEntry[]): GameState {
-    const deck = shuffleDeck(createDeck());
+  // handSeed overrides the seed derived from runSeed, to replay a single hand from history
+  public static setupNewHand(currentPlayers: Player[], dealerIdx: number, handCount: number, currentHistory: HandHistoryEntry[], runSeed: number = createSeed(), handSeed?: number, blinds: BlindLevel = CASH_BLINDS): GameState {
+    const seed = handSeed ?? deriveSeed(runSeed, handCount + 1);
+    const deck = shuffleDeck(createDeck(), createRng(seed));
+    const chipTotal = currentPlayers.reduce((sum, p) => sum + p.chips, 0);
     
     // Reset player round state
     const players = currentPlayers.map(p => ({
@@ -15,36 +25,62 @@ export class GameEngine {
       isActive: p.chips > 0,
       isAllIn: false,
       currentBet: 0,
-      actionMessage: undefined
+      totalContribution: 0,
+      actionMessage: undefined,
+      shownCards: undefined
     }));
 
-    // Rotate Dealer
-    const nextDealer = (dealerIdx + 1) % players.length;
+    // Rotate Dealer (busted seats are skipped for the button and blinds)
+    const nextSeated = (from: number) => {
+      let idx = (from + 1) % players.length;
+      for (let i = 0; i < players.length && players[idx].chips <= 0; i++) idx = (idx + 1) % players.length;
+      return idx;
+    };
+    const nextDealer = nextSeated(dealerIdx);
     
     // Determine Blinds
-    let sbIndex = (nextDealer + 1) % players.length;
-    let bbIndex = (nextDealer + 2) % players.length;
+    let sbIndex = nextSeated(nextDealer);
+    let bbIndex = nextSeated(sbIndex);
 
     // Heads up logic
     if (players.filter(p => p.chips > 0).length === 2) {
        sbIndex = nextDealer;
-       bbIndex = (nextDealer + 1) % players.length;
+       bbIndex = nextSeated(nextDealer);
+    }
+
+    // Post Antes (dead money: they don't count toward the pre-flop bet)
+    let pot = 0;
+    const actions: HandAction[] = [];
+    if (blinds.ante > 0) {
+      players.forEach(p => {
+        if (!p.isActive) return;
+        const anteAmt = Math.min(blinds.ante, p.chips);
+        p.chips -= anteAmt;
+        p.totalContribution = anteAmt;
+        if (p.chips === 0) p.isAllIn = true;
+        pot += anteAmt;
+        actions.push(this.describeAction(p, GamePhase.PRE_FLOP, 'POST_ANTE', anteAmt, pot, []));
+      });
     }
 
     // Post Blinds
     const sbPlayer = players[sbIndex];
-    const sbAmt = Math.min(SMALL_BLIND, sbPlayer.chips);
+    const sbAmt = Math.min(blinds.smallBlind, sbPlayer.chips);
     sbPlayer.chips -= sbAmt;
     sbPlayer.currentBet = sbAmt;
+    sbPlayer.totalContribution = (sbPlayer.totalContribution || 0) + sbAmt;
     if (sbPlayer.chips === 0) sbPlayer.isAllIn = true;
+    pot += sbAmt;
+    actions.push(this.describeAction(sbPlayer, GamePhase.PRE_FLOP, 'POST_SB', sbAmt, pot, []));
 
     const bbPlayer = players[bbIndex];
-    const bbAmt = Math.min(BIG_BLIND, bbPlayer.chips);
+    const bbAmt = Math.min(blinds.bigBlind, bbPlayer.chips);
     bbPlayer.chips -= bbAmt;
     bbPlayer.currentBet = bbAmt;
+    bbPlayer.totalContribution = (bbPlayer.totalContribution || 0) + bbAmt;
     if (bbPlayer.chips === 0) bbPlayer.isAllIn = true;
-
-    const pot = sbAmt + bbAmt;
+    pot += bbAmt;
+    actions.push(this.describeAction(bbPlayer, GamePhase.PRE_FLOP, 'POST_BB', bbAmt, pot, []));
 
     // Deal Cards
     players.forEach(p => {
@@ -53,7 +89,7 @@ export class GameEngine {
       }
     });
 
-    const firstActor = (bbIndex + 1) % players.length;
+    const firstActor = nextSeated(bbIndex);
 
     return {
       phase: GamePhase.PRE_FLOP,
@@ -63,21 +99,56 @@ export class GameEngine {
       players,
       currentPlayerIndex: firstActor,
       dealerIndex: nextDealer,
-      minBet: BIG_BLIND,
-      currentBet: BIG_BLIND,
+      minBet: blinds.bigBlind,
+      currentBet: blinds.bigBlind,
       lastRaiserIndex: bbIndex,
       roundLog: [`Hand #${handCount + 1} Started`],
+      actions,
       deckColor: 'blue',
       winners: [],
       winningHandDesc: '',
       lastPotSize: 0,
+      potResults: [],
       handHistory: currentHistory,
-      handCount: handCount + 1
+      handCount: handCount + 1,
+      chipTotal,
+      blinds,
+      runSeed,
+      seed
     };
   }
 
+  // First hand of a run; tournaments open at their first level
+  public static setupFirstHand(players: Player[], runSeed: number, format: Pick<GameState, 'tournament' | 'cashGame'> = {}): GameState {
+    const { tournament, cashGame } = format;
+    const blinds = tournament ? getTournamentBlinds(tournament) : CASH_BLINDS;
+    return { ...this.setupNewHand(players, -1, 0, [], runSeed, undefined, blinds), tournament, cashGame };
+  }
+
+  // Deals the hand after `state`, first moving the tournament clock or settling the cash table
+  public static setupNextHand(state: GameState, now: number = Date.now()): GameState {
+    const tournament = state.tournament && advanceLevel(state.tournament, state.handCount, now);
+    const blinds = tournament ? getTournamentBlinds(tournament) : CASH_BLINDS;
+    const table = settleCashTable(state);
+    const next = this.setupNewHand(table.players, state.dealerIndex, state.handCount, state.handHistory, state.runSeed, undefined, blinds);
+    const levelUp = tournament && tournament.level !== state.tournament!.level
+      ? [`Blinds up: Level ${tournament.level + 1} - ${formatBlinds(blinds)}`]
+      : [];
+    const tableChanges = table.roundLog.slice(state.roundLog.length);
+    return { ...next, tournament, cashGame: table.cashGame, roundLog: [...levelUp, ...tableChanges, ...next.roundLog] };
+  }
+
+  private static getBigBlind(state: GameState): number {
+    return state.blinds?.bigBlind ?? BIG_BLIND;
+  }
+
   public static processPlayerAction(state: GameState, player: Player, amount: number, actionVerb: string, displayTotal?: number): GameState {
     const pIndex = state.players.findIndex(p => p.id === player.id);
+    // Calls may be short (all-in for less); raises must follow the no-limit sizing rules
+    if (amount > state.currentBet - player.currentBet) {
+      const raiseError = getRaiseError(state, player, amount);
+      if (raiseError) throw new Error(raiseError);
+    }
     const actualAmount = Math.min(amount, player.chips);
     
     const newPlayers = [...state.players];
@@ -85,6 +156,7 @@ export class GameEngine {
     
     p.chips -= actualAmount;
     p.currentBet += actualAmount;
+    p.totalContribution = (p.totalContribution || 0) + actualAmount;
     if (p.chips === 0) p.isAllIn = true;
     
     // Bubble Text
@@ -100,33 +172,74 @@ export class GameEngine {
     let newMinBet = state.minBet;
     let newLastRaiser = state.lastRaiserIndex;
 
-    // Raise Logic
+    let actionType: HandActionType = actualAmount === 0 ? 'CHECK' : 'CALL';
+
+    // Raise Logic: the street now closes around this player. Only a full raise sets the next
+    // raise size; a short all-in doesn't reopen the betting either (see canRaise)
     if (p.currentBet > state.currentBet) {
       const raiseDiff = p.currentBet - state.currentBet;
       newCurrentBet = p.currentBet;
-      newMinBet = Math.max(state.minBet, raiseDiff);
+      if (raiseDiff >= state.minBet) newMinBet = raiseDiff;
       newLastRaiser = pIndex;
+      actionType = state.currentBet === 0 ? 'BET' : 'RAISE';
     }
 
-    return {
+    const action = this.describeAction(p, state.phase, actionType, actualAmount, newPot, state.communityCards);
+
+    return this.verifyChips({
       ...state,
       players: newPlayers,
       pot: newPot,
       currentBet: newCurrentBet,
       minBet: newMinBet,
       lastRaiserIndex: newLastRaiser,
-      roundLog: [...state.roundLog, logMsg]
+      roundLog: [...state.roundLog, logMsg],
+      actions: [...(state.actions || []), action]
+    }, 'processPlayerAction');
+  }
+
+  public static foldPlayer(state: GameState, player: Player): GameState {
+    const newPlayers = state.players.map(p => p.id === player.id ? { ...p, isActive: false, actionMessage: "Fold" } : p);
+    const folded = newPlayers.find(p => p.id === player.id)!;
+
+    return {
+      ...state,
+      players: newPlayers,
+      roundLog: [...state.roundLog, player.isHuman ? "You Fold" : `${player.name} folds`],
+      actions: [...(state.actions || []), this.describeAction(folded, state.phase, 'FOLD', 0, state.pot, state.communityCards)]
+    };
+  }
+
+  private static describeAction(player: Player, street: GamePhase, type: HandActionType, amount: number, potAfter: number, board: Card[]): HandAction {
+    return {
+      playerId: player.id,
+      playerName: player.name,
+      street,
+      type,
+      amount,
+      totalBet: player.currentBet,
+      potAfter,
+      board: [...board],
+      isAllIn: player.isAllIn
     };
   }
 
   public static nextTurn(state: GameState): GameState {
+    // Everyone else folded: the last player standing takes the pot
+    if (state.players.filter(p => p.isActive).length <= 1) {
+        return this.handleShowdown(state);
+    }
+
     let nextIndex = (state.currentPlayerIndex + 1) % state.players.length;
     let loopCount = 0;
+    // The street is over once action gets back around to the last raiser - even if they are now all-in
+    let passedRaiser = nextIndex === state.lastRaiserIndex;
     
     // Find next active player
     while ((!state.players[nextIndex].isActive || state.players[nextIndex].isAllIn) && loopCount < state.players.length) {
        nextIndex = (nextIndex + 1) % state.players.length;
        loopCount++;
+       if (nextIndex === state.lastRaiserIndex) passedRaiser = true;
     }
 
     if (loopCount >= state.players.length) {
@@ -137,7 +250,7 @@ export class GameEngine {
     const isBetMatched = playerToAct.currentBet === state.currentBet;
 
     let endPhase = false;
-    if (state.lastRaiserIndex === nextIndex && isBetMatched) {
+    if (passedRaiser && isBetMatched) {
         endPhase = true;
     }
     
@@ -151,6 +264,49 @@ export class GameEngine {
     };
   }
 
+  /**
+   * The one way a seat acts: checks the hand is live, it's this player's turn and the action is in
+   * getLegalActions, then applies it. Anything else comes back as an ActionError, leaving the
+   * state untouched. Call nextTurn afterwards to move the action on.
+   */
+  public static applyAction(state: GameState, playerId: string, action: PlayerAction): GameState | ActionError {
+    const legalActions = getLegalActions(state);
+    const reject = (kind: ActionError['kind'], message: string): ActionError => ({ kind, message, legalActions });
+
+    if (!isBettingPhase(state)) return reject('HAND_OVER', 'No hand in progress');
+    const player = state.players[state.currentPlayerIndex];
+    if (player.id !== playerId) return reject('NOT_YOUR_TURN', `It's ${player.name}'s turn`);
+
+    const legal = legalActions.find(a => a.type === action.type);
+    if (!legal) return reject('ILLEGAL_ACTION', `${player.name} can't ${action.type.toLowerCase()} here`);
+
+    if (legal.type === 'FOLD') return this.foldPlayer(state, player);
+    if (legal.type === 'CHECK') return this.processPlayerAction(state, player, 0, "Checks");
+    if (legal.type === 'CALL') return this.processPlayerAction(state, player, legal.amount, "Calls");
+
+    const amount = 'amount' in action ? action.amount : 0;
+    if (!Number.isInteger(amount) || amount < legal.min || amount > legal.max) {
+      return reject('ILLEGAL_AMOUNT', legal.min === legal.max
+        ? `${player.name} can only go all-in for ${legal.max}`
+        : `${legal.type === 'BET' ? 'Bets' : 'Raises'} must be to between ${legal.min} and ${legal.max}`);
+    }
+    return this.processPlayerAction(state, player, amount - player.currentBet, legal.type === 'BET' ? "Bets" : "Raises to", amount);
+  }
+
+  // Bot-style decisions (RAISE amounts on top of the call) go through applyAction; a bot asking
+  // for something illegal is a bug, so it throws
+  public static applyDecision(state: GameState, player: Player, decision: { action: 'FOLD' | 'CHECK' | 'CALL' | 'RAISE', amount?: number }): GameState {
+    const toCall = state.currentBet - player.currentBet;
+    const raiseTo = player.currentBet + toCall + (decision.amount || state.minBet);
+    const action: PlayerAction = decision.action === 'RAISE'
+      ? { type: state.currentBet === 0 ? 'BET' : 'RAISE', amount: raiseTo }
+      : { type: decision.action };
+
+    const result = this.applyAction(state, player.id, action);
+    if (isActionError(result)) throw new Error(result.message);
+    return result;
+  }
+
   public static nextPhase(state: GameState): GameState {
     const { phase, deck, communityCards, players } = state;
     
@@ -185,8 +341,8 @@ export class GameEngine {
     }
 
     const activeNonAllIn = nextPlayers.filter(p => p.isActive && !p.isAllIn);
-    if (activeNonAllIn.length === 0 && nextGamePhase !== GamePhase.SHOWDOWN) {
-         // Auto-deal next street if everyone is all-in
+    if (activeNonAllIn.length <= 1 && nextGamePhase !== GamePhase.SHOWDOWN) {
+         // Auto-deal next street if everyone (or all but one) is all-in - nobody is left to bet against
          return this.nextPhase({
              ...state,
              phase: nextGamePhase,
@@ -194,52 +350,80 @@ export class GameEngine {
              communityCards: newCommunityCards,
              players: nextPlayers,
              currentBet: 0,
-             minBet: BIG_BLIND,
+             minBet: this.getBigBlind(state),
              currentPlayerIndex: firstActor,
              lastRaiserIndex: firstActor,
              roundLog: [...state.roundLog, `--- ${nextGamePhase} (Auto) ---`]
          });
     }
 
-    return {
+    return this.verifyChips({
       ...state,
       phase: nextGamePhase,
       deck: newDeck,
       communityCards: newCommunityCards,
       players: nextPlayers,
       currentBet: 0,
-      minBet: BIG_BLIND,
+      minBet: this.getBigBlind(state),
       currentPlayerIndex: firstActor,
       lastRaiserIndex: firstActor,
       roundLog: [...state.roundLog, `--- ${nextGamePhase} ---`]
-    };
+    }, 'nextPhase');
   }
 
   public static handleShowdown(state: GameState): GameState {
     const activePlayers = state.players.filter(p => p.isActive);
-    let winners: Player[] = [];
-    let bestHandDesc = "";
-
     if (activePlayers.length === 0) return state;
 
-    let bestScore = -1;
-    activePlayers.forEach(p => {
-       const evalResult = evaluateHand(p.hand, state.communityCards);
-       if (evalResult.score > bestScore) {
-         bestScore = evalResult.score;
-         winners = [p];
-         bestHandDesc = evalResult.description;
-       } else if (evalResult.score === bestScore) {
-         winners.push(p);
-       }
+    const handScores = new Map(activePlayers.map(p => [p.id, evaluateHand(p.hand, state.communityCards)]));
+    const winnings = new Map<string, number>();
+    const potResults: PotResult[] = [];
+
+    // Award each main/side pot only among the players eligible for it
+    buildPots(state.players).forEach((pot, index) => {
+      let bestScore = -1;
+      let potWinners: Player[] = [];
+
+      activePlayers.filter(p => pot.eligiblePlayerIds.includes(p.id)).forEach(p => {
+        const { score } = handScores.get(p.id)!;
+        if (score > bestScore) {
+          bestScore = score;
+          potWinners = [p];
+        } else if (score === bestScore) {
+          potWinners.push(p);
+        }
+      });
+
+      // Odd chips go one at a time to the winners closest to the button's left
+      const ordered = this.orderFromButton(state, potWinners);
+      const share = Math.floor(pot.amount / ordered.length);
+      let oddChips = pot.amount - share * ordered.length;
+      const amounts = ordered.map(w => {
+        const bonus = oddChips > 0 ? 1 : 0;
+        oddChips -= bonus;
+        winnings.set(w.id, (winnings.get(w.id) || 0) + share + bonus);
+        return share + bonus;
+      });
+
+      potResults.push({
+        label: getPotLabel(index),
+        amount: pot.amount,
+        winnerNames: ordered.map(w => w.name),
+        winnerIds: ordered.map(w => w.id),
+        winnerAmounts: amounts,
+        winningHand: activePlayers.length === 1 ? "Uncontested" : handScores.get(potWinners[0].id)!.detail
+      });
     });
 
-    const winAmount = Math.floor(state.pot / winners.length);
+    const { shown, showLog } = this.showHands(state, activePlayers, handScores);
+    const withShown = (p: Player): Player => shown.has(p.id) ? { ...p, shownCards: shown.get(p.id) } : p;
+
+    const winners = activePlayers.filter(p => winnings.has(p.id)).map(withShown);
+    const bestHandDesc = potResults[0]?.winningHand || "";
+
     const newPlayers = state.players.map(p => {
-       if (winners.find(w => w.id === p.id)) {
-         return { ...p, chips: p.chips + winAmount };
-       }
-       return p;
+       const won = winnings.get(p.id);
+       return withShown(won ? { ...p, chips: p.chips + won } : p);
     });
 
     // Add to history
@@ -249,10 +433,37 @@ export class GameEngine {
         winnerNames: winners.map(w => w.name),
         winAmount: state.pot,
         winningHand: bestHandDesc,
-        date: new Date().toLocaleTimeString()
+        date: new Date().toLocaleTimeString(),
+        timestamp: Date.now(),
+        pots: potResults,
+        netResults: Object.fromEntries(state.players.map(p => [p.id, (winnings.get(p.id) || 0) - (p.totalContribution || 0)])),
+        blinds: state.blinds,
+        seed: state.seed,
+        seats: state.players.map(p => ({
+          id: p.id,
+          name: p.name,
+          isHuman: p.isHuman,
+          avatarSeed: p.avatarSeed,
+          startingChips: p.chips + (p.totalContribution || 0),
+          hand: p.hand,
+          shownCards: shown.get(p.id)
+        })),
+        dealerIndex: state.dealerIndex,
+        board: state.communityCards,
+        actions: state.actions || []
     };
 
-    return {
+    const potLog = potResults.length > 1
+      ? potResults.map(r => `${r.label} (${r.amount}): ${r.winnerNames.join(', ')} (${r.winningHand})`)
+      : [`Showdown! Winner: ${winners.map(w => w.name).join(', ')} (${bestHandDesc})`];
+
+    const tournament = state.tournament && recordEliminations(state.tournament, historyEntry);
+    const bustLog = tournament
+      ? tournament.eliminations.slice(state.tournament!.eliminations.length).map(e =>
+          e.place === 1 ? `${e.name} wins the tournament!` : `${e.name} is out in ${formatPlace(e.place)} place${e.prize ? ` ($${e.prize})` : ''}`)
+      : [];
+
+    return this.verifyChips({
       ...state,
       players: newPlayers,
       phase: GamePhase.SHOWDOWN,
@@ -260,8 +471,99 @@ export class GameEngine {
       lastPotSize: state.pot,
       winners,
       winningHandDesc: bestHandDesc,
-      roundLog: [...state.roundLog, `Showdown! Winner: ${winners.map(w => w.name).join(', ')} (${bestHandDesc})`],
-      handHistory: [...state.handHistory, historyEntry]
+      potResults,
+      roundLog: [...state.roundLog, ...showLog, ...potLog, ...bustLog],
+      handHistory: [...state.handHistory, historyEntry],
+      tournament
+    }, 'handleShowdown');
+  }
+
+  /**
+   * Who tables their cards. The last aggressor shows first (the first live seat left of the button
+   * when the river checked through), then the rest clockwise; a hand that can't beat what's
+   * already shown may be mucked. Once someone is all-in every live hand is tabled. Uncontested
+   * winners only show by choice. Humans muck what they can - they can still show from the table.
+   */
+  private static showHands(state: GameState, activePlayers: Player[], handScores: Map<string, HandEvaluation>): { shown: Map<string, Card[]>; showLog: string[] } {
+    const shown = new Map<string, Card[]>();
+    const showLog: string[] = [];
+    const rng = state.seed === undefined ? Math.random : createRng(deriveSeed(state.seed, SHOWDOWN_SALT));
+    const show = (p: Player, cards: Card[], detail?: string) => {
+      shown.set(p.id, cards);
+      showLog.push(`${p.isHuman ? 'You show' : `${p.name} shows`} [${cards.map(c => c.id).join(' ')}]${detail ? ` (${detail})` : ''}`);
+    };
+
+    if (activePlayers.length === 1) {
+      const winner = activePlayers[0];
+      const cards = winner.isHuman ? [] : getBotShowChoice(winner, true, rng);
+      if (cards.length) show(winner, cards);
+      return { shown, showLog };
+    }
+
+    const everyoneShows = activePlayers.some(p => p.isAllIn);
+    const aggressor = state.lastRaiserIndex ?? state.dealerIndex + 1;
+    const distance = (p: Player) => (state.players.findIndex(sp => sp.id === p.id) - aggressor + state.players.length) % state.players.length;
+
+    let bestShown = -1;
+    [...activePlayers].sort((a, b) => distance(a) - distance(b)).forEach(p => {
+      const { score, detail } = handScores.get(p.id)!;
+      if (everyoneShows || score >= bestShown) {
+        show(p, p.hand, detail);
+        bestShown = Math.max(bestShown, score);
+        return;
+      }
+      const cards = p.isHuman ? [] : getBotShowChoice(p, false, rng);
+      if (cards.length === p.hand.length) show(p, cards, detail);
+      else if (cards.length) show(p, cards);
+      else showLog.push(p.isHuman ? 'You muck' : `${p.name} mucks`);
+    });
+
+    return { shown, showLog };
+  }
+
+  // A voluntary show after the hand (one card or both); returns the state unchanged if not allowed
+  public static showCards(state: GameState, playerId: string, cardIds: string[]): GameState {
+    const player = state.players.find(p => p.id === playerId);
+    if (state.phase !== GamePhase.SHOWDOWN || !player || !player.isActive) return state;
+
+    const already = player.shownCards || [];
+    const added = player.hand.filter(c => cardIds.includes(c.id) && !already.some(s => s.id === c.id));
+    if (added.length === 0) return state;
+
+    const shownCards = player.hand.filter(c => added.includes(c) || already.some(s => s.id === c.id));
+    const withShown = (p: Player): Player => p.id === playerId ? { ...p, shownCards } : p;
+    // The history entry for this hand remembers the show too
+    const handId = `hand_${state.handCount}`;
+    return {
+      ...state,
+      players: state.players.map(withShown),
+      winners: state.winners?.map(withShown),
+      handHistory: state.handHistory.map(h => h.id === handId && h.seats
+        ? { ...h, seats: h.seats.map(s => s.id === playerId ? { ...s, shownCards } : s) }
+        : h),
+      roundLog: [...state.roundLog, `${player.isHuman ? 'You show' : `${player.name} shows`} [${added.map(c => c.id).join(' ')}]`]
     };
   }
+
+  // Players sorted by seat, starting with the first seat left of the button
+  private static orderFromButton(state: GameState, players: Player[]): Player[] {
+    const seatOf = (p: Player) => state.players.findIndex(sp => sp.id === p.id);
+    const distance = (p: Player) => (seatOf(p) - state.dealerIndex - 1 + state.players.length) % state.players.length;
+    return [...players].sort((a, b) => distance(a) - distance(b));
+  }
+
+  // Returns how many chips were created (+) or lost (-) since the hand started; 0 when balanced
+  public static getChipDiscrepancy(state: GameState): number {
+    if (state.chipTotal === undefined) return 0;
+    const onTable = state.players.reduce((sum, p) => sum + p.chips, 0) + state.pot;
+    return onTable - state.chipTotal;
+  }
+
+  private static verifyChips(state: GameState, context: string): GameState {
+    const discrepancy = this.getChipDiscrepancy(state);
+    if (discrepancy !== 0) {
+      console.error(`Chip invariant violated after ${context} (hand #${state.handCount}): expected ${state.chipTotal}, off by ${discrepancy}`);
+    }
+    return state;
+  }
 }
@@ -0,0 +1,85 @@
+import { getAllInEv, getHeroResults, buildBankrollLine } from './bankroll';
+import { expectedPotShares } from './equity';
+import { getNetResults } from './stats';
+import { simulateSession } from './simulator';
+import { projectHistoryFor } from './projection';
+import { Card, HandHistoryEntry, Rank, Suit } from '../types';
+import { DEFAULT_CASH_RULES } from '../constants';
+
+declare var describe: any;
+declare var test: any;
+
+const c = (rank: Rank, suit: Suit): Card => ({ rank, suit, id: `${rank}${suit}` });
+
+// Short stacks and wild players so plenty of hands end in all-in runouts
+const session = simulateSession(
+  ['Rob', 'Noah', 'Devin', 'Cody'].map(name => ({ name, chips: 300 })),
+  { hands: 80, seed: 21 }
+);
+const history = session.hands.map(h => ({
+  ...h.entry,
+  seats: h.entry.seats!.map(s => ({ ...s, isHuman: s.name === 'Rob' }))
+}));
+
+describe('Bankroll Tests', () => {
+
+  test('expectedPotShares: drawing-dead hand gets nothing, side pots go to their contenders', () => {
+    const board = [c(Rank.ACE, Suit.CLUBS), c(Rank.ACE, Suit.DIAMONDS), c(Rank.TWO, Suit.SPADES), c(Rank.THREE, Suit.HEARTS)];
+    const hands = {
+      hero: [c(Rank.ACE, Suit.HEARTS), c(Rank.ACE, Suit.SPADES)],
+      villain: [c(Rank.KING, Suit.SPADES), c(Rank.KING, Suit.HEARTS)]
+    };
+    const shares = expectedPotShares(hands, board, [
+      { amount: 200, eligiblePlayerIds: ['hero', 'villain'] },
+      { amount: 50, eligiblePlayerIds: ['villain'] }
+    ]);
+    if (shares.hero !== 200 || shares.villain !== 50) throw new Error(`Unexpected shares ${JSON.stringify(shares)}`);
+  });
+
+  test('getNetResults: action-log fallback matches the engine and chips are conserved', () => {
+    history.forEach(entry => {
+      const recorded = entry.netResults!;
+      const derived = getNetResults({ ...entry, netResults: undefined });
+      Object.keys(recorded).forEach(id => {
+        if ((derived[id] || 0) !== recorded[id]) throw new Error(`Hand #${entry.handNumber}: ${id} derived ${derived[id]} vs ${recorded[id]}`);
+      });
+      const total = Object.values(recorded).reduce((sum, n) => sum + n, 0);
+      if (total !== 0) throw new Error(`Hand #${entry.handNumber} nets sum to ${total}`);
+    });
+  });
+
+  test('getAllInEv: all-in pots are fully paid out by equity', () => {
+    const allIns = history.filter(entry => getAllInEv(entry, entry.seats![0].id) !== null || getAllInEv(entry, entry.seats![1].id) !== null);
+    if (allIns.length === 0) throw new Error('Expected some all-in runouts in the sample');
+
+    allIns.forEach(entry => {
+      const net = getNetResults(entry);
+      const evTotal = entry.seats!.reduce((sum, s) => sum + (getAllInEv(entry, s.id) ?? net[s.id] ?? 0), 0);
+      if (Math.abs(evTotal) > entry.seats!.length) throw new Error(`Hand #${entry.handNumber} EV nets sum to ${evTotal}`);
+    });
+  });
+
+  test('getHeroResults / buildBankrollLine: stacks chain hand to hand and filters keep running totals', () => {
+    const hands = getHeroResults([{ name: 'Sim', history }]);
+    hands.slice(1).forEach((hand, i) => {
+      const seat = history[i + 1].seats!.find(s => s.isHuman)!;
+      if (seat.startingChips !== hands[i].stackAfter) throw new Error(`Hand #${hand.handNumber} started with ${seat.startingChips}, expected ${hands[i].stackAfter}`);
+    });
+
+    const buttonOnly = buildBankrollLine(hands, { position: 'BTN' });
+    if (buttonOnly.length === 0 || buttonOnly.some(p => p.position !== 'BTN')) throw new Error('Position filter failed');
+    const total = buttonOnly.reduce((sum, p) => sum + p.net, 0);
+    if (buttonOnly[buttonOnly.length - 1].cumulative !== total) throw new Error('Cumulative net should match the filtered hands');
+  });
+
+  test('getHeroResults: positions come from who was dealt in, not from which cards were shown', () => {
+    const cash = simulateSession(['Noah', 'Cody A', 'Nick', 'Pat'].map(name => ({ name })), { hands: 40, seed: 9, cashGame: DEFAULT_CASH_RULES });
+    if (cash.handsPlayed !== 40) throw new Error(`Expected the full 40 hands, got ${cash.handsPlayed}`);
+    const raw = cash.hands.map(h => ({ ...h.entry, seats: h.entry.seats!.map((s, i) => ({ ...s, isHuman: i === 0 })) }));
+
+    const positions = (entries: HandHistoryEntry[]) => getHeroResults([{ name: 'Sim', history: entries }]).map(h => h.position).join();
+    if (!['SB', 'BB', 'CO'].every(p => positions(raw).includes(p))) throw new Error(`Expected every position, got ${positions(raw)}`);
+    if (positions(projectHistoryFor(raw, 'sim_0')) !== positions(raw)) throw new Error('Hiding unshown cards should not move the hero');
+  });
+
+});
@@ -0,0 +1,101 @@
+import { HandHistoryEntry } from '../types';
+import { getPositionLabel, gradeStartingHand, isDealtIn } from './poker';
+import { buildPots } from './pots';
+import { expectedPotShares } from './equity';
+import { createRng, deriveSeed } from './random';
+import { getNetResults } from './stats';
+import { BIG_BLIND } from '../constants';
+
+// --- Bankroll Tracking ---
+// The human's result in every finished hand, plus an all-in EV line that pays out all-in pots
+// by equity at the moment the chips went in rather than by the actual runout.
+
+export interface BankrollRun {
+  name: string;
+  history: HandHistoryEntry[];
+}
+
+export interface BankrollHand {
+  run: string;
+  handNumber: number;
+  net: number;         // Chips won minus chips put in, blinds included
+  evNet: number;       // Same, with all-in pots paid out by equity
+  stackAfter: number;
+  bigBlind: number;    // Stakes the hand was played at
+  isAllIn: boolean;    // Board was run out with nobody left to bet
+  position: string;
+  grade: string;       // Starting-hand grade from gradeStartingHand
+}
+
+export interface BankrollPoint extends BankrollHand {
+  index: number;       // Hands into the (filtered) series
+  cumulative: number;
+  cumulativeEv: number;
+}
+
+export interface BankrollFilter {
+  position?: string;
+  grade?: string;
+}
+
+/**
+ * Expected net for `playerId` when the hand ended in an all-in runout (board dealt with no more
+ * betting); null when it didn't, or when a live opponent's cards are unknown.
+ */
+export const getAllInEv = (entry: HandHistoryEntry, playerId: string): number | null => {
+  const { seats, actions, board } = entry;
+  if (!seats || !actions || actions.length === 0 || !board) return null;
+
+  const boardAtAllIn = actions[actions.length - 1].board;
+  if (boardAtAllIn.length >= board.length) return null;
+
+  const folded = new Set(actions.filter(a => a.type === 'FOLD').map(a => a.playerId));
+  const live = seats.filter(s => isDealtIn(s) && !folded.has(s.id));
+  if (live.length < 2 || !live.some(s => s.id === playerId) || live.some(s => s.hand.length !== 2)) return null;
+
+  const contributions: Record<string, number> = {};
+  actions.forEach(a => { contributions[a.playerId] = (contributions[a.playerId] || 0) + a.amount; });
+  const pots = buildPots(seats.map(s => ({ id: s.id, isActive: !folded.has(s.id), totalContribution: contributions[s.id] || 0 })));
+
+  const hands = Object.fromEntries(live.map(s => [s.id, s.hand]));
+  const rng = createRng(deriveSeed(entry.seed ?? entry.handNumber, boardAtAllIn.length));
+  const shares = expectedPotShares(hands, boardAtAllIn, pots, { rng });
+  return Math.round(shares[playerId] - (contributions[playerId] || 0));
+};
+
+// Runs in play order; hands without a seat snapshot (very old saves) are skipped
+export const getHeroResults = (runs: BankrollRun[]): BankrollHand[] =>
+  runs.flatMap(run => run.history.flatMap(entry => {
+    const seatIndex = entry.seats?.findIndex(s => s.isHuman) ?? -1;
+    if (seatIndex < 0) return [];
+
+    const hero = entry.seats![seatIndex];
+    const net = getNetResults(entry)[hero.id] || 0;
+    const ev = getAllInEv(entry, hero.id);
+    return [{
+      run: run.name,
+      handNumber: entry.handNumber,
+      net,
+      evNet: ev ?? net,
+      stackAfter: hero.startingChips + net,
+      bigBlind: entry.blinds?.bigBlind || BIG_BLIND,
+      isAllIn: ev !== null,
+      position: entry.dealerIndex === undefined ? '' : getPositionLabel(entry.seats!, entry.dealerIndex, seatIndex),
+      grade: gradeStartingHand(hero.hand).grade
+    }];
+  }));
+
+// Win rate in big blinds per 100 hands, each hand measured at its own stakes
+export const getBbPer100 = (hands: BankrollHand[]): number =>
+  hands.length ? hands.reduce((sum, h) => sum + h.net / h.bigBlind, 0) / hands.length * 100 : 0;
+
+export const buildBankrollLine = (hands: BankrollHand[], filter: BankrollFilter = {}): BankrollPoint[] => {
+  let cumulative = 0, cumulativeEv = 0;
+  return hands
+    .filter(h => (!filter.position || h.position === filter.position) && (!filter.grade || h.grade === filter.grade))
+    .map((hand, index) => {
+      cumulative += hand.net;
+      cumulativeEv += hand.evNet;
+      return { ...hand, index, cumulative, cumulativeEv };
+    });
+};
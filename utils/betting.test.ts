@@ -0,0 +1,80 @@
+import { canRaise, getRaiseRange, getLegalActions, findRaise, isActionError } from './betting';
+import { GameEngine } from './GameEngine';
+import { GameState, GamePhase, Player, ActionError } from '../types';
+
+declare var describe: any;
+declare var test: any;
+
+const seat = (id: string, chips: number): Player => ({
+  id, name: id, chips, hand: [], isHuman: false, isActive: true, isAllIn: false, currentBet: 0, position: ''
+});
+
+// A flop nobody has acted on yet, first to act is seat 0
+const flop = (players: Player[]): GameState => ({
+  phase: GamePhase.FLOP, pot: 60, communityCards: [], deck: [], players,
+  currentPlayerIndex: 0, dealerIndex: players.length - 1, minBet: 20, currentBet: 0, lastRaiserIndex: 0,
+  roundLog: [], actions: [], deckColor: 'blue', handHistory: [], handCount: 1
+});
+
+const expectThrow = (fn: () => void, message: string) => {
+  let threw = false;
+  try { fn(); } catch { threw = true; }
+  if (!threw) throw new Error(message);
+};
+
+describe('Betting Rules Tests', () => {
+
+  test('raises: the minimum re-raise is the last full raise, and smaller raises are rejected', () => {
+    let state = flop([seat('a', 1000), seat('b', 1000), seat('c', 1000)]);
+    state = GameEngine.processPlayerAction(state, state.players[0], 100, "Bets");
+    state = GameEngine.nextTurn(state);
+
+    const b = state.players[1];
+    if (getRaiseRange(state, b).min !== 200) throw new Error(`Min raise should be to 200, got ${getRaiseRange(state, b).min}`);
+    expectThrow(() => GameEngine.processPlayerAction(state, b, 150, "Raises to", 150), 'A raise to 150 should be rejected');
+    expectThrow(() => GameEngine.applyDecision(state, b, { action: 'RAISE', amount: 5000 }), 'Raising more than the stack should be rejected');
+
+    state = GameEngine.applyDecision(state, b, { action: 'RAISE', amount: 150 }); // Calls 100, raises 150 more
+    if (state.minBet !== 150 || state.currentBet !== 250) throw new Error(`Expected a raise to 250 with min increment 150, got ${state.currentBet}/${state.minBet}`);
+  });
+
+  test('short all-in: raises the price without reopening the betting for players who already acted', () => {
+    let state = flop([seat('a', 1000), seat('short', 130), seat('c', 1000)]);
+    state = GameEngine.nextTurn(GameEngine.processPlayerAction(state, state.players[0], 100, "Bets"));
+    state = GameEngine.nextTurn(GameEngine.processPlayerAction(state, state.players[1], 130, "Raises to", 130));
+    if (state.minBet !== 100 || state.currentBet !== 130) throw new Error('A short all-in should raise the price but not the raise size');
+
+    const c = state.players[2];
+    if (!canRaise(state, c)) throw new Error('A player yet to act may still raise');
+    state = GameEngine.nextTurn(GameEngine.applyDecision(state, c, { action: 'CALL' }));
+
+    const a = state.players[state.currentPlayerIndex];
+    if (a.id !== 'a') throw new Error(`The original bettor should owe the extra 30, got ${a.id} to act`);
+    if (canRaise(state, a)) throw new Error('The original bettor may only call or fold');
+    expectThrow(() => GameEngine.applyDecision(state, a, { action: 'RAISE', amount: 100 }), 'A re-raise should be rejected');
+
+    state = GameEngine.nextTurn(GameEngine.applyDecision(state, a, { action: 'CALL' }));
+    if (state.phase !== GamePhase.TURN) throw new Error(`The street should close once the bettor calls, got ${state.phase}`);
+  });
+
+  test('applyAction: offers the legal set and refuses anything else with a typed error', () => {
+    let state = flop([seat('a', 1000), seat('b', 1000)]);
+    const opening = getLegalActions(state).map(a => a.type).join();
+    if (opening !== 'FOLD,CHECK,BET') throw new Error(`Expected fold/check/bet, got ${opening}`);
+    if (findRaise(getLegalActions(state))!.min !== 20) throw new Error('The smallest bet should be the big blind');
+
+    const kindOf = (result: GameState | ActionError) => isActionError(result) ? result.kind : 'OK';
+    if (kindOf(GameEngine.applyAction(state, 'b', { type: 'CHECK' })) !== 'NOT_YOUR_TURN') throw new Error('Acting out of turn should be refused');
+    if (kindOf(GameEngine.applyAction(state, 'a', { type: 'RAISE', amount: 100 })) !== 'ILLEGAL_ACTION') throw new Error('Nothing to raise yet: it should be a bet');
+    if (kindOf(GameEngine.applyAction(state, 'a', { type: 'BET', amount: 10 })) !== 'ILLEGAL_AMOUNT') throw new Error('A bet under the big blind should be refused');
+
+    const bet = GameEngine.applyAction(state, 'a', { type: 'BET', amount: 100 });
+    if (isActionError(bet)) throw new Error(bet.message);
+    state = GameEngine.nextTurn(bet);
+
+    const facing = getLegalActions(state);
+    if (facing.some(a => a.type === 'CHECK') || !facing.some(a => a.type === 'CALL' && a.amount === 100)) throw new Error('Facing a bet: call 100, no check');
+    const refused = GameEngine.applyAction(state, 'b', { type: 'CHECK' });
+    if (!isActionError(refused) || refused.kind !== 'ILLEGAL_ACTION' || refused.legalActions.length !== 3) throw new Error('A check facing a bet should be refused with the legal set');
+  });
+});
@@ -0,0 +1,59 @@
+import { GameState, GamePhase, Player, LegalAction, LegalRaise, ActionError } from '../types';
+
+// --- No-Limit Raise Rules ---
+// `minBet` holds the size of the last full raise on this street (the big blind until someone
+// bets). A raise must be at least that much on top of the call, unless it puts the player all-in.
+// A short all-in raises the price without reopening the betting: a player who has already acted
+// may only call or fold, until the raises since their action add up to a full raise.
+
+const hasActedThisStreet = (state: GameState, player: Player): boolean =>
+  (state.actions || []).some(a => a.playerId === player.id && a.street === state.phase && !a.type.startsWith('POST'));
+
+export const canRaise = (state: GameState, player: Player): boolean => {
+  const toCall = state.currentBet - player.currentBet;
+  if (player.chips <= toCall) return false; // All they can do is call
+  return !hasActedThisStreet(state, player) || toCall >= state.minBet;
+};
+
+// Chips going in for the smallest and largest legal raise, the call included
+export const getRaiseRange = (state: GameState, player: Player): { min: number; max: number } => {
+  const toCall = state.currentBet - player.currentBet;
+  return { min: Math.min(player.chips, toCall + state.minBet), max: player.chips };
+};
+
+// Why putting `amount` in (call included) isn't a legal raise; undefined when it is
+export const getRaiseError = (state: GameState, player: Player, amount: number): string | undefined => {
+  if (!canRaise(state, player)) return `${player.name} can only call or fold: the betting wasn't reopened`;
+  const { min, max } = getRaiseRange(state, player);
+  if (amount > max) return `${player.name} only has ${max} chips`;
+  if (amount < min) return `The minimum raise is to ${player.currentBet + min}`;
+  return undefined;
+};
+
+// --- Legal Actions ---
+// Everything the player to act may do. The table UI draws its buttons from this, bots pick from
+// it and GameEngine.applyAction refuses anything outside it.
+
+const BETTING_PHASES = [GamePhase.PRE_FLOP, GamePhase.FLOP, GamePhase.TURN, GamePhase.RIVER];
+
+export const isBettingPhase = (state: GameState) => BETTING_PHASES.includes(state.phase);
+
+export const getLegalActions = (state: GameState): LegalAction[] => {
+  const player = state.players[state.currentPlayerIndex];
+  if (!isBettingPhase(state) || !player || !player.isActive || player.isAllIn) return [];
+
+  const toCall = state.currentBet - player.currentBet;
+  const actions: LegalAction[] = [{ type: 'FOLD' }];
+  actions.push(toCall > 0 ? { type: 'CALL', amount: Math.min(toCall, player.chips) } : { type: 'CHECK' });
+
+  if (canRaise(state, player)) {
+    const { min, max } = getRaiseRange(state, player);
+    actions.push({ type: state.currentBet === 0 ? 'BET' : 'RAISE', min: player.currentBet + min, max: player.currentBet + max });
+  }
+  return actions;
+};
+
+export const findRaise = (actions: LegalAction[]): LegalRaise | undefined =>
+  actions.find((a): a is LegalRaise => a.type === 'BET' || a.type === 'RAISE');
+
+export const isActionError = (result: GameState | ActionError): result is ActionError => 'kind' in result;
@@ -0,0 +1,55 @@
+import { createCashGame, addChips, cashOut, getBuyInRange, getLedgerNet } from './cashGame';
+import { simulateSession } from './simulator';
+import { GameEngine } from './GameEngine';
+import { DEFAULT_CASH_RULES } from '../constants';
+import { CashGameRules, Player } from '../types';
+
+declare var describe: any;
+declare var test: any;
+
+const seat = (id: string, name: string, chips: number, isHuman = false): Player => ({
+  id, name, chips, hand: [], isHuman, isActive: true, isAllIn: false, currentBet: 0, position: ''
+});
+
+describe('Cash Game Tests', () => {
+
+  test('addChips: top-ups stop at the max buy-in and rebuys need the minimum', () => {
+    const players = [seat('p1', 'You', 1500, true), seat('bot_0', 'Nick', 1000)];
+    // Stacks as they stood between hands, before any blinds went in
+    const dealt = GameEngine.setupFirstHand(players, 1, { cashGame: createCashGame(DEFAULT_CASH_RULES, players) });
+    const start = { ...dealt, players };
+
+    const toppedUp = addChips(start, 'p1', 5000);
+    const you = toppedUp.players.find(p => p.id === 'p1')!;
+    if (you.chips !== DEFAULT_CASH_RULES.maxBuyIn) throw new Error(`Top-up should stop at ${DEFAULT_CASH_RULES.maxBuyIn}, got ${you.chips}`);
+    if (toppedUp.cashGame!.ledger[0].boughtIn !== 1500 + 500) throw new Error('Ledger should record the top-up');
+
+    const range = getBuyInRange(DEFAULT_CASH_RULES, 0);
+    if (range.min !== DEFAULT_CASH_RULES.minBuyIn) throw new Error('A busted player must buy at least the minimum');
+
+    const left = cashOut(toppedUp, 'p1');
+    const entry = left.cashGame!.ledger[0];
+    if (entry.isSeated || entry.cashedOut !== 2000 || getLedgerNet(entry, 0) !== 0) throw new Error(`Cash-out ledger is wrong: ${JSON.stringify(entry)}`);
+  });
+
+  test('simulated cash game: busted bots rebuy or are replaced and the ledger accounts for every chip', () => {
+    const rules: CashGameRules = { ...DEFAULT_CASH_RULES, botLeaveChance: 0.05 };
+    const names = ['Nick', 'Cody A', 'Pat', 'Noah', 'Rob', 'Cody'];
+    const result = simulateSession(names.map(name => ({ name })), { hands: 150, seed: 11, cashGame: rules });
+    const cash = result.cashGame!;
+
+    if (result.handsPlayed !== 150) throw new Error(`Cash games should keep dealing, stopped after ${result.handsPlayed}`);
+    if (cash.ledger.length <= names.length) throw new Error('Expected somebody to leave and be replaced in 150 hands');
+    const log = result.hands.flatMap(h => h.log);
+    if (!log.some(line => line.includes('sits down with'))) throw new Error('Newcomers should be announced');
+
+    // Every chip on the table was bought in by someone, and nobody is seated twice
+    const lastEntry = result.hands[result.hands.length - 1].entry;
+    const netTotal = cash.ledger.reduce((sum, e) => {
+      const stack = e.isSeated ? (lastEntry.seats!.find(s => s.id === e.playerId)!.startingChips + (lastEntry.netResults![e.playerId] || 0)) : 0;
+      return sum + getLedgerNet(e, stack);
+    }, 0);
+    if (netTotal !== 0) throw new Error(`Ledger should net to zero, off by ${netTotal}`);
+    if (cash.ledger.filter(e => e.isSeated).length !== names.length) throw new Error('Every seat should stay filled');
+  });
+});
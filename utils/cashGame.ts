@@ -0,0 +1,123 @@
+import { GameState, Player, CashGameRules, CashGameState, LedgerEntry } from '../types';
+import { FRIEND_NAMES, GUEST_NAMES, AI_PERSONALITIES } from '../constants';
+import { createRng, deriveSeed, Rng } from './random';
+
+// --- Cash Game Table ---
+// Money in and out of a cash game: buy-ins, rebuys, top-ups and players coming and going.
+// Stacks only change here between hands, never while chips are in the pot.
+
+const TABLE_SEED_SALT = 0xCA54; // Keeps table changes off the hand's own shuffle/bot-roll stream
+
+export const createCashGame = (rules: CashGameRules, players: Player[]): CashGameState => ({
+  rules,
+  ledger: players.map(p => ({ playerId: p.id, name: p.name, boughtIn: p.chips, cashedOut: 0, isSeated: true })),
+  nextSeatId: players.length
+});
+
+// Chips a player may add right now: anything up to the max buy-in, and at least the minimum once busted
+export const getBuyInRange = (rules: CashGameRules, stack: number): { min: number; max: number } => {
+  const max = Math.max(0, rules.maxBuyIn - stack);
+  return { min: stack > 0 ? Math.min(1, max) : rules.minBuyIn, max };
+};
+
+export const getLedgerNet = (entry: LedgerEntry, stack: number): number =>
+  entry.cashedOut + (entry.isSeated ? stack : 0) - entry.boughtIn;
+
+const updateLedger = (cash: CashGameState, playerId: string, change: (entry: LedgerEntry) => LedgerEntry): CashGameState =>
+  ({ ...cash, ledger: cash.ledger.map(e => e.playerId === playerId ? change(e) : e) });
+
+// Rebuy (from zero) or top-up, clamped to the table's buy-in range
+export const addChips = (state: GameState, playerId: string, amount: number): GameState => {
+  const cash = state.cashGame;
+  const player = state.players.find(p => p.id === playerId);
+  if (!cash || !player) return state;
+
+  const { min, max } = getBuyInRange(cash.rules, player.chips);
+  const chips = Math.min(max, Math.max(min, Math.round(amount)));
+  if (chips <= 0) return state;
+
+  return {
+    ...state,
+    players: state.players.map(p => p.id === playerId ? { ...p, chips: p.chips + chips } : p),
+    cashGame: updateLedger(cash, playerId, e => ({ ...e, boughtIn: e.boughtIn + chips })),
+    roundLog: [...state.roundLog, `${player.name} ${player.chips > 0 ? 'tops up' : 'rebuys'} for ${chips}`]
+  };
+};
+
+// Takes the player's chips off the table; their seat keeps a zero stack until someone replaces them
+export const cashOut = (state: GameState, playerId: string): GameState => {
+  const cash = state.cashGame;
+  const player = state.players.find(p => p.id === playerId);
+  if (!cash || !player) return state;
+
+  const entry = cash.ledger.find(e => e.playerId === playerId);
+  const net = entry ? getLedgerNet(entry, player.chips) : 0;
+  return {
+    ...state,
+    players: state.players.map(p => p.id === playerId ? { ...p, chips: 0 } : p),
+    cashGame: updateLedger(cash, playerId, e => ({ ...e, cashedOut: e.cashedOut + player.chips, isSeated: false })),
+    roundLog: [...state.roundLog, `${player.name} leaves the table with ${player.chips} (${net >= 0 ? '+' : ''}${net})`]
+  };
+};
+
+const randomBuyIn = (rules: CashGameRules, rng: Rng) =>
+  Math.round((rules.minBuyIn + rng() * (rules.maxBuyIn - rules.minBuyIn)) / 100) * 100 || rules.minBuyIn;
+
+// The bot in `seatIndex` leaves and a regular who isn't already at the table sits down
+const replaceBot = (state: GameState, seatIndex: number, rng: Rng): GameState => {
+  const seated = new Set(state.players.map(p => p.name));
+  const candidates = [...FRIEND_NAMES, ...GUEST_NAMES].filter(name => !seated.has(name));
+  if (candidates.length === 0) return state;
+
+  const leaving = state.players[seatIndex];
+  const afterLeaving = cashOut(state, leaving.id);
+  const cash = afterLeaving.cashGame!;
+  const name = candidates[Math.floor(rng() * candidates.length)];
+  const id = `bot_${cash.nextSeatId}`;
+  const chips = Math.min(cash.rules.maxBuyIn, randomBuyIn(cash.rules, rng));
+
+  const newcomer: Player = {
+    id,
+    name,
+    chips,
+    hand: [],
+    isHuman: false,
+    isActive: true,
+    isAllIn: false,
+    currentBet: 0,
+    position: '',
+    avatarSeed: cash.nextSeatId * 13 + 7,
+    personality: AI_PERSONALITIES[cash.nextSeatId % AI_PERSONALITIES.length]
+  };
+
+  return {
+    ...afterLeaving,
+    players: afterLeaving.players.map((p, i) => i === seatIndex ? newcomer : p),
+    cashGame: {
+      ...cash,
+      ledger: [...cash.ledger, { playerId: id, name, boughtIn: chips, cashedOut: 0, isSeated: true }],
+      nextSeatId: cash.nextSeatId + 1
+    },
+    roundLog: [...afterLeaving.roundLog, `${name} sits down with ${chips}`]
+  };
+};
+
+/**
+ * Between hands: busted bots reload or give up their seat, and bots with chips occasionally
+ * stand up. Every empty bot seat is refilled so the table never runs short-handed.
+ */
+export const settleCashTable = (state: GameState): GameState => {
+  const cash = state.cashGame;
+  if (!cash) return state;
+
+  const rng = createRng(deriveSeed(state.runSeed ?? 0, state.handCount, TABLE_SEED_SALT));
+  return state.players.reduce((next, player, seatIndex) => {
+    if (player.isHuman) return next;
+    if (player.chips <= 0) {
+      return rng() < cash.rules.botRebuyChance
+        ? addChips(next, player.id, randomBuyIn(cash.rules, rng))
+        : replaceBot(next, seatIndex, rng);
+    }
+    return rng() < cash.rules.botLeaveChance ? replaceBot(next, seatIndex, rng) : next;
+  }, state);
+};
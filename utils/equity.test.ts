@@ -0,0 +1,58 @@
+import { calculateEquity, parseRange, requiredEquity, scoreCards } from './equity';
+import { createDeck, evaluateHand, shuffleDeck } from './poker';
+import { createRng } from './random';
+import { Card, Rank, Suit } from '../types';
+
+declare var describe: any;
+declare var test: any;
+
+const c = (rank: Rank, suit: Suit): Card => ({ rank, suit, id: `${rank}-${suit}` });
+
+describe('Equity Engine Tests', () => {
+
+  test('parseRange: expands pairs, suited and plus notation', () => {
+    if (parseRange('AA').length !== 6) throw new Error('AA should be 6 combos');
+    if (parseRange('AKs').length !== 4) throw new Error('AKs should be 4 combos');
+    if (parseRange('AKo').length !== 12) throw new Error('AKo should be 12 combos');
+    if (parseRange('QQ+').length !== 18) throw new Error('QQ+ should be 18 combos');
+    if (parseRange('AJs+, AA').length !== 18) throw new Error('AJs+ plus AA should be 18 combos');
+  });
+
+  test('scoreCards: matches evaluateHand on random seven-card hands', () => {
+    const rng = createRng(99);
+    for (let i = 0; i < 2000; i++) {
+      const cards = shuffleDeck(createDeck(), rng).slice(0, 7);
+      const fast = scoreCards(cards.slice(0, 2), cards.slice(2));
+      const full = evaluateHand(cards.slice(0, 2), cards.slice(2)).score;
+      if (fast !== full) throw new Error(`Score mismatch on ${cards.map(c => c.id).join(' ')}: ${fast} vs ${full}`);
+    }
+  });
+
+  test('calculateEquity: river is solved exactly', () => {
+    // Royal flush on board: everyone splits
+    const board = [c(Rank.ACE, Suit.SPADES), c(Rank.KING, Suit.SPADES), c(Rank.QUEEN, Suit.SPADES), c(Rank.JACK, Suit.SPADES), c(Rank.TEN, Suit.SPADES)];
+    const result = calculateEquity([c(Rank.TWO, Suit.HEARTS), c(Rank.THREE, Suit.CLUBS)], board, [null]);
+    if (!result.exact) throw new Error('River equity should be exact');
+    if (result.tie !== 1 || result.equity !== 0.5) throw new Error(`Expected a guaranteed split, got ${result.equity}`);
+  });
+
+  test('calculateEquity: AA is a big favourite pre-flop, and seeded runs repeat', () => {
+    const aces = [c(Rank.ACE, Suit.SPADES), c(Rank.ACE, Suit.HEARTS)];
+    const a = calculateEquity(aces, [], [null], { iterations: 1500, rng: createRng(11) });
+    const b = calculateEquity(aces, [], [null], { iterations: 1500, rng: createRng(11) });
+    if (a.equity < 0.8 || a.equity > 0.9) throw new Error(`AA vs random should be ~85%, got ${a.equity}`);
+    if (a.equity !== b.equity) throw new Error('Same seed should give the same equity');
+  });
+
+  test('calculateEquity: respects opponent ranges', () => {
+    const kings = [c(Rank.KING, Suit.SPADES), c(Rank.KING, Suit.HEARTS)];
+    const result = calculateEquity(kings, [], ['AA'], { iterations: 1500, rng: createRng(5) });
+    if (result.equity > 0.3) throw new Error(`KK vs AA should be ~18%, got ${result.equity}`);
+  });
+
+  test('requiredEquity: call share of the final pot', () => {
+    if (requiredEquity(100, 50) !== 50 / 150) throw new Error('Expected 1/3');
+    if (requiredEquity(100, 0) !== 0) throw new Error('Nothing to call needs no equity');
+  });
+
+});
@@ -0,0 +1,288 @@
+import { Card, Rank, HandCategory, Pot } from '../types';
+import { RANKS } from '../constants';
+import { createDeck, getCardValue, encodeScore } from './poker';
+import { Rng } from './random';
+
+// --- Equity Engine ---
+// Monte Carlo (or exact enumeration heads-up on the turn/river) of a hand against random
+// hands or ranges. Runs fully offline so the HUD can refresh it every street.
+
+export interface EquityResult {
+  equity: number;   // 0-1, ties counted as a fractional share of the pot
+  win: number;      // 0-1, outright wins
+  tie: number;      // 0-1, split pots
+  samples: number;
+  exact: boolean;
+}
+
+export interface EquityOptions {
+  iterations?: number;
+  rng?: Rng;
+}
+
+type HoleCards = [Card, Card];
+
+const RANK_CHARS: Record<string, Rank> = {
+  '2': Rank.TWO, '3': Rank.THREE, '4': Rank.FOUR, '5': Rank.FIVE, '6': Rank.SIX, '7': Rank.SEVEN,
+  '8': Rank.EIGHT, '9': Rank.NINE, 'T': Rank.TEN, 'J': Rank.JACK, 'Q': Rank.QUEEN, 'K': Rank.KING, 'A': Rank.ACE
+};
+
+const rankIndex = (rank: Rank) => RANKS.indexOf(rank);
+
+const combosFor = (high: Rank, low: Rank, kind: 's' | 'o' | ''): HoleCards[] => {
+  const deck = createDeck();
+  const highs = deck.filter(c => c.rank === high);
+  const lows = deck.filter(c => c.rank === low);
+  const combos: HoleCards[] = [];
+  highs.forEach(a => lows.forEach(b => {
+    if (a.id >= b.id && high === low) return; // Each pair combo once
+    if (kind === 's' && a.suit !== b.suit) return;
+    if (kind === 'o' && a.suit === b.suit) return;
+    combos.push([a, b]);
+  }));
+  return combos;
+};
+
+// Parses ranges like "QQ+, AKs, AJo+, 76s" into concrete two-card combos
+export const parseRange = (text: string): HoleCards[] => {
+  const combos = new Map<string, HoleCards>();
+  const add = (list: HoleCards[]) => list.forEach(c => combos.set([c[0].id, c[1].id].sort().join(), c));
+
+  text.split(',').map(t => t.trim().toUpperCase()).filter(Boolean).forEach(token => {
+    const match = token.match(/^([2-9TJQKA])([2-9TJQKA])([SO])?(\+)?$/);
+    if (!match) throw new Error(`Unrecognised range token "${token}"`);
+
+    let high = RANK_CHARS[match[1]], low = RANK_CHARS[match[2]];
+    if (rankIndex(low) > rankIndex(high)) [high, low] = [low, high];
+    const kind = (match[3]?.toLowerCase() || '') as 's' | 'o' | '';
+    const plus = !!match[4];
+
+    if (high === low) {
+      // "TT+" = every pair from tens up
+      const top = plus ? RANKS.length - 1 : rankIndex(high);
+      for (let i = rankIndex(high); i <= top; i++) add(combosFor(RANKS[i], RANKS[i], ''));
+    } else {
+      // "ATs+" = ATs, AJs, AQs, AKs
+      const top = plus ? rankIndex(high) - 1 : rankIndex(low);
+      for (let i = rankIndex(low); i <= top; i++) add(combosFor(high, RANKS[i], kind));
+    }
+  });
+
+  return Array.from(combos.values());
+};
+
+const shuffleInPlace = (cards: Card[], rng: Rng, count: number) => {
+  // Partial Fisher-Yates: only the first `count` slots need to be random
+  for (let i = 0; i < count && i < cards.length; i++) {
+    const j = i + Math.floor(rng() * (cards.length - i));
+    [cards[i], cards[j]] = [cards[j], cards[i]];
+  }
+};
+
+// --- Fast Scoring ---
+// Score-only twin of evaluateHand (same encoding, no descriptions or card lists) for the hot loop
+
+const SUIT_INDEX: Record<string, number> = {};
+
+const highestStraight = (mask: number): number => {
+  const bits = mask | ((mask >> 14) & 1) << 1; // Ace also plays low
+  for (let high = 14; high >= 5; high--) {
+    const run = 0b11111 << (high - 4);
+    if ((bits & run) === run) return high;
+  }
+  return 0;
+};
+
+export const scoreCards = (holeCards: Card[], board: Card[]): number => {
+  const counts = new Uint8Array(15);
+  const suitMasks = [0, 0, 0, 0];
+  const suitCounts = [0, 0, 0, 0];
+  let mask = 0;
+
+  const add = (card: Card) => {
+    const value = getCardValue(card);
+    const suit = SUIT_INDEX[card.suit] ?? (SUIT_INDEX[card.suit] = Object.keys(SUIT_INDEX).length);
+    counts[value]++;
+    suitMasks[suit] |= 1 << value;
+    suitCounts[suit]++;
+    mask |= 1 << value;
+  };
+  for (let i = 0; i < holeCards.length; i++) add(holeCards[i]);
+  for (let i = 0; i < board.length; i++) add(board[i]);
+
+  const flushSuit = suitCounts.findIndex(n => n >= 5);
+  if (flushSuit >= 0) {
+    const high = highestStraight(suitMasks[flushSuit]);
+    if (high) return encodeScore(HandCategory.STRAIGHT_FLUSH, [high]);
+  }
+
+  const quads: number[] = [], trips: number[] = [], pairs: number[] = [];
+  for (let v = 14; v >= 2; v--) {
+    if (counts[v] === 4) quads.push(v);
+    else if (counts[v] === 3) trips.push(v);
+    else if (counts[v] === 2) pairs.push(v);
+  }
+
+  // Highest remaining ranks once whole rank groups are set aside
+  const kickers = (used: number[], n: number) => {
+    const result: number[] = [];
+    for (let v = 14; v >= 2 && result.length < n; v--) {
+      if (used.includes(v)) continue;
+      for (let k = 0; k < counts[v] && result.length < n; k++) result.push(v);
+    }
+    return result;
+  };
+
+  if (quads.length) return encodeScore(HandCategory.FOUR_OF_A_KIND, [quads[0], ...kickers([quads[0]], 1)]);
+  if (trips.length && (trips.length > 1 || pairs.length)) {
+    return encodeScore(HandCategory.FULL_HOUSE, [trips[0], trips.length > 1 ? trips[1] : pairs[0]]);
+  }
+  if (flushSuit >= 0) {
+    const flush: number[] = [];
+    for (let v = 14; v >= 2 && flush.length < 5; v--) if (suitMasks[flushSuit] & (1 << v)) flush.push(v);
+    return encodeScore(HandCategory.FLUSH, flush);
+  }
+  const straightHigh = highestStraight(mask);
+  if (straightHigh) return encodeScore(HandCategory.STRAIGHT, [straightHigh]);
+  if (trips.length) return encodeScore(HandCategory.THREE_OF_A_KIND, [trips[0], ...kickers([trips[0]], 2)]);
+  if (pairs.length >= 2) return encodeScore(HandCategory.TWO_PAIR, [pairs[0], pairs[1], ...kickers([pairs[0], pairs[1]], 1)]);
+  if (pairs.length) return encodeScore(HandCategory.PAIR, [pairs[0], ...kickers([pairs[0]], 3)]);
+  return encodeScore(HandCategory.HIGH_CARD, kickers([], 5));
+};
+
+// Scores one showdown: 1 for a win, 1/n for an n-way tie, 0 for a loss
+const scoreShowdown = (heroScore: number, opponents: Card[][], board: Card[]): { share: number; won: boolean; tied: boolean } => {
+  let tiedWith = 0;
+  for (const opp of opponents) {
+    const score = scoreCards(opp, board);
+    if (score > heroScore) return { share: 0, won: false, tied: false };
+    if (score === heroScore) tiedWith++;
+  }
+  return tiedWith ? { share: 1 / (tiedWith + 1), won: false, tied: true } : { share: 1, won: true, tied: false };
+};
+
+const enumerateHeadsUp = (hero: Card[], board: Card[], remaining: Card[]): EquityResult => {
+  let equity = 0, wins = 0, ties = 0, samples = 0;
+  const runouts: Card[][] = board.length === 5 ? [[]] : remaining.map(c => [c]);
+
+  runouts.forEach(runout => {
+    const fullBoard = [...board, ...runout];
+    const heroScore = scoreCards(hero, fullBoard);
+    const live = remaining.filter(c => !runout.includes(c));
+    for (let i = 0; i < live.length; i++) {
+      for (let j = i + 1; j < live.length; j++) {
+        const result = scoreShowdown(heroScore, [[live[i], live[j]]], fullBoard);
+        equity += result.share;
+        if (result.won) wins++;
+        if (result.tied) ties++;
+        samples++;
+      }
+    }
+  });
+
+  return { equity: equity / samples, win: wins / samples, tie: ties / samples, samples, exact: true };
+};
+
+/**
+ * Equity of `hero` on `board` against opponents, each given as a range string
+ * (e.g. "TT+, AQs+") or null for a random hand.
+ */
+export const calculateEquity = (hero: Card[], board: Card[], opponents: (string | null)[], options: EquityOptions = {}): EquityResult => {
+  if (hero.length !== 2 || opponents.length === 0) return { equity: 1, win: 1, tie: 0, samples: 0, exact: true };
+
+  const dead = new Set([...hero, ...board].map(c => c.id));
+  const remaining = createDeck().filter(c => !dead.has(c.id));
+  const ranges = opponents.map(r => r ? parseRange(r).filter(([a, b]) => !dead.has(a.id) && !dead.has(b.id)) : null);
+
+  if (ranges.some(r => r !== null && r.length === 0)) throw new Error('Opponent range has no live combos');
+
+  // Heads-up vs a random hand on the turn/river is small enough to solve exactly
+  if (opponents.length === 1 && ranges[0] === null && board.length >= 4) {
+    return enumerateHeadsUp(hero, board, remaining);
+  }
+
+  const rng = options.rng || Math.random;
+  const iterations = options.iterations || 2000;
+  const boardNeeded = 5 - board.length;
+  let equity = 0, wins = 0, ties = 0, samples = 0;
+
+  for (let n = 0; n < iterations; n++) {
+    const used = new Set<string>();
+    const oppHands: Card[][] = [];
+    let valid = true;
+
+    // Ranged opponents first, so random hands fill in around them
+    ranges.forEach(range => {
+      if (!range || !valid) return;
+      const live = range.filter(([a, b]) => !used.has(a.id) && !used.has(b.id));
+      if (live.length === 0) { valid = false; return; }
+      const pick = live[Math.floor(rng() * live.length)];
+      pick.forEach(c => used.add(c.id));
+      oppHands.push(pick);
+    });
+    if (!valid) continue;
+
+    const pool = remaining.filter(c => !used.has(c.id));
+    const randomCount = ranges.filter(r => r === null).length;
+    shuffleInPlace(pool, rng, randomCount * 2 + boardNeeded);
+
+    for (let i = 0; i < randomCount; i++) oppHands.push([pool[i * 2], pool[i * 2 + 1]]);
+    const fullBoard = [...board, ...pool.slice(randomCount * 2, randomCount * 2 + boardNeeded)];
+
+    const result = scoreShowdown(scoreCards(hero, fullBoard), oppHands, fullBoard);
+    equity += result.share;
+    if (result.won) wins++;
+    if (result.tied) ties++;
+    samples++;
+  }
+
+  if (samples === 0) return { equity: 0, win: 0, tie: 0, samples: 0, exact: false };
+  return { equity: equity / samples, win: wins / samples, tie: ties / samples, samples, exact: false };
+};
+
+/**
+ * Expected chips each player takes from `pots` when every hand is face up and the rest of
+ * the board is still to come (all-in EV). Exact from the flop on, sampled pre-flop.
+ */
+export const expectedPotShares = (hands: Record<string, Card[]>, board: Card[], pots: Pot[], options: EquityOptions = {}): Record<string, number> => {
+  const ids = Object.keys(hands);
+  const dead = new Set([...board, ...ids.flatMap(id => hands[id])].map(c => c.id));
+  const remaining = createDeck().filter(c => !dead.has(c.id));
+  const boardNeeded = 5 - board.length;
+
+  let runouts: Card[][];
+  if (boardNeeded === 0) {
+    runouts = [[]];
+  } else if (boardNeeded === 1) {
+    runouts = remaining.map(c => [c]);
+  } else if (boardNeeded === 2) {
+    runouts = remaining.flatMap((a, i) => remaining.slice(i + 1).map(b => [a, b]));
+  } else {
+    const rng = options.rng || Math.random;
+    runouts = Array.from({ length: options.iterations || 2000 }, () => {
+      const pool = [...remaining];
+      shuffleInPlace(pool, rng, boardNeeded);
+      return pool.slice(0, boardNeeded);
+    });
+  }
+
+  const shares: Record<string, number> = Object.fromEntries(ids.map(id => [id, 0]));
+  runouts.forEach(runout => {
+    const fullBoard = [...board, ...runout];
+    const scores = new Map(ids.map(id => [id, scoreCards(hands[id], fullBoard)]));
+    pots.forEach(pot => {
+      const contenders = pot.eligiblePlayerIds.filter(id => scores.has(id));
+      const best = Math.max(...contenders.map(id => scores.get(id)!));
+      const winners = contenders.filter(id => scores.get(id) === best);
+      winners.forEach(id => { shares[id] += pot.amount / winners.length; });
+    });
+  });
+
+  ids.forEach(id => { shares[id] /= runouts.length; });
+  return shares;
+};
+
+// Break-even equity for a call: what share of the final pot the call represents
+export const requiredEquity = (pot: number, toCall: number) => toCall <= 0 ? 0 : toCall / (pot + toCall);
+
+export const formatEquity = (equity: number) => `${Math.round(equity * 100)}%`;
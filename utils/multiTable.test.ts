@@ -0,0 +1,62 @@
+import { createMultiTableTournament, createFieldBots, setupNextMultiTableHand, playOutMultiTable, summarizeTables, balanceTables } from './multiTable';
+import { playHand } from './simulator';
+import { parseBlindSchedule } from './tournament';
+import { DEFAULT_TOURNAMENT } from '../constants';
+import { Player, TournamentStructure, TournamentTable } from '../types';
+
+declare var describe: any;
+declare var test: any;
+
+const fast: TournamentStructure = {
+  ...DEFAULT_TOURNAMENT,
+  levelLength: 4,
+  levels: parseBlindSchedule('10/20, 25/50/5, 50/100/10, 100/200/25, 200/400/50, 500/1000/100, 1000/2000/200, 2000/4000/400')
+};
+
+const hero = (chips: number): Player => ({
+  id: 'p1', name: 'You', chips, hand: [], isHuman: true, isActive: true, isAllIn: false, currentBet: 0, position: ''
+});
+
+const table = (id: number, count: number, dealerIndex = 0): TournamentTable =>
+  ({ id, players: createFieldBots(count, 500).map(p => ({ ...p, id: `t${id}_${p.id}` })), dealerIndex });
+
+describe('Multi-Table Tests', () => {
+
+  test('balanceTables: breaks the shortest table once the field fits and evens out the rest', () => {
+    const broken = balanceTables([table(1, 6), table(2, 3), table(3, 6)], 8);
+    const sizes = broken.tables.map(t => t.players.length);
+    if (broken.tables.length !== 2 || broken.tables.some(t => t.id === 2)) throw new Error(`Table 2 should break, got ${broken.tables.map(t => t.id)}`);
+    if (sizes.join() !== '8,7' && sizes.join() !== '7,8') throw new Error(`Expected 8 and 7 players, got ${sizes}`);
+
+    const evened = balanceTables([table(1, 8), table(2, 5)], 8);
+    if (evened.tables.map(t => t.players.length).join() !== '7,6') throw new Error(`Expected 7/6 after balancing, got ${evened.tables.map(t => t.players.length)}`);
+    if (!evened.log.some(line => line.includes('from Table 1 to Table 2'))) throw new Error('Moves should be logged');
+  });
+
+  test('simulated league final: tables stay balanced, chips are conserved and every place is awarded', () => {
+    const chips = 1000;
+    let state = createMultiTableTournament([hero(chips), ...createFieldBots(23, chips)], fast, 8, 21, 0);
+    if (summarizeTables(state).tables.length !== 3) throw new Error('24 players should start at three tables');
+
+    for (let hand = 0; hand < 500 && !state.tournament!.isComplete; hand++) {
+      state = playHand(state, {});
+      if (state.players.find(p => p.isHuman)!.chips <= 0) {
+        state = playOutMultiTable(state, 0);
+        break;
+      }
+      state = setupNextMultiTableHand(state, 0);
+
+      const overview = summarizeTables(state);
+      const sizes = overview.tables.map(t => t.players.length);
+      if (Math.max(...sizes) - Math.min(...sizes) > 1) throw new Error(`Hand ${state.handCount}: unbalanced tables ${sizes}`);
+      if (overview.tables.length !== Math.ceil(overview.playersLeft / 8)) throw new Error(`Hand ${state.handCount}: ${overview.tables.length} tables for ${overview.playersLeft} players`);
+      const total = overview.tables.reduce((sum, t) => sum + t.chips, 0);
+      if (total !== 24 * chips) throw new Error(`Hand ${state.handCount}: ${total} chips in play, expected ${24 * chips}`);
+    }
+
+    const tournament = state.tournament!;
+    if (!tournament.isComplete) throw new Error('The event should finish');
+    const places = tournament.eliminations.map(e => e.place).sort((a, b) => a - b);
+    if (places.join() !== Array.from({ length: 24 }, (_, i) => i + 1).join()) throw new Error(`Places should run 1-24 once each, got ${places}`);
+  });
+});
@@ -0,0 +1,239 @@
+import { GameState, GamePhase, Player, TournamentStructure, TournamentState, TournamentTable, MultiTableState, BlindLevel } from '../types';
+import { FRIEND_NAMES, GUEST_NAMES, AI_PERSONALITIES } from '../constants';
+import { GameEngine } from './GameEngine';
+import { playHand } from './simulator';
+import { createRng, deriveSeed } from './random';
+import { createTournament, advanceLevel, getTournamentBlinds, formatBlinds, formatPlace } from './tournament';
+
+// --- Multi-Table Tournament ---
+// The human plays one table as a normal GameState; every other table plays one headless hand per
+// hand the human plays, on the same blind clock. Between hands busted players leave, tables break
+// once the field fits in fewer of them, and players move so no table has two more than another.
+
+const SEAT_DRAW_SALT = 0x5EA7;
+const SIMULATED_HAND_MS = 60000; // A live table deals about a hand a minute
+
+// "Nick", ..., "Tina", "Nick #2", ...
+export const getFieldNames = (count: number): string[] => {
+  const pool = [...FRIEND_NAMES, ...GUEST_NAMES];
+  return Array.from({ length: count }, (_, i) => {
+    const lap = Math.floor(i / pool.length);
+    return lap === 0 ? pool[i % pool.length] : `${pool[i % pool.length]} #${lap + 1}`;
+  });
+};
+
+export const createFieldBots = (count: number, chips: number): Player[] =>
+  getFieldNames(count).map((name, i) => ({
+    id: `bot_${i}`,
+    name,
+    chips,
+    hand: [],
+    isHuman: false,
+    isActive: true,
+    isAllIn: false,
+    currentBet: 0,
+    position: '',
+    avatarSeed: i * 13 + 7,
+    personality: AI_PERSONALITIES[i % AI_PERSONALITIES.length]
+  }));
+
+// Every table in the event, the human's included, as seat lists
+export const getAllTables = (state: GameState): TournamentTable[] => {
+  const multiTable = state.multiTable;
+  if (!multiTable) return [];
+  const home = { id: multiTable.tableId, players: state.players, dealerIndex: state.dealerIndex };
+  return [home, ...multiTable.otherTables].sort((a, b) => a.id - b.id);
+};
+
+const tableSeed = (runSeed: number, tableId: number) => deriveSeed(runSeed, tableId);
+
+/**
+ * Seats the field at random across as few tables as it fits, spread evenly, and deals the
+ * human's first hand.
+ */
+export const createMultiTableTournament = (players: Player[], structure: TournamentStructure, tableSize: number, runSeed: number, now: number = Date.now()): GameState => {
+  const rng = createRng(deriveSeed(runSeed, SEAT_DRAW_SALT));
+  const draw = [...players];
+  for (let i = draw.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [draw[i], draw[j]] = [draw[j], draw[i]];
+  }
+
+  const tableCount = Math.ceil(draw.length / tableSize);
+  const tables: TournamentTable[] = Array.from({ length: tableCount }, (_, i) => ({ id: i + 1, players: [], dealerIndex: -1 }));
+  draw.forEach((player, i) => tables[i % tableCount].players.push(player));
+
+  const home = tables.find(t => t.players.some(p => p.isHuman)) || tables[0];
+  const tournament = createTournament(structure, players.length, now);
+  const first = GameEngine.setupFirstHand(home.players, runSeed, { tournament });
+  return {
+    ...first,
+    multiTable: { tableId: home.id, otherTables: tables.filter(t => t !== home), tableSize },
+    roundLog: [`Seat draw: Table ${home.id} of ${tableCount}`, ...first.roundLog]
+  };
+};
+
+// --- Between Hands ---
+
+interface RoundResult {
+  tables: TournamentTable[];
+  tournament: TournamentState;
+  log: string[];
+}
+
+// One headless hand on `table`, played as hand number `handNumber`
+const playTableHand = (table: TournamentTable, tournament: TournamentState, runSeed: number, handNumber: number, blinds: BlindLevel): RoundResult => {
+  if (tournament.isComplete || table.players.filter(p => p.chips > 0).length < 2) return { tables: [table], tournament, log: [] };
+  const dealt = GameEngine.setupNewHand(table.players, table.dealerIndex, handNumber - 1, [], tableSeed(runSeed, table.id), undefined, blinds);
+  const done = playHand({ ...dealt, tournament }, {});
+  const after = done.tournament || tournament;
+  return {
+    tables: [{ ...table, players: done.players, dealerIndex: done.dealerIndex }],
+    tournament: after,
+    log: after.eliminations.slice(tournament.eliminations.length).map(e =>
+      e.place === 1 ? `${e.name} wins the tournament!` : `Table ${table.id}: ${e.name} is out in ${formatPlace(e.place)} place`)
+  };
+};
+
+// Plays every table once, each after the last so places are handed out in order
+const playRound = (tables: TournamentTable[], tournament: TournamentState, runSeed: number, handNumber: number, blinds: BlindLevel): RoundResult =>
+  tables.reduce<RoundResult>((round, table) => {
+    const result = playTableHand(table, round.tournament, runSeed, handNumber, blinds);
+    return { tables: [...round.tables, ...result.tables], tournament: result.tournament, log: [...round.log, ...result.log] };
+  }, { tables: [], tournament, log: [] });
+
+// Keeps the button with the player who had it, or on the seat before it when they leave
+const removeSeat = (table: TournamentTable, index: number): TournamentTable => ({
+  ...table,
+  players: table.players.filter((_, i) => i !== index),
+  dealerIndex: index <= table.dealerIndex ? table.dealerIndex - 1 : table.dealerIndex
+});
+
+const addSeat = (table: TournamentTable, player: Player): TournamentTable => ({ ...table, players: [...table.players, player] });
+
+const shortest = (tables: TournamentTable[]) =>
+  tables.reduce((best, t) => t.players.length < best.players.length ? t : best);
+
+const longest = (tables: TournamentTable[]) =>
+  tables.reduce((best, t) => t.players.length > best.players.length ? t : best);
+
+/**
+ * Breaks tables while the field fits at fewer of them (shortest table first), then moves players
+ * from the longest table to the shortest until they differ by at most one. As in live events, the
+ * player who moves is the one due the big blind next.
+ */
+export const balanceTables = (tables: TournamentTable[], tableSize: number): { tables: TournamentTable[]; log: string[] } => {
+  let working = tables.filter(t => t.players.length > 0);
+  const log: string[] = [];
+  if (working.length === 0) return { tables: working, log };
+  const field = working.reduce((sum, t) => sum + t.players.length, 0);
+
+  while (working.length > 1 && Math.ceil(field / tableSize) < working.length) {
+    const broken = shortest([...working].reverse()); // Ties break the highest-numbered table
+    working = working.filter(t => t !== broken);
+    log.push(working.length === 1 ? `Table ${broken.id} breaks: final table!` : `Table ${broken.id} breaks`);
+    broken.players.forEach(player => {
+      const destination = shortest(working);
+      working = working.map(t => t === destination ? addSeat(t, player) : t);
+      log.push(`${player.name} moves to Table ${destination.id}`);
+    });
+  }
+
+  for (let big = longest(working), small = shortest(working); big.players.length - small.players.length > 1; big = longest(working), small = shortest(working)) {
+    const index = (big.dealerIndex + 3) % big.players.length;
+    const player = big.players[index];
+    working = working.map(t => t === big ? removeSeat(t, index) : t === small ? addSeat(t, player) : t);
+    log.push(`${player.name} moves from Table ${big.id} to Table ${small.id}`);
+  }
+
+  return { tables: working.sort((a, b) => a.id - b.id), log };
+};
+
+// Busted players leave, tables break or balance, and the shared clock moves
+const settleRound = (round: RoundResult, tableSize: number, handCount: number, now: number): RoundResult => {
+  const seated = round.tables.map(t => {
+    let table = t;
+    for (let i = table.players.length - 1; i >= 0; i--) {
+      if (table.players[i].chips <= 0) table = removeSeat(table, i);
+    }
+    return table;
+  });
+  const balanced = balanceTables(seated, tableSize);
+  const tournament = advanceLevel(round.tournament, handCount, now);
+  const levelUp = tournament.level !== round.tournament.level
+    ? [`Blinds up: Level ${tournament.level + 1} - ${formatBlinds(getTournamentBlinds(tournament))}`]
+    : [];
+  return { tables: balanced.tables, tournament, log: [...round.log, ...balanced.log, ...levelUp] };
+};
+
+// The human's hand is over: the other tables play the same hand number, then everyone settles
+const finishHumanHand = (state: GameState, multiTable: MultiTableState, tournament: TournamentState, now: number): RoundResult => {
+  const others = playRound(multiTable.otherTables, tournament, state.runSeed ?? 0, state.handCount, state.blinds || getTournamentBlinds(tournament));
+  const home = { id: multiTable.tableId, players: state.players, dealerIndex: state.dealerIndex };
+  return settleRound({ ...others, tables: [home, ...others.tables] }, multiTable.tableSize, state.handCount, now);
+};
+
+/**
+ * Call once the human's hand is over: the other tables play the same hand number, the field is
+ * rebalanced, and the human's next hand is dealt at whichever table they now sit at.
+ */
+export const setupNextMultiTableHand = (state: GameState, now: number = Date.now()): GameState => {
+  const multiTable = state.multiTable;
+  if (!multiTable || !state.tournament) return GameEngine.setupNextHand(state, now);
+
+  const round = finishHumanHand(state, multiTable, state.tournament, now);
+  const humanTable = round.tables.find(t => t.players.some(p => p.isHuman));
+  if (!humanTable) return { ...state, tournament: round.tournament, multiTable: { ...multiTable, otherTables: round.tables } };
+
+  const next = GameEngine.setupNewHand(humanTable.players, humanTable.dealerIndex, state.handCount, state.handHistory, state.runSeed, undefined, getTournamentBlinds(round.tournament));
+  const moved = humanTable.id !== multiTable.tableId ? [`You take a seat at Table ${humanTable.id}`] : [];
+  return {
+    ...next,
+    tournament: round.tournament,
+    multiTable: { ...multiTable, tableId: humanTable.id, otherTables: round.tables.filter(t => t !== humanTable) },
+    roundLog: [...round.log, ...moved, ...next.roundLog]
+  };
+};
+
+/**
+ * After the human busts: plays the rest of the event headlessly so the final standings are
+ * complete. A minutes-based clock advances a minute per simulated hand.
+ */
+export const playOutMultiTable = (state: GameState, now: number = Date.now(), maxHands: number = 2000): GameState => {
+  const multiTable = state.multiTable;
+  if (!multiTable || !state.tournament) return state;
+
+  const runSeed = state.runSeed ?? 0;
+  let round = finishHumanHand(state, multiTable, state.tournament, now);
+  for (let handNumber = state.handCount + 1, clock = now + SIMULATED_HAND_MS; !round.tournament.isComplete && handNumber <= state.handCount + maxHands; handNumber++, clock += SIMULATED_HAND_MS) {
+    const played = playRound(round.tables, round.tournament, runSeed, handNumber, getTournamentBlinds(round.tournament));
+    round = settleRound(played, multiTable.tableSize, handNumber, clock);
+  }
+
+  return { ...state, tournament: round.tournament, multiTable: { ...multiTable, otherTables: round.tables } };
+};
+
+// --- Overview ---
+
+export interface TableSummary {
+  id: number;
+  players: Player[];       // Chip leader first
+  chips: number;
+  hasHuman: boolean;
+}
+
+// Stacks as of the start of the human's current hand, so chips in the pot still count
+export const summarizeTables = (state: GameState): { tables: TableSummary[]; playersLeft: number; averageStack: number } => {
+  const inHand = state.phase !== GamePhase.SHOWDOWN;
+  const tables = getAllTables(state).map(t => {
+    const isHome = t.id === state.multiTable?.tableId;
+    const players = t.players
+      .map(p => isHome && inHand ? { ...p, chips: p.chips + (p.totalContribution || 0) } : p)
+      .filter(p => p.chips > 0)
+      .sort((a, b) => b.chips - a.chips);
+    return { id: t.id, players, chips: players.reduce((sum, p) => sum + p.chips, 0), hasHuman: isHome };
+  });
+  const playersLeft = tables.reduce((sum, t) => sum + t.players.length, 0);
+  const chips = tables.reduce((sum, t) => sum + t.chips, 0);
+  return { tables, playersLeft, averageStack: playersLeft ? Math.round(chips / playersLeft) : 0 };
+};
@@ -1,4 +1,4 @@
-import { evaluateHand, gradeStartingHand, determineWinner } from './poker';
+import { evaluateHand, gradeStartingHand, determineWinner, getPositionLabel } from './poker';
 import { Card, Suit, Rank, Player } from '../types';
 
 declare var describe: any;
@@ -75,4 +75,49 @@ describe('Poker Logic Tests', () => {
     if (winners.length !== 1 || winners[0].id !== '1') throw new Error('Player 1 should win with better Full House');
   });
 
-});
\ No newline at end of file
+  test('evaluateHand: Straight flush beats quads', () => {
+    const board = [c(Rank.NINE, Suit.CLUBS), c(Rank.EIGHT, Suit.CLUBS), c(Rank.SEVEN, Suit.CLUBS), c(Rank.SEVEN, Suit.HEARTS), c(Rank.SEVEN, Suit.SPADES)];
+    const sf = evaluateHand([c(Rank.SIX, Suit.CLUBS), c(Rank.FIVE, Suit.CLUBS)], board);
+    const quads = evaluateHand([c(Rank.SEVEN, Suit.DIAMONDS), c(Rank.ACE, Suit.HEARTS)], board);
+    if (sf.description !== "Straight Flush") throw new Error(`Expected Straight Flush, got ${sf.description}`);
+    if (sf.score <= quads.score) throw new Error('Straight flush should beat four of a kind');
+  });
+
+  test('evaluateHand: Royal flush and wheel straight', () => {
+    const royal = evaluateHand([c(Rank.ACE, Suit.SPADES), c(Rank.KING, Suit.SPADES)],
+      [c(Rank.QUEEN, Suit.SPADES), c(Rank.JACK, Suit.SPADES), c(Rank.TEN, Suit.SPADES), c(Rank.TWO, Suit.HEARTS), c(Rank.THREE, Suit.CLUBS)]);
+    if (royal.description !== "Royal Flush") throw new Error(`Expected Royal Flush, got ${royal.description}`);
+
+    const wheel = evaluateHand([c(Rank.ACE, Suit.SPADES), c(Rank.TWO, Suit.HEARTS)],
+      [c(Rank.THREE, Suit.CLUBS), c(Rank.FOUR, Suit.DIAMONDS), c(Rank.FIVE, Suit.SPADES), c(Rank.KING, Suit.HEARTS), c(Rank.NINE, Suit.CLUBS)]);
+    if (wheel.detail !== "Straight, Five high") throw new Error(`Expected wheel, got ${wheel.detail}`);
+  });
+
+  test('evaluateHand: Kicker decides a paired board', () => {
+    const board = [c(Rank.KING, Suit.HEARTS), c(Rank.KING, Suit.CLUBS), c(Rank.FIVE, Suit.SPADES), c(Rank.FIVE, Suit.DIAMONDS), c(Rank.TWO, Suit.CLUBS)];
+    const ak = evaluateHand([c(Rank.ACE, Suit.SPADES), c(Rank.JACK, Suit.HEARTS)], board);
+    const aq = evaluateHand([c(Rank.QUEEN, Suit.SPADES), c(Rank.TEN, Suit.HEARTS)], board);
+    if (ak.score <= aq.score) throw new Error('Ace kicker should beat Queen kicker');
+    if (ak.detail !== "Two Pair, Kings and Fives, Ace kicker") throw new Error(`Unexpected detail: ${ak.detail}`);
+    if (ak.bestCards.length !== 5) throw new Error(`Expected 5 best cards, got ${ak.bestCards.length}`);
+  });
+
+  test('evaluateHand: Identical best five cards tie', () => {
+    const board = [c(Rank.ACE, Suit.HEARTS), c(Rank.KING, Suit.CLUBS), c(Rank.QUEEN, Suit.SPADES), c(Rank.JACK, Suit.DIAMONDS), c(Rank.NINE, Suit.CLUBS)];
+    const p1 = evaluateHand([c(Rank.TWO, Suit.SPADES), c(Rank.THREE, Suit.HEARTS)], board);
+    const p2 = evaluateHand([c(Rank.FOUR, Suit.SPADES), c(Rank.SIX, Suit.HEARTS)], board);
+    if (p1.score !== p2.score) throw new Error('Playing the board should tie');
+  });
+
+  test('getPositionLabel: labels seats from the button and skips empty seats', () => {
+    const seat = (id: string, dealt: boolean): Player => ({
+        id, name: id, chips: 100, hand: dealt ? [c(Rank.TWO, Suit.CLUBS), c(Rank.THREE, Suit.CLUBS)] : [],
+        isActive: dealt, isHuman: false, isAllIn: false, currentBet: 0, position: ''
+    });
+    const players = [seat('a', true), seat('b', true), seat('c', false), seat('d', true), seat('e', true), seat('f', true)];
+    const labels = players.map((_, i) => getPositionLabel(players, 4, i));
+    if (labels.join() !== 'BB,UTG,,CO,BTN,SB') throw new Error(`Unexpected labels ${labels.join()}`);
+    if (getPositionLabel(players.slice(0, 2), 1, 0) !== 'BB') throw new Error('Heads-up non-button seat should be BB');
+  });
+
+});
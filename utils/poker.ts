@@ -1,5 +1,7 @@
-import { Card, Rank, Suit, Player, GameState, GamePhase } from '../types';
-import { RANKS, SUITS, BOT_PROFILES } from '../constants';
+import { Card, Rank, Suit, Player, GameState, GamePhase, HandCategory, HandEvaluation, SeatSnapshot } from '../types';
+import { RANKS, SUITS, BOT_PROFILES, BotPersonality } from '../constants';
+import { Rng, createRng, deriveSeed } from './random';
+import { getLegalActions, findRaise } from './betting';
 
 export const createDeck = (): Card[] => {
   const deck: Card[] = [];
@@ -11,10 +13,10 @@ export const createDeck = (): Card[] => {
   return deck;
 };
 
-export const shuffleDeck = (deck: Card[]): Card[] => {
+export const shuffleDeck = (deck: Card[], rng: Rng = Math.random): Card[] => {
   const newDeck = [...deck];
   for (let i = newDeck.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
     [newDeck[i], newDeck[j]] = [newDeck[j], newDeck[i]];
   }
   return newDeck;
@@ -26,7 +28,7 @@ const RANK_VALUE: Record<Rank, number> = {
   [Rank.TEN]: 10, [Rank.JACK]: 11, [Rank.QUEEN]: 12, [Rank.KING]: 13, [Rank.ACE]: 14
 };
 
-const getCardValue = (card: Card) => RANK_VALUE[card.rank];
+export const getCardValue = (card: Card) => RANK_VALUE[card.rank];
 
 // --- Hand Grading Logic (Chen Formula Simplified) ---
 export const gradeStartingHand = (hand: Card[]): { score: number, grade: string, tip: string } => {
@@ -84,84 +86,147 @@ export const gradeStartingHand = (hand: Card[]): { score: number, grade: string,
   return { score, grade, tip };
 };
 
-export const evaluateHand = (holeCards: Card[], communityCards: Card[]): { score: number, description: string } => {
+const RANK_NAMES: Record<number, [string, string]> = {
+  2: ['Two', 'Twos'], 3: ['Three', 'Threes'], 4: ['Four', 'Fours'], 5: ['Five', 'Fives'],
+  6: ['Six', 'Sixes'], 7: ['Seven', 'Sevens'], 8: ['Eight', 'Eights'], 9: ['Nine', 'Nines'],
+  10: ['Ten', 'Tens'], 11: ['Jack', 'Jacks'], 12: ['Queen', 'Queens'], 13: ['King', 'Kings'], 14: ['Ace', 'Aces']
+};
+
+const CATEGORY_NAMES: Record<HandCategory, string> = {
+  [HandCategory.HIGH_CARD]: "High Card",
+  [HandCategory.PAIR]: "Pair",
+  [HandCategory.TWO_PAIR]: "Two Pair",
+  [HandCategory.THREE_OF_A_KIND]: "Three of a Kind",
+  [HandCategory.STRAIGHT]: "Straight",
+  [HandCategory.FLUSH]: "Flush",
+  [HandCategory.FULL_HOUSE]: "Full House",
+  [HandCategory.FOUR_OF_A_KIND]: "Four of a Kind",
+  [HandCategory.STRAIGHT_FLUSH]: "Straight Flush"
+};
+
+const one = (v: number) => RANK_NAMES[v][0];
+const many = (v: number) => RANK_NAMES[v][1];
+
+// Score = category in the top digit, then up to five tiebreak ranks in base 16
+export const encodeScore = (category: HandCategory, tiebreaks: number[]) => {
+  let score = category;
+  for (let i = 0; i < 5; i++) score = score * 16 + (tiebreaks[i] || 0);
+  return score;
+};
+
+// Highest straight in a set of cards (sorted high to low). Returns the 5 cards, or null.
+const findStraight = (sortedCards: Card[]): Card[] | null => {
+  const byValue = new Map<number, Card>();
+  sortedCards.forEach(c => { if (!byValue.has(getCardValue(c))) byValue.set(getCardValue(c), c); });
+
+  for (let high = 14; high >= 5; high--) {
+    const run = [high, high - 1, high - 2, high - 3, high - 4].map(v => byValue.get(v === 1 ? 14 : v));
+    if (run.every(Boolean)) return run as Card[];
+  }
+  return null;
+};
+
+const buildEvaluation = (category: HandCategory, bestCards: Card[], tiebreaks: number[], detail: string): HandEvaluation => {
+  const isRoyal = category === HandCategory.STRAIGHT_FLUSH && tiebreaks[0] === 14;
+  return {
+    score: encodeScore(category, tiebreaks),
+    description: isRoyal ? "Royal Flush" : CATEGORY_NAMES[category],
+    detail: isRoyal ? "Royal Flush" : detail,
+    category,
+    bestCards
+  };
+};
+
+export const evaluateHand = (holeCards: Card[], communityCards: Card[]): HandEvaluation => {
   const allCards = [...holeCards, ...communityCards];
-  if (allCards.length === 0) return { score: 0, description: "Waiting" };
+  if (allCards.length === 0) {
+    return { score: 0, description: "Waiting", detail: "Waiting", category: HandCategory.HIGH_CARD, bestCards: [] };
+  }
   
   // Sort by value descending
   allCards.sort((a, b) => getCardValue(b) - getCardValue(a));
 
-  const values = allCards.map(c => getCardValue(c));
-  const suits = allCards.map(c => c.suit);
-  
-  // Frequency map
-  const counts: Record<number, number> = {};
-  values.forEach(v => counts[v] = (counts[v] || 0) + 1);
-  
-  const distinctValues = Object.keys(counts).map(Number).sort((a, b) => b - a);
-  
-  // Check Flush
-  const suitCounts: Record<string, number> = {};
-  suits.forEach(s => suitCounts[s] = (suitCounts[s] || 0) + 1);
-  const flushSuit = Object.keys(suitCounts).find(s => suitCounts[s] >= 5);
-  
-  let isFlush = false;
-  let flushCards: number[] = [];
-  if (flushSuit) {
-    isFlush = true;
-    flushCards = allCards.filter(c => c.suit === flushSuit).map(c => getCardValue(c));
-  }
-
-  // Check Straight
-  const uniqueSorted = Array.from(new Set(values));
-  let straightHigh = 0;
-  let consecutive = 0;
-  for (let i = 0; i < uniqueSorted.length - 1; i++) {
-    if (uniqueSorted[i] - uniqueSorted[i+1] === 1) {
-      consecutive++;
-      if (consecutive >= 4) straightHigh = uniqueSorted[i - 3];
-    } else {
-      consecutive = 0;
+  // 1. Straight Flush / Flush
+  const suitGroups: Record<string, Card[]> = {};
+  allCards.forEach(c => (suitGroups[c.suit] = suitGroups[c.suit] || []).push(c));
+  const flushCards = Object.values(suitGroups).find(group => group.length >= 5);
+
+  if (flushCards) {
+    const straightFlush = findStraight(flushCards);
+    if (straightFlush) {
+      const high = getCardValue(straightFlush[1]) + 1; // Wheel-safe: the Ace in A-5 reads as 5 high
+      return buildEvaluation(HandCategory.STRAIGHT_FLUSH, straightFlush, [high], `Straight Flush, ${one(high)} high`);
     }
   }
-  // Wheel (A-5)
-  if (!straightHigh && uniqueSorted.includes(14) && uniqueSorted.includes(2) && uniqueSorted.includes(3) && uniqueSorted.includes(4) && uniqueSorted.includes(5)) {
-    straightHigh = 5;
-  }
 
-  // Detect Hands
-  // 1. Straight Flush (Simplification: just checking if flush and straight exist)
-  
+  // Group by rank: bigger groups first, then higher rank
+  const rankGroups: Card[][] = [];
+  allCards.forEach(c => {
+    const group = rankGroups.find(g => getCardValue(g[0]) === getCardValue(c));
+    if (group) group.push(c); else rankGroups.push([c]);
+  });
+  rankGroups.sort((a, b) => b.length - a.length || getCardValue(b[0]) - getCardValue(a[0]));
+
+  const top = rankGroups[0];
+  const topValue = getCardValue(top[0]);
+  const kickersFor = (used: Card[], n: number) => allCards.filter(c => !used.includes(c)).slice(0, n);
+  const kickerText = (kickers: Card[]) => kickers.length ? `, ${one(getCardValue(kickers[0]))} kicker` : '';
+
   // 2. Four of a Kind
-  for (const v of distinctValues) if (counts[v] === 4) return { score: 7000 + v, description: "Four of a Kind" };
-  
+  if (top.length === 4) {
+    const kickers = kickersFor(top, 1);
+    return buildEvaluation(HandCategory.FOUR_OF_A_KIND, [...top, ...kickers], [topValue, ...kickers.map(getCardValue)],
+      `Four of a Kind, ${many(topValue)}${kickerText(kickers)}`);
+  }
+
   // 3. Full House
-  let three = 0, two = 0;
-  for (const v of distinctValues) {
-    if (counts[v] === 3 && three === 0) three = v;
-    else if (counts[v] >= 2 && two === 0) two = v;
+  if (top.length === 3 && rankGroups[1]?.length >= 2) {
+    const pair = rankGroups[1].slice(0, 2);
+    const pairValue = getCardValue(pair[0]);
+    return buildEvaluation(HandCategory.FULL_HOUSE, [...top, ...pair], [topValue, pairValue],
+      `Full House, ${many(topValue)} full of ${many(pairValue)}`);
   }
-  if (three && two) return { score: 6000 + three * 10 + two, description: "Full House" };
-  
+
   // 4. Flush
-  if (isFlush) return { score: 5000 + flushCards[0], description: "Flush" };
-  
+  if (flushCards) {
+    const best = flushCards.slice(0, 5);
+    return buildEvaluation(HandCategory.FLUSH, best, best.map(getCardValue), `Flush, ${one(getCardValue(best[0]))} high`);
+  }
+
   // 5. Straight
-  if (straightHigh) return { score: 4000 + straightHigh, description: "Straight" };
-  
+  const straight = findStraight(allCards);
+  if (straight) {
+    const high = getCardValue(straight[1]) + 1;
+    return buildEvaluation(HandCategory.STRAIGHT, straight, [high], `Straight, ${one(high)} high`);
+  }
+
   // 6. Three of a Kind
-  if (three) return { score: 3000 + three, description: "Three of a Kind" };
-  
+  if (top.length === 3) {
+    const kickers = kickersFor(top, 2);
+    return buildEvaluation(HandCategory.THREE_OF_A_KIND, [...top, ...kickers], [topValue, ...kickers.map(getCardValue)],
+      `Three of a Kind, ${many(topValue)}${kickerText(kickers)}`);
+  }
+
   // 7. Two Pair
-  let pairs = [];
-  for (const v of distinctValues) if (counts[v] === 2) pairs.push(v);
-  if (pairs.length >= 2) return { score: 2000 + pairs[0] * 10 + pairs[1], description: "Two Pair" };
-  
+  if (top.length === 2 && rankGroups[1]?.length === 2) {
+    const second = rankGroups[1];
+    const secondValue = getCardValue(second[0]);
+    const kickers = kickersFor([...top, ...second], 1);
+    return buildEvaluation(HandCategory.TWO_PAIR, [...top, ...second, ...kickers], [topValue, secondValue, ...kickers.map(getCardValue)],
+      `Two Pair, ${many(topValue)} and ${many(secondValue)}${kickerText(kickers)}`);
+  }
+
   // 8. Pair
-  if (pairs.length === 1) return { score: 1000 + pairs[0], description: "Pair" };
-  
+  if (top.length === 2) {
+    const kickers = kickersFor(top, 3);
+    return buildEvaluation(HandCategory.PAIR, [...top, ...kickers], [topValue, ...kickers.map(getCardValue)],
+      `Pair of ${many(topValue)}${kickerText(kickers)}`);
+  }
+
   // 9. High Card
-  return { score: values[0], description: "High Card" };
+  const best = allCards.slice(0, 5);
+  return buildEvaluation(HandCategory.HIGH_CARD, best, best.map(getCardValue),
+    `High Card, ${one(topValue)}${kickerText(best.slice(1))}`);
 };
 
 export const determineWinner = (players: Player[], communityCards: Card[]): Player[] => {
@@ -185,9 +250,47 @@ export const determineWinner = (players: Player[], communityCards: Card[]): Play
   return winners;
 };
 
+// --- Table Position ---
+// Dealt into the hand, whether or not the viewer can see the cards. A seat in a finished hand was
+// dealt in when it started with chips, since its history may only hold the cards that were shown.
+export const isDealtIn = (player: Pick<Player, 'hand' | 'hiddenCards'> | SeatSnapshot): boolean =>
+  'startingChips' in player ? player.startingChips > 0 : player.hand.length > 0 || !!player.hiddenCards;
+
+// Seat label relative to the button, counting only players dealt into the hand
+export const getPositionLabel = (players: (Pick<Player, 'hand' | 'hiddenCards'> | SeatSnapshot)[], dealerIndex: number, playerIndex: number): string => {
+  const seated: number[] = [];
+  for (let i = 0; i < players.length; i++) {
+    const idx = (dealerIndex + i) % players.length;
+    if (isDealtIn(players[idx])) seated.push(idx);
+  }
+
+  const offset = seated.indexOf(playerIndex);
+  const n = seated.length;
+  if (offset < 0) return '';
+  if (n === 2) return offset === 0 ? 'BTN' : 'BB'; // Heads-up: the button posts the small blind
+  if (offset === 0) return 'BTN';
+  if (offset === 1) return 'SB';
+  if (offset === 2) return 'BB';
+  if (offset === n - 1) return 'CO';
+  if (offset === 3) return 'UTG';
+  return 'MP';
+};
+
+export const isLatePosition = (position: string) => position === 'BTN' || position === 'CO';
+
 // --- Bot Decision Logic ---
-export const getBotDecision = (player: Player, gameState: GameState): { action: 'FOLD' | 'CALL' | 'CHECK' | 'RAISE', amount?: number } => {
-  const profile = BOT_PROFILES[player.name] || { vpip: 0.5, aggression: 0.5, bluff: 0.1, label: "Unknown" };
+// Numbered namesakes in big tournament fields ("Nick #2") play like the original
+export const getBotProfile = (name: string): BotPersonality | undefined =>
+  BOT_PROFILES[name] || BOT_PROFILES[name.replace(/ #\d+$/, '')];
+
+const UNKNOWN_PROFILE: BotPersonality = { vpip: 0.5, aggression: 0.5, bluff: 0.1, label: "Unknown" };
+
+// Bot rolls derive from the hand seed and how far the hand has progressed, so a replayed hand decides identically
+export const getBotRng = (gameState: GameState): Rng =>
+  gameState.seed === undefined ? Math.random : createRng(deriveSeed(gameState.seed, gameState.roundLog.length, gameState.currentPlayerIndex));
+
+export const getBotDecision = (player: Player, gameState: GameState, rng: Rng = getBotRng(gameState)): { action: 'FOLD' | 'CALL' | 'CHECK' | 'RAISE', amount?: number } => {
+  const profile = getBotProfile(player.name) || UNKNOWN_PROFILE;
   const toCall = gameState.currentBet - player.currentBet;
   const isCheck = toCall === 0;
 
@@ -199,18 +302,19 @@ export const getBotDecision = (player: Player, gameState: GameState): { action:
     // Normalize preflop score: 0-25 => 0-1
     strength = Math.min(score, 25) / 25;
   } else {
-    const { score } = evaluateHand(player.hand, gameState.communityCards);
-    // Normalize postflop score: <1000 (High Card) to 7000 (Quads)
-    if (score < 1000) strength = 0.1 + (score / 1500); // High card: 0.1 - 0.2
-    else if (score < 2000) strength = 0.4 + ((score - 1000) / 1000) * 0.2; // Pair: 0.4 - 0.6
-    else if (score < 3000) strength = 0.7; // Two Pair
-    else if (score < 4000) strength = 0.8; // Trips
+    const { category, bestCards } = evaluateHand(player.hand, gameState.communityCards);
+    const topValue = getCardValue(bestCards[0]);
+    // Normalize postflop category: High Card to Straight Flush
+    if (category === HandCategory.HIGH_CARD) strength = 0.1 + (topValue / 14) * 0.1; // High card: 0.1 - 0.2
+    else if (category === HandCategory.PAIR) strength = 0.4 + ((topValue - 2) / 12) * 0.2; // Pair: 0.4 - 0.6
+    else if (category === HandCategory.TWO_PAIR) strength = 0.7;
+    else if (category === HandCategory.THREE_OF_A_KIND) strength = 0.8;
     else strength = 0.95; // Straight+
   }
 
   // 2. Adjust Strength with Personality (Bluff factor)
   // Bluffy players perceive their hand as stronger randomly
-  if (Math.random() < profile.bluff) {
+  if (rng() < profile.bluff) {
     strength += 0.3; // "I like this hand" (delusion or bluff)
   }
 
@@ -218,7 +322,7 @@ export const getBotDecision = (player: Player, gameState: GameState): { action:
   
   // PRE-FLOP logic
   if (gameState.phase === GamePhase.PRE_FLOP) {
-    const vpipRoll = Math.random();
+    const vpipRoll = rng();
     // If not meeting VPIP threshold and active bet > BB, mostly fold.
     // If it's a check (BB option), always check.
     if (!isCheck && strength < 0.3 && vpipRoll > profile.vpip) {
@@ -228,19 +332,30 @@ export const getBotDecision = (player: Player, gameState: GameState): { action:
   // POST-FLOP logic
   else {
      // If facing a bet and hand is weak
-     if (!isCheck && strength < 0.3 && Math.random() > profile.bluff) {
+     if (!isCheck && strength < 0.3 && rng() > profile.bluff) {
         return { action: 'FOLD' };
      }
   }
 
   // If we are here, we are playing. Raise or Call?
-  const raiseRoll = Math.random();
-  const canAffordRaise = player.chips > toCall + gameState.minBet;
+  const raiseRoll = rng();
+  // Bots only raise from the legal actions, and only when a full raise leaves chips behind
+  const raise = findRaise(getLegalActions(gameState));
 
-  if (canAffordRaise && raiseRoll < profile.aggression && strength > 0.4) {
-      const raiseAmt = Math.max(gameState.minBet, Math.floor(gameState.pot * (0.5 + Math.random())));
-      return { action: 'RAISE', amount: raiseAmt };
+  if (raise && raise.max > raise.min && raiseRoll < profile.aggression && strength > 0.4) {
+      const raiseTo = Math.min(raise.max, Math.max(raise.min, gameState.currentBet + Math.floor(gameState.pot * (0.5 + rng()))));
+      return { action: 'RAISE', amount: raiseTo - gameState.currentBet };
   }
 
   return { action: isCheck ? 'CHECK' : 'CALL' };
-};
\ No newline at end of file
+};
+// --- Bot Showdown Choices ---
+// Cards a bot shows when it doesn't have to (a beaten hand, or an uncontested win). Bluffers and
+// aggressive players like to show; rocks keep their cards to themselves. Uncontested winners
+// often flash just one card.
+export const getBotShowChoice = (player: Player, uncontested: boolean, rng: Rng): Card[] => {
+  const profile = getBotProfile(player.name) || UNKNOWN_PROFILE;
+  if (rng() >= profile.bluff * 0.6 + profile.aggression * 0.2) return [];
+  if (uncontested && rng() < 0.5) return [player.hand[Math.floor(rng() * player.hand.length)]];
+  return player.hand;
+};
@@ -0,0 +1,86 @@
+import { GameEngine } from './GameEngine';
+import { exportHandToPokerStars, parsePokerStarsHand, cardFromText, cardToText } from './pokerstars';
+import { Player, Rank, Suit } from '../types';
+
+declare var describe: any;
+declare var test: any;
+
+const makePlayers = (): Player[] => ['You', 'Nick', 'Noah'].map((name, i) => ({
+  id: `p${i}`, name, chips: 1000, hand: [], isHuman: i === 0,
+  isActive: true, isAllIn: false, currentBet: 0, position: 'EP'
+}));
+
+// Raise preflop, one fold, then check it down to showdown
+const playHand = () => {
+  let state = GameEngine.setupNewHand(makePlayers(), -1, 0, [], 21);
+  state = GameEngine.processPlayerAction(state, state.players[0], 60, "Raises to", 60);
+  state = GameEngine.foldPlayer(state, state.players[1]);
+  state = GameEngine.processPlayerAction(state, state.players[2], 40, "Calls");
+  state = GameEngine.nextPhase(state);
+  state = GameEngine.processPlayerAction(state, state.players[2], 0, "Checks");
+  state = GameEngine.processPlayerAction(state, state.players[0], 50, "Raises to", 50);
+  state = GameEngine.processPlayerAction(state, state.players[2], 50, "Calls");
+  state = GameEngine.nextPhase(state);
+  state = GameEngine.nextPhase(state);
+  state = GameEngine.nextPhase(state);
+  return state.handHistory[state.handHistory.length - 1];
+};
+
+describe('PokerStars Format Tests', () => {
+
+  test('cards convert to and from PokerStars notation', () => {
+    const ten = { rank: Rank.TEN, suit: Suit.SPADES, id: '10♠' };
+    if (cardToText(ten) !== 'Ts') throw new Error(`Expected Ts, got ${cardToText(ten)}`);
+    if (cardFromText('Ah').suit !== Suit.HEARTS) throw new Error('Ah should be hearts');
+  });
+
+  test('export writes header, streets, showdown and summary', () => {
+    const text = exportHandToPokerStars(playHand());
+    ['PokerStars Hand #1:', 'Seat #1 is the button', '*** HOLE CARDS ***', 'Dealt to You', 'You: raises 40 to 60',
+      'Nick: folds', '*** FLOP ***', 'You: bets 50', '*** RIVER ***', '*** SHOW DOWN ***', '*** SUMMARY ***', 'Total pot 230 | Rake 0',
+      'Seat 2: Nick (small blind) folded before Flop'].forEach(fragment => {
+      if (!text.includes(fragment)) throw new Error(`Missing "${fragment}" in:\n${text}`);
+    });
+  });
+
+  test('import reads an exported hand back into the same hand model', () => {
+    const original = playHand();
+    const parsed = parsePokerStarsHand(exportHandToPokerStars(original));
+
+    const summary = (actions: typeof original.actions) => actions!.map(a => `${a.playerName}:${a.type}:${a.amount}:${a.totalBet}:${a.potAfter}`).join('|');
+    if (summary(parsed.actions) !== summary(original.actions)) throw new Error(`Actions differ:\n${summary(parsed.actions)}\n${summary(original.actions)}`);
+    if (parsed.board!.map(c => c.id).join() !== original.board!.map(c => c.id).join()) throw new Error('Board differs');
+    if (parsed.winAmount !== original.winAmount) throw new Error(`Pot differs: ${parsed.winAmount} vs ${original.winAmount}`);
+    if (parsed.winnerNames.join() !== original.winnerNames.join()) throw new Error('Winners differ');
+    if (parsed.seats![0].hand.length !== 2 || !parsed.seats![0].isHuman) throw new Error('Hero cards should be imported');
+  });
+
+  test('export reveals only shown cards and the hero\'s; mucked hands stay hidden', () => {
+    const entry = playHand();
+    const nobodyShows = { ...entry, seats: entry.seats!.map(s => ({ ...s, shownCards: undefined })) };
+    const text = exportHandToPokerStars(nobodyShows);
+    const noah = entry.seats!.find(s => s.name === 'Noah')!;
+
+    if (!text.includes('Noah: mucks hand') || !text.includes('You: mucks hand')) throw new Error(`Both hands should be mucked in:\n${text}`);
+    if (noah.hand.some(c => text.includes(cardToText(c)) && !entry.board!.some(b => b.id === c.id))) throw new Error(`Noah's cards leaked into:\n${text}`);
+    if (!text.includes(`Dealt to You`)) throw new Error('The hero still sees their own cards');
+
+    const parsed = parsePokerStarsHand(text);
+    if (parsed.seats!.find(s => s.name === 'Noah')!.hand.length !== 0) throw new Error('An imported mucked hand should have no cards');
+  });
+
+  test('export returns an uncalled raise instead of collecting it', () => {
+    let state = GameEngine.setupNewHand(makePlayers(), -1, 0, [], 21);
+    state = GameEngine.processPlayerAction(state, state.players[0], 60, "Raises to", 60);
+    state = GameEngine.nextTurn(GameEngine.foldPlayer(state, state.players[1]));
+    state = GameEngine.nextTurn(GameEngine.foldPlayer(state, state.players[2]));
+    const text = exportHandToPokerStars(state.handHistory[state.handHistory.length - 1]);
+
+    ['Uncalled bet (40) returned to You', 'You collected 50 from pot', 'Total pot 50 | Rake 0', 'Seat 1: You (button) collected (50)'].forEach(fragment => {
+      if (!text.includes(fragment)) throw new Error(`Missing "${fragment}" in:\n${text}`);
+    });
+    const parsed = parsePokerStarsHand(text);
+    if (parsed.winAmount !== 90) throw new Error(`The returned bet should come back as the winner's, got ${parsed.winAmount}`);
+  });
+
+});
@@ -0,0 +1,363 @@
+import { Card, Rank, Suit, GamePhase, HandAction, HandActionType, HandHistoryEntry, PotResult, SeatSnapshot } from '../types';
+import { CASH_BLINDS } from '../constants';
+import { evaluateHand } from './poker';
+import { getPotLabel, getPotShares } from './pots';
+import { isForcedBet } from './replay';
+
+// --- PokerStars Hand History Format ---
+// Converts finished hands to the text format most trackers and forums understand, and back.
+
+const TABLE_NAME = 'NGPL League';
+
+const SUIT_CHARS: Record<Suit, string> = {
+  [Suit.HEARTS]: 'h', [Suit.DIAMONDS]: 'd', [Suit.CLUBS]: 'c', [Suit.SPADES]: 's'
+};
+
+const STREET_NAMES: Partial<Record<GamePhase, string>> = {
+  [GamePhase.FLOP]: 'Flop', [GamePhase.TURN]: 'Turn', [GamePhase.RIVER]: 'River'
+};
+
+export const cardToText = (card: Card) => `${card.rank === Rank.TEN ? 'T' : card.rank}${SUIT_CHARS[card.suit]}`;
+
+export const cardFromText = (text: string): Card => {
+  const rankText = text.slice(0, -1).toUpperCase();
+  const rank = (rankText === 'T' ? Rank.TEN : rankText) as Rank;
+  const suit = (Object.keys(SUIT_CHARS) as Suit[]).find(s => SUIT_CHARS[s] === text.slice(-1).toLowerCase());
+  if (!Object.values(Rank).includes(rank) || !suit) throw new Error(`Unknown card "${text}"`);
+  return { rank, suit, id: `${rank}${suit}` };
+};
+
+const cardsToText = (cards: Card[]) => `[${cards.map(cardToText).join(' ')}]`;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const formatDate = (time: Date) =>
+  `${time.getFullYear()}/${pad(time.getMonth() + 1)}/${pad(time.getDate())} ${pad(time.getHours())}:${pad(time.getMinutes())}:${pad(time.getSeconds())}`;
+
+// PokerStars names pots "pot", "main pot", "side pot-1", ...
+const potName = (index: number, potCount: number) => potCount === 1 ? 'pot' : index === 0 ? 'main pot' : `side pot-${index}`;
+
+// --- Export ---
+
+const actionLine = (action: HandAction, streetBet: number): string => {
+  const allIn = action.isAllIn && action.amount > 0 ? ' and is all-in' : '';
+  switch (action.type) {
+    case 'POST_ANTE': return `${action.playerName}: posts the ante ${action.amount}${allIn}`;
+    case 'POST_SB': return `${action.playerName}: posts small blind ${action.amount}${allIn}`;
+    case 'POST_BB': return `${action.playerName}: posts big blind ${action.amount}${allIn}`;
+    case 'FOLD': return `${action.playerName}: folds`;
+    case 'CHECK': return `${action.playerName}: checks`;
+    case 'CALL': return `${action.playerName}: calls ${action.amount}${allIn}`;
+    case 'BET': return `${action.playerName}: bets ${action.amount}${allIn}`;
+    case 'RAISE': return `${action.playerName}: raises ${action.totalBet - streetBet} to ${action.totalBet}${allIn}`;
+  }
+};
+
+// Chips the top contributor put in beyond what anyone matched. The engine keeps them in the last
+// pot, which only that player can win; PokerStars returns them instead of collecting them.
+const getUncalledBet = (entry: HandHistoryEntry): { id: string; amount: number } | undefined => {
+  const putIn = new Map<string, number>();
+  entry.actions!.forEach(a => putIn.set(a.playerId, (putIn.get(a.playerId) || 0) + a.amount));
+  const [top, next] = Array.from(putIn.entries()).sort((a, b) => b[1] - a[1]);
+  const last = entry.pots?.[entry.pots.length - 1];
+  if (!top || !last || last.winnerIds.length !== 1 || last.winnerIds[0] !== top[0]) return undefined;
+
+  const amount = Math.min(last.amount, top[1] - (next ? next[1] : 0));
+  return amount > 0 ? { id: top[0], amount } : undefined;
+};
+
+export const exportHandToPokerStars = (entry: HandHistoryEntry): string => {
+  if (!entry.seats || !entry.actions) throw new Error(`Hand #${entry.handNumber} has no action log to export`);
+
+  const seats = entry.seats;
+  const board = entry.board || [];
+  const uncalled = getUncalledBet(entry);
+  const pots = (entry.pots || [])
+    .map((pot, i, all) => uncalled && i === all.length - 1
+      ? { ...pot, amount: pot.amount - uncalled.amount, winnerAmounts: [getPotShares(pot)[0].amount - uncalled.amount] }
+      : pot)
+    .filter(pot => pot.amount > 0);
+  const lines: string[] = [];
+  const time = new Date(entry.timestamp || Date.now());
+
+  const blinds = entry.blinds || CASH_BLINDS;
+  lines.push(`PokerStars Hand #${entry.handNumber}: Hold'em No Limit (${blinds.smallBlind}/${blinds.bigBlind}) - ${formatDate(time)}`);
+  lines.push(`Table '${TABLE_NAME}' ${seats.length}-max Seat #${(entry.dealerIndex ?? 0) + 1} is the button`);
+  seats.forEach((seat, i) => {
+    if (seat.startingChips > 0) lines.push(`Seat ${i + 1}: ${seat.name} (${seat.startingChips} in chips)`);
+  });
+
+  const byStreet = (street: GamePhase) => entry.actions!.filter(a => a.street === street);
+  const folded = new Map<string, GamePhase>();
+  let streetBet = 0;
+
+  const writeActions = (actions: HandAction[]) => actions.forEach(action => {
+    lines.push(actionLine(action, streetBet));
+    if (action.type === 'FOLD') folded.set(action.playerId, action.street);
+    streetBet = Math.max(streetBet, action.totalBet);
+  });
+
+  const preflop = byStreet(GamePhase.PRE_FLOP);
+  writeActions(preflop.filter(isForcedBet));
+
+  lines.push('*** HOLE CARDS ***');
+  seats.filter(s => s.isHuman && s.hand.length).forEach(s => lines.push(`Dealt to ${s.name} ${cardsToText(s.hand)}`));
+  writeActions(preflop.filter(a => !isForcedBet(a)));
+
+  [GamePhase.FLOP, GamePhase.TURN, GamePhase.RIVER].forEach((street, i) => {
+    const shown = 3 + i;
+    if (board.length < shown) return;
+    const previous = i === 0 ? '' : ` ${cardsToText(board.slice(0, shown - 1))}`;
+    const dealt = i === 0 ? cardsToText(board.slice(0, 3)) : cardsToText([board[shown - 1]]);
+    lines.push(`*** ${STREET_NAMES[street]!.toUpperCase()} ***${previous} ${dealt}`);
+    streetBet = 0;
+    writeActions(byStreet(street));
+  });
+
+  if (uncalled) lines.push(`Uncalled bet (${uncalled.amount}) returned to ${seats.find(s => s.id === uncalled.id)?.name}`);
+
+  // Showdown: only the cards the table saw are written; pots are collected main pot first
+  const live = seats.filter(s => s.startingChips > 0 && !folded.has(s.id));
+  const wentToShowdown = live.length > 1;
+  const showedAll = (s: SeatSnapshot) => !!s.shownCards?.length && s.shownCards.length === s.hand.length;
+  const showLine = (s: SeatSnapshot) =>
+    `${s.name}: shows ${cardsToText(s.shownCards!)}${showedAll(s) ? ` (${evaluateHand(s.hand, board).detail})` : ''}`;
+  if (wentToShowdown) {
+    lines.push('*** SHOW DOWN ***');
+    live.forEach(s => lines.push(s.shownCards?.length ? showLine(s) : `${s.name}: mucks hand`));
+  }
+
+  const won = new Map<string, number>();
+  pots.forEach((pot, index) => {
+    getPotShares(pot).forEach(({ id, amount }) => {
+      won.set(id, (won.get(id) || 0) + amount);
+      lines.push(`${seats.find(s => s.id === id)?.name} collected ${amount} from ${potName(index, pots.length)}`);
+    });
+  });
+  // An uncontested winner may still show
+  if (!wentToShowdown) live.filter(s => s.shownCards?.length).forEach(s => lines.push(showLine(s)));
+
+  const total = pots.reduce((sum, pot) => sum + pot.amount, 0);
+  const potBreakdown = pots.length > 1 ? ` Main pot ${pots[0].amount}.${pots.slice(1).map((p, i) => ` Side pot-${i + 1} ${p.amount}.`).join('')}` : '';
+
+  lines.push('*** SUMMARY ***');
+  lines.push(`Total pot ${total}${potBreakdown} | Rake 0`);
+  if (board.length) lines.push(`Board ${cardsToText(board)}`);
+
+  seats.forEach((seat, i) => {
+    if (seat.startingChips <= 0) return;
+    const role = seatRole(entry, i);
+    const prefix = `Seat ${i + 1}: ${seat.name}${role ? ` (${role})` : ''}`;
+    const foldStreet = folded.get(seat.id);
+    const amountWon = won.get(seat.id);
+
+    if (foldStreet) {
+      lines.push(`${prefix} folded ${foldStreet === GamePhase.PRE_FLOP ? 'before Flop' : `on the ${STREET_NAMES[foldStreet]}`}`);
+    } else if (wentToShowdown && showedAll(seat)) {
+      const desc = evaluateHand(seat.hand, board).detail;
+      lines.push(amountWon
+        ? `${prefix} showed ${cardsToText(seat.hand)} and won (${amountWon}) with ${desc}`
+        : `${prefix} showed ${cardsToText(seat.hand)} and lost with ${desc}`);
+    } else if (wentToShowdown && !amountWon) {
+      lines.push(`${prefix} mucked${seat.isHuman ? ` ${cardsToText(seat.hand)}` : ''}`);
+    } else {
+      lines.push(`${prefix} collected (${amountWon || 0})`);
+    }
+  });
+
+  return lines.join('\n');
+};
+
+const seatRole = (entry: HandHistoryEntry, seatIndex: number): string => {
+  const seat = entry.seats![seatIndex];
+  const roles: string[] = [];
+  if (seatIndex === (entry.dealerIndex ?? 0)) roles.push('button');
+  const blind = entry.actions!.find(a => a.playerId === seat.id && (a.type === 'POST_SB' || a.type === 'POST_BB'));
+  if (blind) roles.push(blind.type === 'POST_SB' ? 'small blind' : 'big blind');
+  return roles.join(') (');
+};
+
+export const exportHandsToPokerStars = (entries: HandHistoryEntry[]): string =>
+  entries.filter(e => e.seats && e.actions).map(exportHandToPokerStars).join('\n\n\n') + '\n';
+
+// --- Import ---
+
+const ACTION_PATTERN = /^(.+?): (folds|checks|calls (\d+)|bets (\d+)|raises (\d+) to (\d+)|posts small blind (\d+)|posts big blind (\d+)|posts the ante (\d+))( and is all-in)?$/;
+
+export const parsePokerStarsHand = (text: string): HandHistoryEntry => {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+
+  const header = lines[0]?.match(/^PokerStars Hand #(\d+):.*?(?:- (\d{4})\/(\d{2})\/(\d{2}) (\d{1,2}):(\d{2}):(\d{2}))?/);
+  if (!header) throw new Error('Not a PokerStars hand history');
+
+  const handNumber = Number(header[1]);
+  const time = header[2]
+    ? new Date(Number(header[2]), Number(header[3]) - 1, Number(header[4]), Number(header[5]), Number(header[6]), Number(header[7]))
+    : new Date();
+
+  const stakes = lines[0].match(/\((\d+)\/(\d+)\)/);
+  const buttonMatch = text.match(/Seat #(\d+) is the button/);
+  const seats: SeatSnapshot[] = [];
+  const seatNumbers: number[] = [];
+  const actions: HandAction[] = [];
+  const holeCards = new Map<string, Card[]>();
+  const shownCards = new Map<string, Card[]>();
+  const collected: { name: string; amount: number; pot: string }[] = [];
+  const shownDescriptions = new Map<string, string>();
+
+  let street = GamePhase.PRE_FLOP;
+  let board: Card[] = [];
+  let pot = 0;
+  let inSummary = false;
+  const streetBets = new Map<string, number>();
+  const stacks = new Map<string, number>();
+
+  const seatByName = (name: string) => {
+    const seat = seats.find(s => s.name === name);
+    if (!seat) throw new Error(`Unknown player "${name}"`);
+    return seat;
+  };
+
+  lines.slice(1).forEach(line => {
+    if (line.startsWith('*** SUMMARY ***')) { inSummary = true; return; }
+    if (inSummary) return;
+
+    const seatMatch = line.match(/^Seat (\d+): (.+) \((\d+) in chips\)/);
+    if (seatMatch) {
+      const [, num, name, chips] = seatMatch;
+      seats.push({ id: `seat_${num}`, name, isHuman: false, startingChips: Number(chips), hand: [] });
+      seatNumbers.push(Number(num));
+      stacks.set(`seat_${num}`, Number(chips));
+      return;
+    }
+
+    const streetMatch = line.match(/^\*\*\* (FLOP|TURN|RIVER) \*\*\* (.*)$/);
+    if (streetMatch) {
+      street = streetMatch[1] === 'FLOP' ? GamePhase.FLOP : streetMatch[1] === 'TURN' ? GamePhase.TURN : GamePhase.RIVER;
+      board = (streetMatch[2].match(/[2-9TJQKA][hdcs]/gi) || []).map(cardFromText);
+      streetBets.clear();
+      return;
+    }
+
+    const dealtMatch = line.match(/^Dealt to (.+?) \[(.+)\]$/);
+    if (dealtMatch) {
+      const seat = seatByName(dealtMatch[1]);
+      seat.isHuman = true;
+      holeCards.set(seat.id, dealtMatch[2].split(' ').map(cardFromText));
+      return;
+    }
+
+    const showMatch = line.match(/^(.+?): shows \[(.+?)\](?: \((.+)\))?$/);
+    if (showMatch) {
+      const seat = seatByName(showMatch[1]);
+      shownCards.set(seat.id, showMatch[2].split(' ').map(cardFromText));
+      if (showMatch[3]) shownDescriptions.set(seat.id, showMatch[3]);
+      return;
+    }
+
+    const collectMatch = line.match(/^(.+?) collected (\d+) from (pot|main pot|side pot(?:-\d+)?)$/);
+    if (collectMatch) {
+      collected.push({ name: collectMatch[1], amount: Number(collectMatch[2]), pot: collectMatch[3] });
+      return;
+    }
+
+    // Uncalled chips go back to their owner; the engine models that as a pot only they can win
+    const uncalledMatch = line.match(/^Uncalled bet \((\d+)\) returned to (.+)$/);
+    if (uncalledMatch) {
+      collected.push({ name: uncalledMatch[2], amount: Number(uncalledMatch[1]), pot: 'uncalled' });
+      return;
+    }
+
+    const actionMatch = line.match(ACTION_PATTERN);
+    if (!actionMatch) return;
+
+    const seat = seatByName(actionMatch[1]);
+    const verb = actionMatch[2];
+    const already = streetBets.get(seat.id) || 0;
+    let type: HandActionType;
+    let amount = 0;
+    let totalBet = already;
+
+    if (verb === 'folds') type = 'FOLD';
+    else if (verb === 'checks') type = 'CHECK';
+    else if (actionMatch[3]) { type = 'CALL'; amount = Number(actionMatch[3]); totalBet = already + amount; }
+    else if (actionMatch[4]) { type = 'BET'; amount = Number(actionMatch[4]); totalBet = already + amount; }
+    else if (actionMatch[6]) { type = 'RAISE'; totalBet = Number(actionMatch[6]); amount = totalBet - already; }
+    else if (actionMatch[7]) { type = 'POST_SB'; amount = Number(actionMatch[7]); totalBet = amount; }
+    else if (actionMatch[8]) { type = 'POST_BB'; amount = Number(actionMatch[8]); totalBet = amount; }
+    else { type = 'POST_ANTE'; amount = Number(actionMatch[9]); } // Dead money: not part of the street bet
+
+    pot += amount;
+    streetBets.set(seat.id, totalBet);
+    stacks.set(seat.id, (stacks.get(seat.id) || 0) - amount);
+
+    actions.push({
+      playerId: seat.id,
+      playerName: seat.name,
+      street,
+      type,
+      amount,
+      totalBet,
+      potAfter: pot,
+      board: [...board],
+      isAllIn: !!actionMatch[10] || stacks.get(seat.id) === 0
+    });
+  });
+
+  if (seats.length === 0) throw new Error(`Hand #${handNumber} has no seats`);
+  seats.forEach(s => {
+    s.hand = holeCards.get(s.id) || shownCards.get(s.id) || [];
+    s.shownCards = shownCards.get(s.id);
+  });
+
+  // Rebuild pot results in engine order: main pot, side pots, then any uncalled chips
+  const potKeys = Array.from(new Set(collected.map(c => c.pot)))
+    .sort((a, b) => potOrder(a) - potOrder(b));
+  const pots: PotResult[] = potKeys.map((key, index) => {
+    const shares = collected.filter(c => c.pot === key);
+    const winners = shares.map(c => seatByName(c.name));
+    const best = winners[0];
+    return {
+      label: getPotLabel(index),
+      amount: shares.reduce((sum, c) => sum + c.amount, 0),
+      winnerNames: winners.map(w => w.name),
+      winnerIds: winners.map(w => w.id),
+      winnerAmounts: shares.map(c => c.amount),
+      winningHand: shownDescriptions.get(best.id) || (best.hand.length && board.length === 5 ? evaluateHand(best.hand, board).detail : '')
+    };
+  });
+
+  const winnerNames = Array.from(new Set(pots.flatMap(p => p.winnerNames)));
+  const buttonSeat = Math.max(0, buttonMatch ? seatNumbers.indexOf(Number(buttonMatch[1])) : 0);
+
+  // PokerTable draws seat 0 as the hero, so rotate the hero to the front
+  const heroSeat = Math.max(0, seats.findIndex(s => s.isHuman));
+  const orderedSeats = [...seats.slice(heroSeat), ...seats.slice(0, heroSeat)];
+
+  return {
+    id: `imported_${handNumber}`,
+    handNumber,
+    winnerNames,
+    winAmount: pots.reduce((sum, p) => sum + p.amount, 0),
+    winningHand: pots[0]?.winningHand || '',
+    date: time.toLocaleTimeString(),
+    timestamp: time.getTime(),
+    source: 'imported',
+    pots,
+    seats: orderedSeats,
+    dealerIndex: (buttonSeat - heroSeat + seats.length) % seats.length,
+    board,
+    actions,
+    blinds: stakes ? {
+      smallBlind: Number(stakes[1]),
+      bigBlind: Number(stakes[2]),
+      ante: Math.max(0, ...actions.filter(a => a.type === 'POST_ANTE').map(a => a.amount))
+    } : undefined
+  };
+};
+
+const potOrder = (key: string) =>
+  key === 'pot' || key === 'main pot' ? 0 : key === 'uncalled' ? 1000 : Number(key.split('-')[1] || 0);
+
+// Files from trackers hold many hands separated by blank lines
+export const parsePokerStarsHands = (text: string): HandHistoryEntry[] =>
+  text.split(/(?=^PokerStars Hand #)/m).map(chunk => chunk.trim()).filter(Boolean).map(parsePokerStarsHand);
@@ -0,0 +1,101 @@
+import { buildPots, getPotShares } from './pots';
+import { GameEngine } from './GameEngine';
+import { Card, Suit, Rank, Player, GameState, GamePhase } from '../types';
+
+declare var describe: any;
+declare var test: any;
+
+// Mock Helpers
+const c = (rank: Rank, suit: Suit): Card => ({ rank, suit, id: `${rank}${suit}` });
+
+const p = (id: string, totalContribution: number, isActive = true, hand: Card[] = []): Player => ({
+  id, name: id, chips: 0, hand, isHuman: false, isActive, isAllIn: isActive,
+  currentBet: 0, position: 'EP', totalContribution
+});
+
+describe('Side Pot Tests', () => {
+
+  test('buildPots: equal contributions make a single pot', () => {
+    const pots = buildPots([p('a', 100), p('b', 100), p('c', 100)]);
+    if (pots.length !== 1 || pots[0].amount !== 300) throw new Error(`Expected one pot of 300, got ${JSON.stringify(pots)}`);
+  });
+
+  test('buildPots: short all-in creates a main and side pot', () => {
+    const pots = buildPots([p('short', 50), p('b', 200), p('c', 200)]);
+    if (pots.length !== 2) throw new Error(`Expected 2 pots, got ${pots.length}`);
+    if (pots[0].amount !== 150 || pots[0].eligiblePlayerIds.length !== 3) throw new Error('Main pot should be 150 for all three');
+    if (pots[1].amount !== 300 || pots[1].eligiblePlayerIds.includes('short')) throw new Error('Side pot should be 300 without the short stack');
+  });
+
+  test('buildPots: folded chips stay in the pot but are not eligible', () => {
+    const pots = buildPots([p('folder', 80, false), p('b', 40), p('c', 200)]);
+    const total = pots.reduce((sum, pot) => sum + pot.amount, 0);
+    if (total !== 320) throw new Error(`Expected 320 total, got ${total}`);
+    if (pots.some(pot => pot.eligiblePlayerIds.includes('folder'))) throw new Error('Folded player should never be eligible');
+  });
+
+  test('handleShowdown: short all-in only wins what they matched', () => {
+    const board = [c(Rank.TWO, Suit.CLUBS), c(Rank.SEVEN, Suit.DIAMONDS), c(Rank.NINE, Suit.HEARTS), c(Rank.JACK, Suit.SPADES), c(Rank.FOUR, Suit.CLUBS)];
+    const players = [
+      p('short', 50, true, [c(Rank.ACE, Suit.SPADES), c(Rank.ACE, Suit.HEARTS)]),
+      p('b', 200, true, [c(Rank.KING, Suit.SPADES), c(Rank.KING, Suit.HEARTS)]),
+      p('c', 200, true, [c(Rank.QUEEN, Suit.SPADES), c(Rank.THREE, Suit.HEARTS)]),
+    ];
+    const state: GameState = {
+      phase: GamePhase.RIVER, pot: 450, communityCards: board, deck: [], players,
+      currentPlayerIndex: 0, dealerIndex: 0, minBet: 20, currentBet: 0, lastRaiserIndex: null,
+      roundLog: [], deckColor: 'blue', handHistory: [], handCount: 1
+    };
+
+    const result = GameEngine.handleShowdown(state);
+    const chips = (id: string) => result.players.find(pl => pl.id === id)!.chips;
+    if (chips('short') !== 150) throw new Error(`Short stack should win 150, got ${chips('short')}`);
+    if (chips('b') !== 300) throw new Error(`Side pot winner should win 300, got ${chips('b')}`);
+    if (chips('c') !== 0) throw new Error(`Loser should win nothing, got ${chips('c')}`);
+  });
+
+  test('handleShowdown: odd chip goes to the first winner left of the button', () => {
+    const board = [c(Rank.ACE, Suit.HEARTS), c(Rank.KING, Suit.CLUBS), c(Rank.QUEEN, Suit.SPADES), c(Rank.JACK, Suit.DIAMONDS), c(Rank.TEN, Suit.CLUBS)];
+    const players = [
+      p('btn', 25, true, [c(Rank.TWO, Suit.SPADES), c(Rank.THREE, Suit.HEARTS)]),
+      p('sb', 25, false, [c(Rank.FOUR, Suit.SPADES), c(Rank.FIVE, Suit.HEARTS)]),
+      p('bb', 25, true, [c(Rank.SIX, Suit.SPADES), c(Rank.SEVEN, Suit.HEARTS)]),
+    ];
+    const state: GameState = {
+      phase: GamePhase.RIVER, pot: 75, communityCards: board, deck: [], players,
+      currentPlayerIndex: 0, dealerIndex: 0, minBet: 20, currentBet: 0, lastRaiserIndex: null,
+      roundLog: [], deckColor: 'blue', handHistory: [], handCount: 1, chipTotal: 75
+    };
+
+    const result = GameEngine.handleShowdown(state);
+    const chips = (id: string) => result.players.find(pl => pl.id === id)!.chips;
+    if (chips('bb') !== 38 || chips('btn') !== 37) throw new Error(`Expected bb 38 / btn 37, got ${chips('bb')} / ${chips('btn')}`);
+    const shares = getPotShares(result.potResults![0]).map(s => `${s.id}:${s.amount}`).join();
+    if (shares !== 'bb:38,btn:37') throw new Error(`The pot result should record what each winner was paid, got ${shares}`);
+    if (GameEngine.getChipDiscrepancy(result) !== 0) throw new Error('Chips should be conserved through showdown');
+  });
+
+  test('handleShowdown: the last aggressor shows first, then clockwise, and a beaten hand can muck', () => {
+    const board = [c(Rank.TWO, Suit.CLUBS), c(Rank.SEVEN, Suit.DIAMONDS), c(Rank.NINE, Suit.HEARTS), c(Rank.JACK, Suit.SPADES), c(Rank.FOUR, Suit.CLUBS)];
+    const live = (player: Player): Player => ({ ...player, isAllIn: false, chips: 500 });
+    const players = [
+      live({ ...p('you', 100, true, [c(Rank.THREE, Suit.SPADES), c(Rank.FIVE, Suit.HEARTS)]), isHuman: true }),
+      live(p('bettor', 100, true, [c(Rank.NINE, Suit.SPADES), c(Rank.EIGHT, Suit.HEARTS)])),
+      live(p('caller', 100, true, [c(Rank.JACK, Suit.HEARTS), c(Rank.KING, Suit.HEARTS)])),
+    ];
+    const state: GameState = {
+      phase: GamePhase.RIVER, pot: 300, communityCards: board, deck: [], players,
+      currentPlayerIndex: 0, dealerIndex: 2, minBet: 20, currentBet: 0, lastRaiserIndex: 1,
+      roundLog: [], deckColor: 'blue', handHistory: [], handCount: 1
+    };
+
+    const result = GameEngine.handleShowdown(state);
+    const log = result.roundLog.slice(0, 3);
+    if (!log[0].startsWith('bettor shows') || !log[1].startsWith('caller shows') || log[2] !== 'You muck') {
+      throw new Error(`Unexpected showdown order: ${JSON.stringify(log)}`);
+    }
+    if (result.players[0].shownCards) throw new Error('A mucked hand should not be shown');
+    if (result.players[2].shownCards?.length !== 2) throw new Error('The winner should table both cards');
+  });
+
+});
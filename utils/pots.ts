@@ -0,0 +1,53 @@
+import { Player, Pot, PotResult } from '../types';
+
+// Anything with a seat id, fold status and chips in - live players or seats rebuilt from a hand log
+type PotContributor = Pick<Player, 'id' | 'isActive' | 'totalContribution'>;
+
+export const getContribution = (player: PotContributor) => player.totalContribution || 0;
+
+export const getPotLabel = (index: number) => index === 0 ? 'Main Pot' : `Side Pot ${index}`;
+
+// --- Side Pot Construction ---
+// Each distinct contribution level forms a layer. A player who folded still pays into
+// every layer they reached, but only players still in the hand can win it.
+export const buildPots = (players: PotContributor[]): Pot[] => {
+  const levels = Array.from(new Set(players.map(getContribution).filter(c => c > 0))).sort((a, b) => a - b);
+
+  const pots: Pot[] = [];
+  let prevLevel = 0;
+
+  levels.forEach(level => {
+    const amount = players.reduce((sum, p) => sum + Math.max(0, Math.min(getContribution(p), level) - prevLevel), 0);
+    const eligiblePlayerIds = players.filter(p => p.isActive && getContribution(p) >= level).map(p => p.id);
+    prevLevel = level;
+
+    if (amount === 0) return;
+
+    const last = pots[pots.length - 1];
+    if (last && (eligiblePlayerIds.length === 0 || sameIds(last.eligiblePlayerIds, eligiblePlayerIds))) {
+      // Same contenders (or dead money above every live player) - fold into the previous layer
+      last.amount += amount;
+    } else {
+      pots.push({ amount, eligiblePlayerIds });
+    }
+  });
+
+  // Dead money below every live player's level is carried up into the first contested pot
+  while (pots.length > 1 && pots[0].eligiblePlayerIds.length === 0) {
+    pots[1].amount += pots[0].amount;
+    pots.shift();
+  }
+
+  return pots;
+};
+
+const sameIds = (a: string[], b: string[]) => a.length === b.length && a.every(id => b.includes(id));
+
+// What each winner collected from a finished pot. Hands recorded before winnerAmounts existed
+// are re-split evenly, odd chips to the first winners listed.
+export const getPotShares = (pot: PotResult): { id: string; amount: number }[] => {
+  if (pot.winnerAmounts) return pot.winnerIds.map((id, i) => ({ id, amount: pot.winnerAmounts![i] }));
+  const share = Math.floor(pot.amount / pot.winnerIds.length);
+  let oddChips = pot.amount - share * pot.winnerIds.length;
+  return pot.winnerIds.map(id => ({ id, amount: share + (oddChips-- > 0 ? 1 : 0) }));
+};
@@ -0,0 +1,66 @@
+import { projectStateFor, projectHistoryFor } from './projection';
+import { GameEngine } from './GameEngine';
+import { GameState, Player } from '../types';
+
+declare var describe: any;
+declare var test: any;
+
+const seat = (id: string, isHuman = false): Player => ({
+  id, name: id, chips: 1000, hand: [], isHuman, isActive: true, isAllIn: false, currentBet: 0, position: ''
+});
+
+describe('Projection Tests', () => {
+
+  test('projectStateFor: mid-hand the viewer sees only their own cards, and no deck or seeds', () => {
+    const state = GameEngine.setupFirstHand([seat('p1', true), seat('a'), seat('b')], 42);
+    const view = projectStateFor(state, 'p1');
+
+    if (view.players[0].hand.length !== 2) throw new Error('The viewer should keep their hole cards');
+    if (view.players.slice(1).some(p => p.hand.length > 0 || p.hiddenCards !== 2)) throw new Error('Opponent cards should be face down');
+    if (view.deck.length !== 0 || view.seed !== undefined || view.runSeed !== undefined) throw new Error('The deck and seeds must be stripped');
+    if (state.players[1].hand.length !== 2 || state.deck.length === 0) throw new Error('The engine state must be left alone');
+
+    const spectator = projectStateFor(state, null);
+    if (spectator.players.some(p => p.hand.length > 0 || p.isHuman)) throw new Error('Spectators should see no hole cards');
+  });
+
+  test('projectStateFor: only shown cards are revealed, including a single card shown after an uncontested win', () => {
+    const state = GameEngine.setupFirstHand([seat('p1', true), seat('a'), seat('b')], 42);
+    // Everyone folds to the big blind
+    const bb = state.players[state.lastRaiserIndex!];
+    const folder = state.players.find(p => p.id !== bb.id)!;
+    const won = GameEngine.handleShowdown({ ...state, players: state.players.map(p => p.id === bb.id ? p : { ...p, isActive: false }) });
+
+    const seen = (view: GameState, id: string) => view.players.find(p => p.id === id)!;
+    const other = projectStateFor(won, folder.id);
+    const mucked = seen(other, state.players.find(p => p.id !== bb.id && p.id !== folder.id)!.id);
+    if (mucked.hand.length !== 0 || mucked.hiddenCards !== 2) throw new Error('A folded hand should stay face down');
+    if (seen(other, bb.id).hand.length !== (won.players.find(p => p.id === bb.id)!.shownCards || []).length) throw new Error('Only shown cards should be revealed');
+
+    // Whatever the bot chose, a human-style show of one card reveals just that card
+    const card = bb.hand[1];
+    const shownOne = projectStateFor(GameEngine.showCards({ ...won, players: won.players.map(p => ({ ...p, shownCards: undefined })) }, bb.id, [card.id]), folder.id);
+    const winner = seen(shownOne, bb.id);
+    if (winner.hand.length !== 1 || winner.hand[0].id !== card.id || winner.hiddenCards !== 1) {
+      throw new Error('Showing one card should reveal just that card');
+    }
+  });
+
+  test('projectHistoryFor: past hands keep the viewer\'s cards and whatever was shown, including later shows', () => {
+    const state = GameEngine.setupFirstHand([seat('p1', true), seat('a'), seat('b')], 42);
+    const bb = state.players[state.lastRaiserIndex!];
+    const won = GameEngine.handleShowdown({ ...state, players: state.players.map(p => p.id === bb.id ? p : { ...p, isActive: false }) });
+    const quiet = { ...won, players: won.players.map(p => ({ ...p, shownCards: undefined })), handHistory: won.handHistory.map(h => ({ ...h, seats: h.seats!.map(s => ({ ...s, shownCards: undefined })) })) };
+
+    const hands = (entries: typeof won.handHistory) => entries[entries.length - 1].seats!.map(s => `${s.id}:${s.hand.length}`).join();
+    const viewer = bb.id === 'p1' ? 'a' : 'p1';
+    if (hands(projectHistoryFor(quiet.handHistory, viewer)) !== ['p1', 'a', 'b'].map(id => `${id}:${id === viewer ? 2 : 0}`).join()) {
+      throw new Error(`Only the viewer's own cards should be in the history, got ${hands(projectHistoryFor(quiet.handHistory, viewer))}`);
+    }
+
+    const shown = GameEngine.showCards(quiet, bb.id, [bb.hand[0].id]);
+    const entry = projectHistoryFor(shown.handHistory, viewer)[0];
+    if (entry.seats!.find(s => s.id === bb.id)!.hand.map(c => c.id).join() !== bb.hand[0].id) throw new Error('A show after the hand should reach the history');
+    if (quiet.handHistory[0].seats!.some(s => s.hand.length !== 2)) throw new Error('The engine history must keep every hand');
+  });
+});
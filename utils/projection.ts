@@ -0,0 +1,52 @@
+import { Card, GameState, HandHistoryEntry, Player, SeatSnapshot, TournamentTable } from '../types';
+
+// --- Viewer Projection ---
+// The engine state knows every card. Anything handed to a table UI or a network client goes
+// through projectStateFor first, so hidden cards are never there to be read.
+
+// You always see your own cards; anyone else's only once the engine has them shown (see
+// GameEngine.showHands). Folded, mucked and uncontested hands stay face down.
+export const getVisibleCards = (player: Player, viewerId: string | null): Card[] =>
+  player.id === viewerId ? player.hand : player.shownCards || [];
+
+// The same rule for a finished hand reviewed by its human player: their cards plus what was shown
+export const getRevealedSeatCards = (seat: SeatSnapshot): Card[] => seat.isHuman ? seat.hand : seat.shownCards || [];
+
+// Face-down cards keep their count so the table can still draw the backs
+const hideHand = (player: Player): Player =>
+  player.hand.length ? { ...player, hand: [], hiddenCards: player.hand.length } : player;
+
+const hideTable = (table: TournamentTable): TournamentTable => ({ ...table, players: table.players.map(hideHand) });
+
+/**
+ * The state as `viewerId` may see it (null for a spectator). Strips the deck, the seeds that would
+ * rebuild it and the hand history, hides unrevealed hole cards (other tables included) and marks
+ * the viewer's own seat with `isHuman`.
+ */
+export const projectStateFor = (state: GameState, viewerId: string | null): GameState => {
+  const project = (p: Player): Player => {
+    const hand = getVisibleCards(p, viewerId);
+    const hiddenCards = p.hand.length - hand.length;
+    return { ...p, hand, hiddenCards: hiddenCards || undefined, isHuman: p.id === viewerId };
+  };
+
+  return {
+    ...state,
+    players: state.players.map(project),
+    winners: state.winners?.map(project),
+    deck: [],
+    handHistory: [],
+    seed: undefined,
+    runSeed: undefined,
+    multiTable: state.multiTable && { ...state.multiTable, otherTables: state.multiTable.otherTables.map(hideTable) }
+  };
+};
+
+/**
+ * Finished hands as `viewerId` may review them: their own hole cards plus whatever each seat showed.
+ * Imported hands only ever held what their text revealed, so they pass through unchanged.
+ */
+export const projectHistoryFor = (history: HandHistoryEntry[], viewerId: string | null): HandHistoryEntry[] =>
+  history.map(entry => entry.seats && entry.source !== 'imported'
+    ? { ...entry, seats: entry.seats.map(s => ({ ...s, hand: s.id === viewerId ? s.hand : s.shownCards || [] })) }
+    : entry);
@@ -0,0 +1,46 @@
+import { createRng, deriveSeed, getDailySeed } from './random';
+import { GameEngine } from './GameEngine';
+import { getBotDecision } from './poker';
+import { Player } from '../types';
+
+declare var describe: any;
+declare var test: any;
+
+const makePlayers = (): Player[] => ['Nick', 'Devin', 'Noah', 'Rob'].map((name, i) => ({
+  id: `bot_${i}`, name, chips: 1000, hand: [], isHuman: false,
+  isActive: true, isAllIn: false, currentBet: 0, position: 'EP'
+}));
+
+describe('Seeded RNG Tests', () => {
+
+  test('createRng: same seed gives the same sequence', () => {
+    const a = createRng(42), b = createRng(42);
+    for (let i = 0; i < 10; i++) {
+      if (a() !== b()) throw new Error('Sequences diverged');
+    }
+  });
+
+  test('deriveSeed: hand numbers give distinct seeds', () => {
+    if (deriveSeed(7, 1) === deriveSeed(7, 2)) throw new Error('Hand seeds should differ');
+    if (getDailySeed(new Date('2026-01-01')) !== getDailySeed(new Date('2026-01-01'))) throw new Error('Daily seed should be stable');
+  });
+
+  test('setupNewHand: same run seed deals the same cards and bot decisions', () => {
+    const h1 = GameEngine.setupNewHand(makePlayers(), -1, 0, [], 1234);
+    const h2 = GameEngine.setupNewHand(makePlayers(), -1, 0, [], 1234);
+    const cards = (s: typeof h1) => s.players.map(p => p.hand.map(c => c.id).join()).join('|');
+    if (cards(h1) !== cards(h2)) throw new Error('Deals should match for the same seed');
+
+    const actor = h1.players[h1.currentPlayerIndex];
+    const d1 = getBotDecision(actor, h1);
+    const d2 = getBotDecision(h2.players[h2.currentPlayerIndex], h2);
+    if (JSON.stringify(d1) !== JSON.stringify(d2)) throw new Error('Bot decisions should match for the same seed');
+  });
+
+  test('setupNewHand: hand seed replays a single hand from history', () => {
+    const original = GameEngine.setupNewHand(makePlayers(), 2, 5, [], 99);
+    const replay = GameEngine.setupNewHand(makePlayers(), 2, 5, [], 0, original.seed);
+    if (original.deck.map(c => c.id).join() !== replay.deck.map(c => c.id).join()) throw new Error('Replay deck should match');
+  });
+
+});
@@ -0,0 +1,42 @@
+// --- Seedable RNG ---
+// Every random roll in a hand (shuffle, bot decisions) comes from a seed stored on the
+// GameState, so any hand can be replayed exactly from its history entry.
+
+export type Rng = () => number; // Drop-in for Math.random: [0, 1)
+
+// Mulberry32: tiny, fast and good enough for card games
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createSeed = (): number => Math.floor(Math.random() * 0x100000000);
+
+// Mix several numbers into one well-spread 32-bit seed (e.g. run seed + hand number)
+export const deriveSeed = (...parts: number[]): number => {
+  let h = 0x811C9DC5;
+  parts.forEach(part => {
+    h = Math.imul(h ^ (part >>> 0), 0x01000193);
+    h ^= h >>> 13;
+  });
+  h = Math.imul(h ^ (h >>> 16), 0x85EBCA6B);
+  return (h ^ (h >>> 13)) >>> 0;
+};
+
+export const seedFromString = (text: string): number => {
+  let h = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Same seed for everyone on the same calendar day (league "daily seed" challenge)
+export const getDailySeed = (date: Date = new Date()): number =>
+  seedFromString(`NGPL-${date.toISOString().slice(0, 10)}`);
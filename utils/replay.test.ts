@@ -0,0 +1,56 @@
+import { GameEngine } from './GameEngine';
+import { buildReplayFrames } from './replay';
+import { GamePhase, Player } from '../types';
+
+declare var describe: any;
+declare var test: any;
+
+const makePlayers = (): Player[] => ['You', 'Nick', 'Noah'].map((name, i) => ({
+  id: `p${i}`, name, chips: 1000, hand: [], isHuman: i === 0,
+  isActive: true, isAllIn: false, currentBet: 0, position: 'EP'
+}));
+
+describe('Action Log & Replay Tests', () => {
+
+  test('engine records blinds, raises, calls and folds as structured actions', () => {
+    let state = GameEngine.setupNewHand(makePlayers(), -1, 0, [], 7);
+    // Dealer is seat 0, so seat 0 acts first three-handed
+    state = GameEngine.processPlayerAction(state, state.players[0], 60, "Raises to", 60);
+    state = GameEngine.foldPlayer(state, state.players[1]);
+    const bb = state.players[2];
+    state = GameEngine.processPlayerAction(state, bb, state.currentBet - bb.currentBet, "Calls");
+
+    const types = (state.actions || []).map(a => a.type).join(',');
+    if (types !== 'POST_SB,POST_BB,RAISE,FOLD,CALL') throw new Error(`Unexpected action log: ${types}`);
+    if (state.actions![4].potAfter !== 130) throw new Error(`Expected pot 130, got ${state.actions![4].potAfter}`);
+  });
+
+  test('buildReplayFrames: one frame per action plus deal and showdown', () => {
+    let state = GameEngine.setupNewHand(makePlayers(), -1, 0, [], 7);
+    state = GameEngine.processPlayerAction(state, state.players[0], 20, "Calls");
+    state = GameEngine.processPlayerAction(state, state.players[1], 10, "Calls");
+    state = GameEngine.processPlayerAction(state, state.players[2], 0, "Checks");
+    state = GameEngine.nextPhase(state);
+    state = GameEngine.nextPhase(state);
+    state = GameEngine.nextPhase(state);
+    state = GameEngine.nextPhase(state);
+
+    const entry = state.handHistory[state.handHistory.length - 1];
+    const frames = buildReplayFrames(entry);
+    if (frames.length !== entry.actions!.length + 2) throw new Error(`Expected ${entry.actions!.length + 2} frames, got ${frames.length}`);
+
+    const final = frames[frames.length - 1].state;
+    if (final.phase !== GamePhase.SHOWDOWN) throw new Error('Last frame should be the showdown');
+    if (final.communityCards.length !== 5) throw new Error('Showdown frame should show the full board');
+    const total = final.players.reduce((sum, p) => sum + p.chips, 0);
+    if (total !== 3000) throw new Error(`Replay should conserve chips, got ${total}`);
+
+    const dealt = frames[0].state.players;
+    if (dealt[0].hand.length !== 2 || dealt.slice(1).some(p => p.hand.length > 0 || p.hiddenCards !== 2)) throw new Error('Only your own cards should be face up while replaying');
+    final.players.slice(1).forEach((p, i) => {
+      const shown = entry.seats![i + 1].shownCards || [];
+      if (p.hand.map(c => c.id).join() !== shown.map(c => c.id).join()) throw new Error(`${p.name} should reveal only what they showed`);
+    });
+  });
+
+});
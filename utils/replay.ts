@@ -0,0 +1,145 @@
+import { Card, GameState, GamePhase, Player, HandAction, HandHistoryEntry, SeatSnapshot } from '../types';
+import { getPotShares } from './pots';
+import { getRevealedSeatCards } from './projection';
+
+export interface ReplayFrame {
+  state: GameState;
+  caption: string;
+}
+
+// Short text for a structured action, e.g. "raises to 120 (all-in)"
+export const describeHandAction = (action: HandAction): string => {
+  const allIn = action.isAllIn && action.amount > 0 ? ' (all-in)' : '';
+  switch (action.type) {
+    case 'POST_ANTE': return `posts ante ${action.amount}${allIn}`;
+    case 'POST_SB': return `posts small blind ${action.amount}${allIn}`;
+    case 'POST_BB': return `posts big blind ${action.amount}${allIn}`;
+    case 'FOLD': return 'folds';
+    case 'CHECK': return 'checks';
+    case 'CALL': return `calls ${action.amount}${allIn}`;
+    case 'BET': return `bets ${action.amount}${allIn}`;
+    case 'RAISE': return `raises to ${action.totalBet}${allIn}`;
+  }
+};
+
+const bubbleFor = (action: HandAction): string => {
+  switch (action.type) {
+    case 'POST_ANTE': return `Ante ${action.amount}`;
+    case 'POST_SB': return `SB ${action.amount}`;
+    case 'POST_BB': return `BB ${action.amount}`;
+    case 'FOLD': return 'Fold';
+    case 'CHECK': return 'Check';
+    case 'CALL': return `Call ${action.amount}`;
+    case 'BET': return `Bet ${action.amount}`;
+    case 'RAISE': return `Raise ${action.totalBet}`;
+  }
+};
+
+// Antes and blinds: posted before anyone acts, so they say nothing about how a hand was played
+export const isForcedBet = (action: HandAction) =>
+  action.type === 'POST_ANTE' || action.type === 'POST_SB' || action.type === 'POST_BB';
+
+export const canReplay = (entry: HandHistoryEntry) => !!entry.seats && !!entry.actions;
+
+// --- Replay Frames ---
+// Rebuilds one table snapshot per action so PokerTable can step through a finished hand.
+export const buildReplayFrames = (entry: HandHistoryEntry): ReplayFrame[] => {
+  if (!entry.seats || !entry.actions) return [];
+
+  const baseState = (players: Player[]): GameState => ({
+    phase: GamePhase.PRE_FLOP,
+    pot: 0,
+    communityCards: [],
+    deck: [],
+    players,
+    currentPlayerIndex: -1,
+    dealerIndex: entry.dealerIndex ?? 0,
+    minBet: 0,
+    currentBet: 0,
+    lastRaiserIndex: null,
+    roundLog: [],
+    deckColor: 'blue',
+    handHistory: [],
+    handCount: entry.handNumber,
+    seed: entry.seed
+  });
+
+  // Hold'em deals two; a projected history no longer says how many an opponent held
+  const faceDown = (seat: SeatSnapshot, hand: Card[]) => seat.startingChips > 0 ? Math.max(0, 2 - hand.length) || undefined : undefined;
+
+  // The human sees their own cards throughout; anyone else's only once shown at the end
+  let players: Player[] = entry.seats.map(seat => ({
+    id: seat.id,
+    name: seat.name,
+    chips: seat.startingChips,
+    hand: seat.isHuman ? seat.hand : [],
+    hiddenCards: faceDown(seat, seat.isHuman ? seat.hand : []),
+    isHuman: seat.isHuman,
+    isActive: seat.startingChips > 0,
+    isAllIn: false,
+    currentBet: 0,
+    position: '',
+    avatarSeed: seat.avatarSeed
+  }));
+
+  let state = baseState(players);
+  const frames: ReplayFrame[] = [{ state, caption: `Hand #${entry.handNumber} dealt` }];
+
+  entry.actions.forEach(action => {
+    const newStreet = action.street !== state.phase;
+    players = players.map(p => {
+      const reset = newStreet ? { ...p, currentBet: 0, actionMessage: undefined } : p;
+      if (p.id !== action.playerId) return reset;
+
+      return action.type === 'FOLD'
+        ? { ...reset, isActive: false, actionMessage: bubbleFor(action) }
+        : { ...reset, chips: p.chips - action.amount, currentBet: action.totalBet, isAllIn: action.isAllIn, actionMessage: bubbleFor(action) };
+    });
+
+    const caption = `${action.playerName} ${describeHandAction(action)}`;
+    state = {
+      ...state,
+      phase: action.street,
+      players,
+      pot: action.potAfter,
+      communityCards: action.board,
+      currentBet: Math.max(...players.map(p => p.currentBet)),
+      currentPlayerIndex: players.findIndex(p => p.id === action.playerId),
+      roundLog: [...state.roundLog, caption]
+    };
+    frames.push({ state, caption });
+  });
+
+  // Showdown: award each pot to its winners and turn over the cards that were shown
+  const finalPlayers = players.map((p, i) => {
+    const seat = entry.seats![i];
+    const hand = getRevealedSeatCards(seat);
+    return { ...p, hand, hiddenCards: faceDown(seat, hand), currentBet: 0, actionMessage: undefined };
+  });
+  (entry.pots || []).forEach(pot => {
+    getPotShares(pot).forEach(({ id, amount }) => {
+      const winner = finalPlayers.find(p => p.id === id);
+      if (winner) winner.chips += amount;
+    });
+  });
+
+  const caption = `Showdown: ${entry.winnerNames.join(', ')} (${entry.winningHand})`;
+  frames.push({
+    state: {
+      ...state,
+      phase: GamePhase.SHOWDOWN,
+      players: finalPlayers,
+      pot: 0,
+      communityCards: entry.board || state.communityCards,
+      currentPlayerIndex: -1,
+      winners: finalPlayers.filter(p => (entry.pots || []).some(pot => pot.winnerIds.includes(p.id))),
+      winningHandDesc: entry.winningHand,
+      lastPotSize: entry.winAmount,
+      potResults: entry.pots,
+      roundLog: [...state.roundLog, caption]
+    },
+    caption
+  });
+
+  return frames;
+};
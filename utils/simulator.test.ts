@@ -0,0 +1,36 @@
+import { simulateSession, callingStationStrategy, foldOrCheckStrategy } from './simulator';
+import { FRIEND_NAMES } from '../constants';
+
+declare var describe: any;
+declare var test: any;
+
+const total = (stacks: Record<string, number>) => Object.values(stacks).reduce((sum, c) => sum + c, 0);
+
+describe('Headless Simulator Tests', () => {
+
+  test('simulateSession: bots play a full session and conserve chips', () => {
+    const seats = FRIEND_NAMES.map(name => ({ name }));
+    const result = simulateSession(seats, { hands: 150, seed: 2024 });
+    if (result.handsPlayed === 0) throw new Error('No hands were played');
+    if (total(result.finalStacks) !== seats.length * 1000) throw new Error(`Chips leaked: ${total(result.finalStacks)}`);
+    if (result.hands.some(h => !h.entry || h.log.length === 0)) throw new Error('Every hand should have a history entry and log');
+  });
+
+  test('simulateSession: same seed replays the same session', () => {
+    const seats = FRIEND_NAMES.slice(0, 4).map(name => ({ name }));
+    const a = simulateSession(seats, { hands: 40, seed: 7 });
+    const b = simulateSession(seats, { hands: 40, seed: 7 });
+    if (JSON.stringify(a.finalStacks) !== JSON.stringify(b.finalStacks)) throw new Error('Seeded sessions should match');
+  });
+
+  test('simulateSession: custom strategies drive their seats', () => {
+    const result = simulateSession([
+      { name: 'Station', strategy: callingStationStrategy },
+      { name: 'Nit', strategy: foldOrCheckStrategy }
+    ], { hands: 20, seed: 3 });
+    const actions = result.hands.flatMap(h => h.entry.actions || []);
+    if (actions.some(a => a.playerName === 'Station' && (a.type === 'FOLD' || a.type === 'RAISE'))) throw new Error('Calling station should only check or call');
+    if (actions.some(a => a.playerName === 'Nit' && (a.type === 'CALL' || a.type === 'RAISE'))) throw new Error('Nit should only check or fold');
+  });
+
+});
@@ -0,0 +1,122 @@
+import { GameState, GamePhase, Player, HandHistoryEntry, TournamentStructure, TournamentState, CashGameRules, CashGameState } from '../types';
+import { STARTING_CHIPS } from '../constants';
+import { GameEngine } from './GameEngine';
+import { getBotDecision } from './poker';
+import { createSeed } from './random';
+import { createTournament } from './tournament';
+import { createCashGame } from './cashGame';
+
+// --- Headless Session Simulator ---
+// Drives GameEngine synchronously, without React or timers, so whole sessions can be played
+// for bot balancing, perk benchmarks and regression tests.
+
+export type SeatDecision = { action: 'FOLD' | 'CHECK' | 'CALL' | 'RAISE', amount?: number };
+
+// A seat strategy sees the same state a bot would and returns a decision (RAISE amount is on top of the call)
+export type SeatStrategy = (player: Player, state: GameState) => SeatDecision;
+
+export interface SimulatedSeat {
+  name: string;                // Also selects the BOT_PROFILES personality for the default strategy
+  strategy?: SeatStrategy;     // Defaults to getBotDecision
+  chips?: number;
+}
+
+export interface SimulationOptions {
+  hands: number;
+  seed?: number;
+  maxActionsPerHand?: number;
+  tournament?: TournamentStructure; // Play a sit-and-go (levels by hands) instead of a cash game
+  cashGame?: CashGameRules;         // Let busted seats rebuy or be replaced between hands
+}
+
+export interface SimulatedHand {
+  entry: HandHistoryEntry;
+  log: string[];
+}
+
+export interface SimulationResult {
+  seed: number;
+  handsPlayed: number;
+  finalStacks: Record<string, number>;
+  hands: SimulatedHand[];
+  tournament?: TournamentState; // Final standings when options.tournament was set
+  cashGame?: CashGameState;     // Final ledger when options.cashGame was set
+}
+
+export const botStrategy: SeatStrategy = (player, state) => getBotDecision(player, state);
+
+// Handy baselines for benchmarks
+export const callingStationStrategy: SeatStrategy = (player, state) =>
+  ({ action: state.currentBet > player.currentBet ? 'CALL' : 'CHECK' });
+
+export const foldOrCheckStrategy: SeatStrategy = (player, state) =>
+  ({ action: state.currentBet > player.currentBet ? 'FOLD' : 'CHECK' });
+
+const isHandOver = (state: GameState) => state.phase === GamePhase.SHOWDOWN || state.phase === GamePhase.GAME_OVER;
+
+// Plays one hand from the deal to showdown
+export const playHand = (start: GameState, strategies: Record<string, SeatStrategy>, maxActions: number = 500): GameState => {
+  let state = start;
+  let actions = 0;
+
+  while (!isHandOver(state)) {
+    if (++actions > maxActions) {
+      throw new Error(`Hand #${state.handCount} did not finish within ${maxActions} actions`);
+    }
+
+    const player = state.players[state.currentPlayerIndex];
+    if (!player.isActive || player.isAllIn) {
+      state = GameEngine.nextTurn(state);
+      continue;
+    }
+
+    const strategy = strategies[player.id] || botStrategy;
+    state = GameEngine.applyDecision(state, player, strategy(player, state));
+    state = GameEngine.nextTurn(state);
+  }
+
+  return state;
+};
+
+export const simulateSession = (seats: SimulatedSeat[], options: SimulationOptions): SimulationResult => {
+  const seed = options.seed ?? createSeed();
+
+  let players: Player[] = seats.map((seat, i) => ({
+    id: `sim_${i}`,
+    name: seat.name,
+    chips: seat.chips ?? STARTING_CHIPS,
+    hand: [],
+    isHuman: false,
+    isActive: true,
+    isAllIn: false,
+    currentBet: 0,
+    position: ''
+  }));
+
+  const strategies: Record<string, SeatStrategy> = {};
+  seats.forEach((seat, i) => { if (seat.strategy) strategies[`sim_${i}`] = seat.strategy; });
+
+  const hands: SimulatedHand[] = [];
+  const tournament = options.tournament && createTournament(options.tournament, seats.length, 0);
+  const cashGame = options.cashGame && createCashGame(options.cashGame, players);
+  let last: GameState | null = null;
+
+  for (let n = 0; n < options.hands; n++) {
+    // Cash tables refill busted seats before the next deal
+    if (!cashGame && players.filter(p => p.chips > 0).length < 2) break;
+
+    // The simulated clock stands still, so only hand-based levels move
+    const start: GameState = last
+      ? GameEngine.setupNextHand(last, 0)
+      : GameEngine.setupFirstHand(players, seed, { tournament, cashGame });
+    last = playHand(start, strategies, options.maxActionsPerHand);
+
+    players = last.players;
+    hands.push({ entry: last.handHistory[last.handHistory.length - 1], log: last.roundLog });
+  }
+
+  const finalStacks: Record<string, number> = {};
+  players.forEach(p => { finalStacks[p.name] = p.chips; });
+
+  return { seed, handsPlayed: hands.length, finalStacks, hands, tournament: last?.tournament ?? tournament, cashGame: last?.cashGame ?? cashGame };
+};
@@ -0,0 +1,67 @@
+import { computeStats } from './stats';
+import { simulateSession } from './simulator';
+import { projectHistoryFor } from './projection';
+import { DEFAULT_CASH_RULES } from '../constants';
+import { HandHistoryEntry, HandAction, GamePhase, Card, Rank, Suit } from '../types';
+
+declare var describe: any;
+declare var test: any;
+
+const c = (rank: Rank, suit: Suit): Card => ({ rank, suit, id: `${rank}${suit}` });
+const act = (playerId: string, street: GamePhase, type: HandAction['type'], amount: number, totalBet: number): HandAction =>
+  ({ playerId, playerName: playerId.toUpperCase(), street, type, amount, totalBet, potAfter: 0, board: [], isAllIn: false });
+
+// A opens, B 3-bets, C folds, A calls; A bets the flop and B calls; B wins at showdown
+const scriptedHand: HandHistoryEntry = {
+  id: 'h1', handNumber: 1, winnerNames: ['B'], winAmount: 430, winningHand: 'Pair', date: '',
+  seats: ['a', 'b', 'c'].map((id, i) => ({ id, name: id.toUpperCase(), isHuman: i === 0, startingChips: 1000, hand: [c(Rank.TWO, Suit.CLUBS), c(Rank.THREE, Suit.CLUBS)] })),
+  dealerIndex: 0,
+  board: [c(Rank.KING, Suit.HEARTS), c(Rank.SEVEN, Suit.CLUBS), c(Rank.TWO, Suit.DIAMONDS), c(Rank.FOUR, Suit.SPADES), c(Rank.NINE, Suit.HEARTS)],
+  actions: [
+    act('b', GamePhase.PRE_FLOP, 'POST_SB', 10, 10),
+    act('c', GamePhase.PRE_FLOP, 'POST_BB', 20, 20),
+    act('a', GamePhase.PRE_FLOP, 'RAISE', 60, 60),
+    act('b', GamePhase.PRE_FLOP, 'RAISE', 170, 180),
+    act('c', GamePhase.PRE_FLOP, 'FOLD', 0, 20),
+    act('a', GamePhase.PRE_FLOP, 'CALL', 120, 180),
+    act('a', GamePhase.FLOP, 'BET', 25, 25),
+    act('b', GamePhase.FLOP, 'CALL', 25, 25),
+    act('a', GamePhase.TURN, 'CHECK', 0, 0),
+    act('b', GamePhase.TURN, 'CHECK', 0, 0)
+  ],
+  pots: [{ label: 'Main Pot', amount: 430, winnerNames: ['B'], winnerIds: ['b'], winningHand: 'Pair' }]
+};
+
+describe('Session Stats Tests', () => {
+
+  test('computeStats: counts pre-flop, post-flop and showdown stats for a scripted hand', () => {
+    const stats = computeStats([scriptedHand]);
+    const a = stats.find(s => s.name === 'A')!, b = stats.find(s => s.name === 'B')!, cc = stats.find(s => s.name === 'C')!;
+    if (stats[0] !== a) throw new Error('Human should be listed first');
+    if (a.vpip !== 1 || a.pfr !== 1 || cc.vpip !== 0) throw new Error('VPIP/PFR wrong');
+    if (b.counts.threeBetChances !== 1 || b.threeBet !== 1) throw new Error('B faced one raise and 3-bet it');
+    if (cc.counts.threeBetChances !== 0) throw new Error('C faced a 3-bet, not a single raise');
+    if (a.aggressionFactor !== null || b.aggressionFactor !== 0) throw new Error('AF should count post-flop bets against calls');
+    if (a.wtsd !== 1 || a.wsd !== 0 || b.wsd !== 1) throw new Error('Showdown stats wrong');
+    if (b.counts.net !== 430 - 205 || a.counts.net !== -205 || cc.counts.net !== -20) throw new Error('Net chips wrong');
+  });
+
+  test('computeStats: bot profiles show up in the numbers', () => {
+    // A cash game where busted bots always rebuy and nobody leaves, so the same four play every hand
+    const cashGame = { ...DEFAULT_CASH_RULES, botRebuyChance: 1, botLeaveChance: 0 };
+    const { hands, handsPlayed } = simulateSession(['Noah', 'Cody A', 'Nick', 'Pat'].map(name => ({ name })), { hands: 200, seed: 9, cashGame });
+    if (handsPlayed !== 200) throw new Error(`Expected all 200 hands to be played, got ${handsPlayed}`);
+    const stats = computeStats(hands.map(h => h.entry));
+    const noah = stats.find(s => s.name === 'Noah')!, rock = stats.find(s => s.name === 'Cody A')!;
+    if (noah.counts.hands !== 200 || rock.counts.hands !== 200) throw new Error(`Both bots should be dealt every hand, got ${noah.counts.hands}/${rock.counts.hands}`);
+    if (noah.vpip <= rock.vpip) throw new Error(`Calling station VPIP (${noah.vpip}) should beat the rock's (${rock.vpip})`);
+    const net = stats.reduce((sum, s) => sum + s.counts.net, 0);
+    if (net !== 0) throw new Error(`Net chips should sum to zero, got ${net}`);
+
+    // Stats come from the action log, so hiding unshown hole cards must not change them
+    const projected = computeStats(projectHistoryFor(hands.map(h => h.entry), hands[0].entry.seats![0].id));
+    const summary = (list: typeof stats) => list.map(s => `${s.name}:${s.counts.hands}:${s.vpip}`).join();
+    if (summary(projected) !== summary(stats)) throw new Error(`Projected stats differ: ${summary(projected)} vs ${summary(stats)}`);
+  });
+
+});
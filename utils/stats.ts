@@ -0,0 +1,139 @@
+import { HandHistoryEntry, GamePhase } from '../types';
+import { BIG_BLIND } from '../constants';
+import { isForcedBet } from './replay';
+import { isDealtIn } from './poker';
+import { getPotShares } from './pots';
+
+// --- Session Statistics ---
+// Standard HUD stats rebuilt from the structured action log of finished hands.
+// Players are keyed by name so bots (and "You") accumulate across runs.
+
+export interface StatCounts {
+  hands: number;
+  vpipHands: number;      // Voluntarily put chips in pre-flop
+  pfrHands: number;       // Raised pre-flop
+  threeBetChances: number; // Acted pre-flop facing exactly one raise
+  threeBets: number;
+  betsAndRaises: number;  // Post-flop
+  calls: number;          // Post-flop
+  sawFlop: number;
+  showdowns: number;
+  showdownWins: number;
+  net: number;            // Chips won minus chips put in
+  netBb: number;          // Same, in big blinds at each hand's stakes
+}
+
+export interface PlayerStats {
+  name: string;
+  isHuman: boolean;
+  counts: StatCounts;
+  vpip: number;           // All rates are 0-1
+  pfr: number;
+  threeBet: number;
+  aggressionFactor: number | null; // (bets + raises) / calls; null before any post-flop call
+  wtsd: number;           // Went to showdown, of hands that saw a flop
+  wsd: number;            // Won at showdown, of showdowns
+  bbPer100: number;
+}
+
+const emptyCounts = (): StatCounts => ({
+  hands: 0, vpipHands: 0, pfrHands: 0, threeBetChances: 0, threeBets: 0,
+  betsAndRaises: 0, calls: 0, sawFlop: 0, showdowns: 0, showdownWins: 0, net: 0, netBb: 0
+});
+
+const rate = (part: number, whole: number) => whole > 0 ? part / whole : 0;
+
+// Chips each player collected from the pots
+const potWinnings = (entry: HandHistoryEntry): Record<string, number> => {
+  const won: Record<string, number> = {};
+  (entry.pots || []).forEach(pot => {
+    getPotShares(pot).forEach(({ id, amount }) => { won[id] = (won[id] || 0) + amount; });
+  });
+  return won;
+};
+
+// Net chips per player id; rebuilt from the action log for hands recorded before netResults existed
+export const getNetResults = (entry: HandHistoryEntry): Record<string, number> => {
+  if (entry.netResults) return entry.netResults;
+  const won = potWinnings(entry);
+  const net: Record<string, number> = {};
+  (entry.seats || []).forEach(seat => { net[seat.id] = won[seat.id] || 0; });
+  (entry.actions || []).forEach(a => { net[a.playerId] = (net[a.playerId] || 0) - a.amount; });
+  return net;
+};
+
+const addHand = (entry: HandHistoryEntry, totals: Map<string, { isHuman: boolean; counts: StatCounts }>) => {
+  if (!entry.seats || !entry.actions) return;
+
+  const dealt = entry.seats.filter(isDealtIn);
+  const folded = new Set(entry.actions.filter(a => a.type === 'FOLD').map(a => a.playerId));
+  const reachedFlop = (entry.board || []).length >= 3;
+  const contested = dealt.filter(s => !folded.has(s.id)).length >= 2;
+  const won = potWinnings(entry);
+  const net = getNetResults(entry);
+  const bigBlind = entry.blinds?.bigBlind || BIG_BLIND;
+
+  // Pre-flop: how many raises each player faced when they acted
+  const facedRaises: Record<string, number[]> = {};
+  let raisesSoFar = 0;
+  entry.actions.filter(a => a.street === GamePhase.PRE_FLOP).forEach(a => {
+    if (isForcedBet(a)) return;
+    (facedRaises[a.playerId] = facedRaises[a.playerId] || []).push(raisesSoFar);
+    if (a.type === 'RAISE' || a.type === 'BET') raisesSoFar++;
+  });
+
+  dealt.forEach(seat => {
+    const mine = entry.actions!.filter(a => a.playerId === seat.id);
+    const preflop = mine.filter(a => a.street === GamePhase.PRE_FLOP);
+    const postflop = mine.filter(a => a.street !== GamePhase.PRE_FLOP);
+    const foldedPreflop = preflop.some(a => a.type === 'FOLD');
+    const raisedPreflop = preflop.some(a => a.type === 'RAISE' || a.type === 'BET');
+
+    if (!totals.has(seat.name)) totals.set(seat.name, { isHuman: seat.isHuman, counts: emptyCounts() });
+    const c = totals.get(seat.name)!.counts;
+
+    c.hands++;
+    if (preflop.some(a => a.type === 'CALL' || a.type === 'RAISE' || a.type === 'BET')) c.vpipHands++;
+    if (raisedPreflop) c.pfrHands++;
+
+    const faced = facedRaises[seat.id] || [];
+    const threeBetSpot = faced.indexOf(1);
+    if (threeBetSpot >= 0) {
+      c.threeBetChances++;
+      const voluntary = preflop.filter(a => !isForcedBet(a));
+      if (voluntary[threeBetSpot]?.type === 'RAISE') c.threeBets++;
+    }
+
+    c.betsAndRaises += postflop.filter(a => a.type === 'BET' || a.type === 'RAISE').length;
+    c.calls += postflop.filter(a => a.type === 'CALL').length;
+
+    if (reachedFlop && !foldedPreflop) c.sawFlop++;
+    if (reachedFlop && contested && !folded.has(seat.id)) {
+      c.showdowns++;
+      if (won[seat.id]) c.showdownWins++;
+    }
+
+    c.net += net[seat.id] || 0;
+    c.netBb += (net[seat.id] || 0) / bigBlind;
+  });
+};
+
+export const computeStats = (history: HandHistoryEntry[]): PlayerStats[] => {
+  const totals = new Map<string, { isHuman: boolean; counts: StatCounts }>();
+  history.forEach(entry => addHand(entry, totals));
+
+  return Array.from(totals.entries()).map(([name, { isHuman, counts: c }]) => ({
+    name,
+    isHuman,
+    counts: c,
+    vpip: rate(c.vpipHands, c.hands),
+    pfr: rate(c.pfrHands, c.hands),
+    threeBet: rate(c.threeBets, c.threeBetChances),
+    aggressionFactor: c.calls > 0 ? c.betsAndRaises / c.calls : null,
+    wtsd: rate(c.showdowns, c.sawFlop),
+    wsd: rate(c.showdownWins, c.showdowns),
+    bbPer100: c.hands > 0 ? c.netBb / c.hands * 100 : 0
+  })).sort((a, b) => Number(b.isHuman) - Number(a.isHuman) || a.name.localeCompare(b.name));
+};
+
+export const formatRate = (value: number) => `${Math.round(value * 100)}%`;
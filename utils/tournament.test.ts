@@ -0,0 +1,73 @@
+import { advanceLevel, createTournament, getPrizePool, parseBlindSchedule, formatBlindSchedule } from './tournament';
+import { simulateSession } from './simulator';
+import { exportHandToPokerStars, parsePokerStarsHand } from './pokerstars';
+import { DEFAULT_TOURNAMENT } from '../constants';
+import { TournamentStructure } from '../types';
+
+declare var describe: any;
+declare var test: any;
+
+const turbo: TournamentStructure = { ...DEFAULT_TOURNAMENT, levelLength: 4 };
+// Antes from level 2 so short simulated tournaments reach them
+const hyper: TournamentStructure = {
+  ...turbo,
+  levelLength: 3,
+  levels: parseBlindSchedule('10/20, 20/40/5, 40/80/10, 100/200/25, 200/400/50, 500/1000/100, 1000/2000/200')
+};
+
+describe('Tournament Tests', () => {
+
+  test('advanceLevel: moves by hands or by minutes and stops at the last level', () => {
+    const byHands = createTournament(turbo, 8, 0);
+    if (advanceLevel(byHands, 3).level !== 0) throw new Error('Level should hold for the first 4 hands');
+    if (advanceLevel(byHands, 9).level !== 2) throw new Error('9 hands in should be level 3');
+    if (advanceLevel(byHands, 1000).level !== turbo.levels.length - 1) throw new Error('Should cap at the last level');
+
+    const byMinutes = createTournament({ ...turbo, levelBy: 'minutes', levelLength: 5 }, 8, 0);
+    const later = advanceLevel(byMinutes, 50, 11 * 60000);
+    if (later.level !== 2 || later.levelStartedAt !== 10 * 60000) throw new Error(`Expected level 3 from minute 10, got ${later.level + 1} from ${later.levelStartedAt}`);
+  });
+
+  test('parseBlindSchedule: reads levels with optional antes and rejects nonsense', () => {
+    const levels = parseBlindSchedule('10/20, 25/50\n50/100/10');
+    if (formatBlindSchedule(levels) !== '10/20, 25/50, 50/100/10') throw new Error(`Round trip failed: ${formatBlindSchedule(levels)}`);
+    let threw = false;
+    try { parseBlindSchedule('20/10'); } catch { threw = true; }
+    if (!threw) throw new Error('Small blind above the big blind should be rejected');
+  });
+
+  test('simulated sit-and-go: blinds rise, antes are posted and every place is paid out once', () => {
+    const names = ['Nick', 'Cody A', 'Pat', 'Noah', 'Cody'];
+    const result = simulateSession(names.map(name => ({ name })), { hands: 400, seed: 5, tournament: hyper });
+    const tournament = result.tournament!;
+
+    if (!tournament.isComplete) throw new Error(`Tournament should finish, ${result.handsPlayed} hands played`);
+    const places = tournament.eliminations.map(e => e.place).sort((a, b) => a - b);
+    if (places.join() !== '1,2,3,4,5') throw new Error(`Places should be 1-5 once each, got ${places.join()}`);
+    const paid = tournament.eliminations.reduce((sum, e) => sum + e.prize, 0);
+    if (paid !== getPrizePool(hyper, names.length)) throw new Error(`Paid ${paid}, pool is ${getPrizePool(hyper, names.length)}`);
+
+    const winner = tournament.eliminations.find(e => e.place === 1)!;
+    if (result.finalStacks[winner.name] !== 1000 * names.length) throw new Error('The winner should hold every chip');
+
+    const anteHand = result.hands.find(h => h.entry.actions!.some(a => a.type === 'POST_ANTE'));
+    if (!anteHand || !anteHand.entry.blinds || anteHand.entry.blinds.ante === 0) throw new Error('Expected ante levels to be reached');
+    const net = Object.values(anteHand.entry.netResults!).reduce((sum, n) => sum + n, 0);
+    if (net !== 0) throw new Error(`Antes should be conserved, nets sum to ${net}`);
+  });
+
+  test('PokerStars export: writes the hand\'s blinds and antes and reads them back', () => {
+    const result = simulateSession(['Nick', 'Pat', 'Noah'].map(name => ({ name })), { hands: 60, seed: 8, tournament: hyper });
+    const entry = result.hands.map(h => h.entry).find(e => e.blinds!.ante > 0);
+    if (!entry) throw new Error('Expected a hand with antes');
+    const text = exportHandToPokerStars(entry);
+    if (!text.includes(`(${entry.blinds!.smallBlind}/${entry.blinds!.bigBlind})`)) throw new Error('Header should carry the level blinds');
+
+    const parsed = parsePokerStarsHand(text);
+    if (JSON.stringify(parsed.blinds) !== JSON.stringify(entry.blinds)) throw new Error(`Blinds lost: ${JSON.stringify(parsed.blinds)}`);
+    if (parsed.actions!.filter(a => a.type === 'POST_ANTE').length !== entry.actions!.filter(a => a.type === 'POST_ANTE').length) {
+      throw new Error('Antes should survive the round trip');
+    }
+  });
+
+});
@@ -0,0 +1,119 @@
+import { TournamentState, TournamentStructure, BlindLevel, HandHistoryEntry, Elimination } from '../types';
+
+// --- Tournament Clock & Payouts ---
+// Sit-and-go bookkeeping: the blind level, who busted in which place, and what each place pays.
+// Levels only move between hands, like a live tournament clock that finishes the hand in progress.
+
+export const createTournament = (structure: TournamentStructure, entrants: number, now: number = Date.now()): TournamentState => ({
+  structure,
+  level: 0,
+  levelStartHand: 0,
+  levelStartedAt: now,
+  entrants,
+  eliminations: [],
+  isComplete: false
+});
+
+export const getTournamentBlinds = (tournament: TournamentState): BlindLevel =>
+  tournament.structure.levels[tournament.level];
+
+export const getPrizePool = (structure: TournamentStructure, entrants: number) => structure.buyIn * entrants;
+
+export const getPrize = (structure: TournamentStructure, entrants: number, place: number): number =>
+  Math.round(getPrizePool(structure, entrants) * (structure.payouts[place - 1] || 0));
+
+// Moves to the level that should be in play for the hand after `handCount`
+export const advanceLevel = (tournament: TournamentState, handCount: number, now: number = Date.now()): TournamentState => {
+  const { levels, levelBy, levelLength } = tournament.structure;
+  const lengthMs = levelLength * 60000;
+  let { level, levelStartHand, levelStartedAt } = tournament;
+
+  while (level < levels.length - 1) {
+    if (levelBy === 'hands' && handCount - levelStartHand >= levelLength) {
+      levelStartHand += levelLength;
+    } else if (levelBy === 'minutes' && now - levelStartedAt >= lengthMs) {
+      levelStartedAt += lengthMs;
+    } else {
+      break;
+    }
+    level++;
+  }
+
+  return level === tournament.level ? tournament : { ...tournament, level, levelStartHand, levelStartedAt };
+};
+
+// "3 hands" / "4:05" until the next level; null on the last level
+export const describeTimeToNextLevel = (tournament: TournamentState, handCount: number, now: number = Date.now()): string | null => {
+  const { levels, levelBy, levelLength } = tournament.structure;
+  if (tournament.level >= levels.length - 1) return null;
+
+  if (levelBy === 'hands') {
+    const left = Math.max(1, levelLength - (handCount - tournament.levelStartHand));
+    return `${left} hand${left === 1 ? '' : 's'}`;
+  }
+  const secondsLeft = Math.max(0, Math.ceil((tournament.levelStartedAt + levelLength * 60000 - now) / 1000));
+  return `${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}`;
+};
+
+// Keeps a minutes-based clock from running while the run sat in a save slot
+export const resumeTournamentClock = (tournament: TournamentState, pausedAt: number, now: number = Date.now()): TournamentState =>
+  ({ ...tournament, levelStartedAt: tournament.levelStartedAt + Math.max(0, now - pausedAt) });
+
+/**
+ * Records everyone who busted in `entry`. Players busting on the same hand are placed by the
+ * stack they started it with (bigger stack finishes higher). The last player standing wins;
+ * in a multi-table event that only happens once the whole field, not just this table, is down to one.
+ */
+export const recordEliminations = (tournament: TournamentState, entry: HandHistoryEntry): TournamentState => {
+  if (tournament.isComplete || !entry.seats || !entry.netResults) return tournament;
+
+  const { structure, entrants } = tournament;
+  const stackAfter = (id: string, startingChips: number) => startingChips + (entry.netResults![id] || 0);
+  const dealtIn = entry.seats.filter(s => s.startingChips > 0);
+  const busted = dealtIn
+    .filter(s => stackAfter(s.id, s.startingChips) <= 0)
+    .sort((a, b) => a.startingChips - b.startingChips);
+  const survivors = dealtIn.filter(s => stackAfter(s.id, s.startingChips) > 0);
+  if (busted.length === 0) return tournament;
+
+  const eliminations: Elimination[] = [...tournament.eliminations];
+  busted.forEach(seat => {
+    const place = entrants - eliminations.length;
+    eliminations.push({ playerId: seat.id, name: seat.name, place, handNumber: entry.handNumber, prize: getPrize(structure, entrants, place) });
+  });
+
+  const remaining = entrants - eliminations.length;
+  if (remaining === 1 && survivors.length === 1) {
+    const winner = survivors[0];
+    eliminations.push({ playerId: winner.id, name: winner.name, place: 1, handNumber: entry.handNumber, prize: getPrize(structure, entrants, 1) });
+  }
+
+  return { ...tournament, eliminations, isComplete: remaining <= 1 };
+};
+
+export const getFinish = (tournament: TournamentState, playerId: string): Elimination | undefined =>
+  tournament.eliminations.find(e => e.playerId === playerId);
+
+export const formatPlace = (place: number): string => {
+  const suffix = place % 100 >= 11 && place % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][place % 10] || 'th';
+  return `${place}${suffix}`;
+};
+
+export const formatBlinds = (blinds: BlindLevel): string =>
+  `${blinds.smallBlind}/${blinds.bigBlind}${blinds.ante ? ` (ante ${blinds.ante})` : ''}`;
+
+// "10/20, 15/30, 50/100/10": one level per comma or line, ante optional
+export const parseBlindSchedule = (text: string): BlindLevel[] => {
+  const levels = text.split(/[,\n]/).map(part => part.trim()).filter(Boolean).map(part => {
+    const match = part.match(/^(\d+)\s*\/\s*(\d+)(?:\s*\/\s*(\d+))?$/);
+    if (!match) throw new Error(`"${part}" is not a blind level (use small/big or small/big/ante)`);
+    const [smallBlind, bigBlind, ante] = [Number(match[1]), Number(match[2]), Number(match[3] || 0)];
+    if (smallBlind <= 0 || bigBlind < smallBlind) throw new Error(`"${part}" needs a small blind above 0 and no bigger than the big blind`);
+    return { smallBlind, bigBlind, ante };
+  });
+  if (levels.length === 0) throw new Error('The schedule needs at least one level');
+  return levels;
+};
+
+export const formatBlindSchedule = (levels: BlindLevel[]): string =>
+  levels.map(l => `${l.smallBlind}/${l.bigBlind}${l.ante ? `/${l.ante}` : ''}`).join(', ');